@@ -0,0 +1,19 @@
+export {
+  DEFAULT_PRICES,
+  EMPTY_USAGE,
+  getPriceTable,
+  modelPrice,
+  currentModelId,
+  messageModelId,
+  addUsage,
+  subtractUsage,
+  messageUsage,
+} from "./pricing.js";
+export type { ModelPrice } from "./pricing.js";
+export { UsageLedger, aggregateUsage, getUsageLedger } from "./ledger.js";
+export type {
+  UsageEntry,
+  UsageGroup,
+  UsageGroupBy,
+  UsageQuery,
+} from "./ledger.js";
@@ -0,0 +1,156 @@
+import { promises as fs } from "fs";
+import path from "path";
+import { getConfig } from "../config/index.js";
+import { logger } from "../utils/index.js";
+import type { UsageTotals } from "../types/index.js";
+import { EMPTY_USAGE, addUsage } from "./pricing.js";
+
+// ── Usage Ledger ────────────────────────────────────────────────────
+
+/** LLM usage of one chat request (a turn, or the resumed part of one). */
+export interface UsageEntry extends UsageTotals {
+  /** ISO timestamp. */
+  at: string;
+  tenantId: string;
+  /** Principal id (`key:<id>` / `jwt:<sub>`); absent when auth is off. */
+  clientId?: string;
+  threadId: string;
+  /** The user's question, truncated. */
+  question: string;
+  /** `provider:model` that served the request. */
+  model: string;
+}
+
+export type UsageGroupBy = "day" | "thread" | "key" | "tenant" | "question";
+
+export interface UsageGroup extends UsageTotals {
+  key: string;
+  requests: number;
+}
+
+export interface UsageQuery {
+  tenantId?: string;
+  threadId?: string;
+  /** First UTC day included (YYYY-MM-DD). */
+  from?: string;
+  /** Last UTC day included (YYYY-MM-DD). */
+  to?: string;
+}
+
+const QUESTION_MAX_LENGTH = 200;
+
+function groupKey(entry: UsageEntry, groupBy: UsageGroupBy): string {
+  switch (groupBy) {
+    case "day":
+      return entry.at.slice(0, 10);
+    case "thread":
+      return entry.threadId;
+    case "key":
+      return entry.clientId ?? "anonymous";
+    case "tenant":
+      return entry.tenantId;
+    case "question":
+      return entry.question;
+  }
+}
+
+/**
+ * Sum entries per group, most expensive first (ties by key). Groups
+ * are keyed by UTC day, thread, client, tenant or question text.
+ */
+export function aggregateUsage(
+  entries: UsageEntry[],
+  groupBy: UsageGroupBy
+): { totals: UsageTotals & { requests: number }; groups: UsageGroup[] } {
+  const groups = new Map<string, UsageGroup>();
+  let totals = EMPTY_USAGE;
+  for (const entry of entries) {
+    const key = groupKey(entry, groupBy);
+    const group = groups.get(key) ?? { key, requests: 0, ...EMPTY_USAGE };
+    groups.set(key, {
+      key,
+      requests: group.requests + 1,
+      ...addUsage(group, entry),
+    });
+    totals = addUsage(totals, entry);
+  }
+  return {
+    totals: { ...totals, requests: entries.length },
+    groups: [...groups.values()].sort(
+      (a, b) =>
+        b.costUsd - a.costUsd ||
+        b.totalTokens - a.totalTokens ||
+        a.key.localeCompare(b.key)
+    ),
+  };
+}
+
+/**
+ * Append-only JSONL log of LLM usage per chat request. Appends are
+ * serialized; reads scan the whole file, which is fine for the volumes
+ * of a single deployment.
+ */
+export class UsageLedger {
+  private writing: Promise<void> = Promise.resolve();
+
+  constructor(readonly filePath: string) {}
+
+  /** Queue an entry for appending (skipped when no model was called). */
+  record(entry: Omit<UsageEntry, "at"> & { at?: string }): void {
+    if (entry.llmCalls === 0) return;
+    const line = JSON.stringify({
+      ...entry,
+      at: entry.at ?? new Date().toISOString(),
+      question: entry.question.slice(0, QUESTION_MAX_LENGTH),
+    });
+    this.writing = this.writing
+      .then(async () => {
+        await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+        await fs.appendFile(this.filePath, `${line}\n`, "utf8");
+      })
+      .catch((error) => logger.warn(`Failed to record usage: ${error}`));
+  }
+
+  /** Entries matching `query`, oldest first. */
+  async read(query: UsageQuery = {}): Promise<UsageEntry[]> {
+    await this.writing;
+    let text: string;
+    try {
+      text = await fs.readFile(this.filePath, "utf8");
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") return [];
+      throw error;
+    }
+
+    const entries: UsageEntry[] = [];
+    for (const line of text.split("\n")) {
+      if (!line.trim()) continue;
+      let entry: UsageEntry;
+      try {
+        entry = JSON.parse(line) as UsageEntry;
+      } catch {
+        continue; // A torn final line from a crash mid-append
+      }
+      const day = entry.at.slice(0, 10);
+      if (query.tenantId && entry.tenantId !== query.tenantId) continue;
+      if (query.threadId && entry.threadId !== query.threadId) continue;
+      if (query.from && day < query.from) continue;
+      if (query.to && day > query.to) continue;
+      entries.push(entry);
+    }
+    return entries;
+  }
+
+  /** Wait for queued appends (call on shutdown). */
+  async flush(): Promise<void> {
+    await this.writing;
+  }
+}
+
+let _ledger: UsageLedger | null = null;
+
+/** The usage ledger at `USAGE_LEDGER_FILE`. */
+export function getUsageLedger(): UsageLedger {
+  _ledger ??= new UsageLedger(getConfig().usageLedgerFile);
+  return _ledger;
+}
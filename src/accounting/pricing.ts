@@ -0,0 +1,149 @@
+import { readFileSync } from "fs";
+import type { AIMessage, BaseMessage } from "@langchain/core/messages";
+import { getConfig } from "../config/index.js";
+import { getLLMModel, llmAttribution } from "../llm/index.js";
+import { logger } from "../utils/index.js";
+import type { UsageTotals } from "../types/index.js";
+
+// ── Price Table ─────────────────────────────────────────────────────
+
+/** USD per million tokens. */
+export interface ModelPrice {
+  inputPerMillion: number;
+  outputPerMillion: number;
+}
+
+/**
+ * Prices keyed by `provider:model`; `provider:*` prices every model of
+ * a provider that has no entry of its own. List prices at the time of
+ * writing: override them with `LLM_PRICES_FILE` when they change.
+ */
+export const DEFAULT_PRICES: Record<string, ModelPrice> = {
+  "anthropic:claude-sonnet-4-20250514": { inputPerMillion: 3, outputPerMillion: 15 },
+  "anthropic:claude-3-5-sonnet-20241022": { inputPerMillion: 3, outputPerMillion: 15 },
+  "anthropic:claude-3-5-haiku-20241022": { inputPerMillion: 0.8, outputPerMillion: 4 },
+  "bedrock:anthropic.claude-3-5-sonnet-20241022-v2:0": {
+    inputPerMillion: 3,
+    outputPerMillion: 15,
+  },
+  "bedrock:anthropic.claude-3-5-haiku-20241022-v1:0": {
+    inputPerMillion: 0.8,
+    outputPerMillion: 4,
+  },
+  "openai:gpt-4o": { inputPerMillion: 2.5, outputPerMillion: 10 },
+  "openai:gpt-4o-mini": { inputPerMillion: 0.15, outputPerMillion: 0.6 },
+  "mock:*": { inputPerMillion: 0, outputPerMillion: 0 },
+};
+
+let _prices: Record<string, ModelPrice> | null = null;
+const _unpriced = new Set<string>();
+
+/** The default prices, overridden by entries in `LLM_PRICES_FILE`. */
+export function getPriceTable(): Record<string, ModelPrice> {
+  if (_prices) return _prices;
+  const file = getConfig().llmPricesFile;
+  const overrides = file
+    ? (JSON.parse(readFileSync(file, "utf8")) as Record<string, ModelPrice>)
+    : {};
+  for (const [key, price] of Object.entries(overrides)) {
+    if (
+      typeof price?.inputPerMillion !== "number" ||
+      typeof price?.outputPerMillion !== "number"
+    ) {
+      throw new Error(
+        `Invalid price for "${key}" in ${file}: expected inputPerMillion and outputPerMillion`
+      );
+    }
+  }
+  _prices = { ...DEFAULT_PRICES, ...overrides };
+  return _prices;
+}
+
+/** Price of `provider:model`, or null when the table has none. */
+export function modelPrice(modelId: string): ModelPrice | null {
+  const prices = getPriceTable();
+  const provider = modelId.split(":")[0];
+  return prices[modelId] ?? prices[`${provider}:*`] ?? null;
+}
+
+/** `provider:model` of the primary LLM. */
+export function currentModelId(): string {
+  const { provider, model } = getLLMModel();
+  return `${provider}:${model}`;
+}
+
+/**
+ * `provider:model` that produced a reply: the provider of the chain
+ * that answered, or the primary LLM when the reply doesn't say.
+ */
+export function messageModelId(message: BaseMessage): string {
+  const attribution = llmAttribution(message);
+  return attribution
+    ? `${attribution.provider}:${attribution.model}`
+    : currentModelId();
+}
+
+// ── Usage Totals ────────────────────────────────────────────────────
+
+export const EMPTY_USAGE: UsageTotals = {
+  inputTokens: 0,
+  outputTokens: 0,
+  totalTokens: 0,
+  costUsd: 0,
+  llmCalls: 0,
+};
+
+export function addUsage(a: UsageTotals, b: UsageTotals): UsageTotals {
+  return {
+    inputTokens: a.inputTokens + b.inputTokens,
+    outputTokens: a.outputTokens + b.outputTokens,
+    totalTokens: a.totalTokens + b.totalTokens,
+    costUsd: roundUsd(a.costUsd + b.costUsd),
+    llmCalls: a.llmCalls + b.llmCalls,
+  };
+}
+
+export function subtractUsage(a: UsageTotals, b: UsageTotals): UsageTotals {
+  return {
+    inputTokens: a.inputTokens - b.inputTokens,
+    outputTokens: a.outputTokens - b.outputTokens,
+    totalTokens: a.totalTokens - b.totalTokens,
+    costUsd: roundUsd(a.costUsd - b.costUsd),
+    llmCalls: a.llmCalls - b.llmCalls,
+  };
+}
+
+/** Round to a millionth of a dollar, dropping float noise from sums. */
+function roundUsd(value: number): number {
+  return Math.round(value * 1e6) / 1e6;
+}
+
+/**
+ * Token usage and cost of one model reply, priced for the model that
+ * produced it. Replies without `usage_metadata` count as a call with no
+ * tokens; models missing from the price table cost 0 (logged once).
+ */
+export function messageUsage(message: BaseMessage): UsageTotals {
+  const usage = (message as AIMessage).usage_metadata;
+  const inputTokens = usage?.input_tokens ?? 0;
+  const outputTokens = usage?.output_tokens ?? 0;
+  const modelId = messageModelId(message);
+  const price = modelPrice(modelId);
+  if (!price && !_unpriced.has(modelId)) {
+    _unpriced.add(modelId);
+    logger.warn(`No price for ${modelId}; its usage is costed at $0`);
+  }
+  return {
+    inputTokens,
+    outputTokens,
+    totalTokens: usage?.total_tokens ?? inputTokens + outputTokens,
+    costUsd: price
+      ? roundUsd(
+          (inputTokens * price.inputPerMillion +
+            outputTokens * price.outputPerMillion) /
+            1_000_000
+        )
+      : 0,
+    llmCalls: 1,
+  };
+}
@@ -0,0 +1,207 @@
+import {
+  AIMessage,
+  HumanMessage,
+  ToolMessage,
+} from "@langchain/core/messages";
+import type { BaseMessage } from "@langchain/core/messages";
+import { getConfig } from "../config/index.js";
+import { cacheKey, getCache } from "../cache/index.js";
+import { currentModelId } from "../accounting/index.js";
+import { normalizeFilters, tokenize } from "../retrievers/index.js";
+import { getTenant, tenantKnowledgeBase } from "../tenants/index.js";
+import { INTERNAL_MODE_REFUSAL, agentMode } from "../nodes/index.js";
+import { getCurrentTurn, getMessageText, logger } from "../utils/index.js";
+import type { AgentState } from "../state/schemas.js";
+import type {
+  AgentMode,
+  AnswerStyle,
+  CachedAnswerHit,
+  GroundingReport,
+  RetrievalFilters,
+} from "../types/index.js";
+
+// ── Answer Cache ────────────────────────────────────────────────────
+
+/** A message of a cached turn, without ids or usage. */
+interface CachedMessage {
+  type: "ai" | "tool";
+  content: BaseMessage["content"];
+  toolCalls?: AIMessage["tool_calls"];
+  toolCallId?: string;
+  name?: string;
+}
+
+/** A thread's first turn, kept to answer near-duplicate questions. */
+export interface CachedAnswer {
+  question: string;
+  /** Distinct search terms of the question, for matching. */
+  terms: string[];
+  /** Model, mode, filters, prompt version and answer style it was produced with. */
+  scope: string;
+  /** The turn's messages after the question. */
+  messages: CachedMessage[];
+  grounding: GroundingReport | null;
+}
+
+/** What a turn's answer depends on besides the question. */
+interface AnswerContext {
+  filters: RetrievalFilters | null | undefined;
+  promptVersion: string | null;
+  answerStyle: AnswerStyle | null;
+  mode: AgentMode;
+}
+
+function answerScope(context: AnswerContext): string {
+  return cacheKey([
+    currentModelId(),
+    context.mode,
+    normalizeFilters(context.filters) ?? null,
+    context.promptVersion,
+    context.answerStyle,
+  ]);
+}
+
+/**
+ * Share of distinct search terms two questions have in common
+ * (Jaccard), so rewordings like "What's the FY2025 budget total?" and
+ * "what is the total FY2025 budget" match.
+ */
+function similarity(a: Set<string>, b: Set<string>): number {
+  if (a.size === 0 || b.size === 0) return 0;
+  const shared = [...a].filter((term) => b.has(term)).length;
+  return shared / (a.size + b.size - shared);
+}
+
+function toCachedMessage(message: BaseMessage): CachedMessage | null {
+  const type = message._getType();
+  if (type === "ai") {
+    const toolCalls = (message as AIMessage).tool_calls ?? [];
+    return {
+      type,
+      content: message.content,
+      ...(toolCalls.length > 0 && { toolCalls }),
+    };
+  }
+  if (type === "tool") {
+    const toolMessage = message as ToolMessage;
+    return {
+      type,
+      content: message.content,
+      toolCallId: toolMessage.tool_call_id,
+      name: toolMessage.name,
+    };
+  }
+  return null;
+}
+
+/** The cached turn as new messages, starting with the user's question. */
+export function cachedTurnMessages(
+  question: HumanMessage,
+  answer: CachedAnswer
+): BaseMessage[] {
+  return [
+    question,
+    ...answer.messages.map((m) =>
+      m.type === "ai"
+        ? new AIMessage({ content: m.content, tool_calls: m.toolCalls ?? [] })
+        : new ToolMessage({
+            content: m.content,
+            tool_call_id: m.toolCallId ?? "",
+            name: m.name,
+          })
+    ),
+  ];
+}
+
+/**
+ * The cached answer to the question most similar to `query` asked in
+ * the tenant's Knowledge Base with the same model, filters, prompt
+ * version and answer style, if its similarity reaches
+ * `ANSWER_CACHE_SIMILARITY`. Null when the answer cache is off.
+ */
+export async function findCachedAnswer(
+  query: string,
+  tenantId: string,
+  context: AnswerContext
+): Promise<{ answer: CachedAnswer; hit: CachedAnswerHit } | null> {
+  const cache = getCache<CachedAnswer>("answers");
+  const tenant = getTenant(tenantId);
+  if (!cache || !tenant) return null;
+
+  const terms = new Set(tokenize(query));
+  const scope = answerScope(context);
+  const knowledgeBaseId = tenantKnowledgeBase(tenant);
+  const best = await cache.findBest(
+    (answer, tags) =>
+      answer.scope === scope &&
+      tags.tenantId === tenant.id &&
+      tags.knowledgeBaseId === knowledgeBaseId
+        ? similarity(terms, new Set(answer.terms))
+        : null,
+    getConfig().answerCacheSimilarity
+  );
+  if (!best) return null;
+
+  const hit = {
+    question: best.value.question,
+    similarity: Number(best.score.toFixed(4)),
+  };
+  logger.info(`Answer cache hit (similarity ${hit.similarity})`, {
+    query,
+    question: hit.question,
+  });
+  return { answer: best.value, hit };
+}
+
+/**
+ * Cache a completed first turn of a thread. Turns that paused for
+ * review, ran out of budget, kept unsupported figures or were
+ * themselves served from the cache are not cached.
+ */
+export async function cacheAnswer(
+  state: AgentState,
+  tenantId: string
+): Promise<void> {
+  const cache = getCache<CachedAnswer>("answers");
+  const tenant = getTenant(tenantId);
+  if (!cache || !tenant) return;
+
+  const { messages } = state;
+  const turn = getCurrentTurn(messages);
+  const last = messages[messages.length - 1] as AIMessage | undefined;
+  if (
+    turn.length !== messages.length ||
+    turn[0]?._getType() !== "human" ||
+    last?._getType() !== "ai" ||
+    (last.tool_calls?.length ?? 0) > 0 ||
+    !getMessageText(last).trim() ||
+    getMessageText(last) === INTERNAL_MODE_REFUSAL ||
+    state.reviewMode !== "off" ||
+    state.budgetExhausted ||
+    state.cachedAnswer ||
+    state.grounding?.status === "flagged"
+  ) {
+    return;
+  }
+
+  const question = getMessageText(turn[0]);
+  const answer: CachedAnswer = {
+    question,
+    terms: [...new Set(tokenize(question))],
+    scope: answerScope({
+      filters: state.retrievalFilters,
+      promptVersion: state.promptVersion,
+      answerStyle: state.answerStyle,
+      mode: agentMode(state),
+    }),
+    messages: turn
+      .slice(1)
+      .map(toCachedMessage)
+      .filter((m): m is CachedMessage => m !== null),
+    grounding: state.grounding,
+  };
+  await cache.set(cacheKey([tenant.id, answer.scope, question]), answer, {
+    tenantId: tenant.id,
+    knowledgeBaseId: tenantKnowledgeBase(tenant),
+  });
+}
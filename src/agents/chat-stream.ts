@@ -0,0 +1,227 @@
+import type { StreamEvent } from "@langchain/core/tracers/log_stream";
+import type { BaseMessage } from "@langchain/core/messages";
+import { streamAgentEvents, getThreadState } from "./rag-agent.js";
+import { resolveCitations } from "./citations.js";
+import { pendingReview } from "./reviews.js";
+import { generateThreadId } from "../checkpointers/index.js";
+import { EMPTY_USAGE } from "../accounting/index.js";
+import { llmAttribution } from "../llm/index.js";
+import {
+  agentMode,
+  budgetLimitReached,
+  budgetReport,
+} from "../nodes/index.js";
+import type { AgentState } from "../state/schemas.js";
+import {
+  getCurrentTurn,
+  getMessageText,
+  safeJsonParse,
+  splitThinking,
+} from "../utils/index.js";
+import type {
+  AgentInvokeOptions,
+  CachedAnswerHit,
+  ChatStreamEvent,
+  GroundingReport,
+  RetrievalFilters,
+  ReviewRecord,
+  UsageTotals,
+} from "../types/index.js";
+
+// ── Event Mapping Helpers ───────────────────────────────────────────
+
+/**
+ * Extract the text delta from a streamed chat model chunk. Providers
+ * emit either a plain string or an array of content blocks
+ * (`text` / `text_delta`); tool-call argument deltas are ignored.
+ */
+function chunkText(chunk: unknown): string {
+  const content = (chunk as { content?: unknown } | undefined)?.content;
+  if (typeof content === "string") return content;
+  if (!Array.isArray(content)) return "";
+  return content
+    .map((block) =>
+      typeof block === "object" &&
+      block !== null &&
+      typeof block.type === "string" &&
+      block.type.startsWith("text") &&
+      typeof block.text === "string"
+        ? block.text
+        : ""
+    )
+    .join("");
+}
+
+/**
+ * Pull the search query out of a tool start event. The tool tracer
+ * records the raw tool call as a JSON string under `input`.
+ */
+function toolQuery(input: unknown): string | undefined {
+  if (!input || typeof input !== "object") return undefined;
+  const record = input as Record<string, unknown>;
+  if (typeof record.query === "string") return record.query;
+  if (typeof record.input !== "string") return undefined;
+
+  const parsed = safeJsonParse<Record<string, unknown>>(record.input, {});
+  const args = (parsed.args ?? parsed) as Record<string, unknown>;
+  return typeof args.query === "string" ? args.query : undefined;
+}
+
+/**
+ * Summarize a tool result: the retrieval tool returns JSON with a
+ * `status` and `chunks` array inside the ToolMessage content.
+ */
+function toolResult(output: unknown): { status: string; chunkCount: number } {
+  const text =
+    typeof output === "string"
+      ? output
+      : output && typeof output === "object" && "content" in output
+        ? getMessageText(output as BaseMessage)
+        : "";
+
+  const parsed = safeJsonParse<{ status?: string; chunks?: unknown[] }>(
+    text,
+    {}
+  );
+  return {
+    status: parsed.status ?? "unknown",
+    chunkCount: Array.isArray(parsed.chunks) ? parsed.chunks.length : 0,
+  };
+}
+
+function mapEvent(
+  event: StreamEvent,
+  toolQueries: Map<string, string | undefined>
+): ChatStreamEvent | null {
+  switch (event.event) {
+    case "on_chat_model_stream": {
+      const node = event.metadata?.langgraph_node;
+      if (node !== "agent" && node !== "finalize") return null;
+      const content = chunkText(event.data.chunk);
+      return content ? { type: "token", content } : null;
+    }
+
+    case "on_tool_start": {
+      const query = toolQuery(event.data.input);
+      toolQueries.set(event.run_id, query);
+      return { type: "tool_start", runId: event.run_id, tool: event.name, query };
+    }
+
+    case "on_chain_start": {
+      // Out of budget: a partial answer replaces any streamed preamble
+      if (
+        event.name !== "finalize" ||
+        event.metadata?.langgraph_node !== "finalize"
+      ) {
+        return null;
+      }
+      const limit = budgetLimitReached(event.data.input as AgentState);
+      return { type: "budget_exhausted", limit: limit ?? "iterations" };
+    }
+
+    case "on_chain_end": {
+      // Internal mode replaced the draft with a refusal
+      if (
+        event.name === "require_sources" &&
+        event.metadata?.langgraph_node === "require_sources"
+      ) {
+        const output = event.data.output as { messages?: unknown[] } | undefined;
+        return output?.messages?.length ? { type: "refused" } : null;
+      }
+      // The verify node sent the draft back: clients should discard it
+      if (
+        event.name !== "verify" ||
+        event.metadata?.langgraph_node !== "verify"
+      ) {
+        return null;
+      }
+      const grounding = (
+        event.data.output as { grounding?: GroundingReport | null } | undefined
+      )?.grounding;
+      return grounding?.status === "revising"
+        ? { type: "revision", unsupported: grounding.unsupported }
+        : null;
+    }
+
+    case "on_tool_end": {
+      const query = toolQueries.get(event.run_id);
+      toolQueries.delete(event.run_id);
+      return {
+        type: "tool_end",
+        runId: event.run_id,
+        tool: event.name,
+        query,
+        ...toolResult(event.data.output),
+      };
+    }
+
+    default:
+      return null;
+  }
+}
+
+function turnUsage(values: Record<string, unknown>): UsageTotals {
+  return (values.usage ?? EMPTY_USAGE) as UsageTotals;
+}
+
+// ── Public API ──────────────────────────────────────────────────────
+
+/**
+ * Stream typed chat events for the SSE endpoint: token deltas, tool
+ * activity, a `revision` event when figure verification sends the
+ * draft back, a `refused` event when internal mode refuses an uncited
+ * draft, a `budget_exhausted` event when the run budget cuts the
+ * research short, and, once the run completes, the final answer read back
+ * from the thread checkpoint (with `<thinking>` blocks split out and
+ * citation markers resolved to numbered footnotes). A run paused for
+ * review ends with a `review` event instead of the final answer.
+ *
+ * Pass `signal` to cancel the underlying graph run.
+ */
+export async function* streamChatEvents(
+  options: AgentInvokeOptions
+): AsyncGenerator<ChatStreamEvent> {
+  const threadId = options.threadId ?? generateThreadId();
+  const toolQueries = new Map<string, string | undefined>();
+
+  for await (const event of streamAgentEvents({ ...options, threadId })) {
+    const mapped = mapEvent(event, toolQueries);
+    if (mapped) yield mapped;
+  }
+
+  const state = await getThreadState(threadId, options.tenantId);
+  const review = pendingReview(state, threadId);
+  if (review) {
+    yield { type: "review", threadId, review, usage: turnUsage(state.values) };
+    return;
+  }
+
+  const messages = (state.values.messages ?? []) as BaseMessage[];
+  const lastMessage = messages[messages.length - 1];
+  const { content, thinking } = splitThinking(
+    lastMessage ? getMessageText(lastMessage) : ""
+  );
+  const { content: response, citations } = resolveCitations(
+    content,
+    getCurrentTurn(messages)
+  );
+
+  yield {
+    type: "final",
+    threadId,
+    response,
+    thinking,
+    citations,
+    grounding: (state.values.grounding ?? null) as GroundingReport | null,
+    filters: (state.values.retrievalFilters ?? null) as RetrievalFilters | null,
+    reviews: (state.values.reviews ?? []) as ReviewRecord[],
+    budget: budgetReport(state.values as AgentState),
+    usage: turnUsage(state.values),
+    threadUsage: (state.values.threadUsage ?? EMPTY_USAGE) as UsageTotals,
+    cachedAnswer: (state.values.cachedAnswer ?? null) as CachedAnswerHit | null,
+    llm: lastMessage ? llmAttribution(lastMessage) : null,
+    promptVersion: (state.values.promptVersion ?? null) as string | null,
+    mode: agentMode(state.values as AgentState),
+    messageId: lastMessage?.id ?? null,
+  };
+}
@@ -0,0 +1,83 @@
+import type { BaseMessage } from "@langchain/core/messages";
+import { getMessageText, safeJsonParse, truncateText } from "../utils/index.js";
+import type { Citation, RetrievedChunk } from "../types/index.js";
+
+const EXCERPT_LENGTH = 240;
+
+/** Matches `[c:1a2b3c4d]` and grouped forms like `[c:1a2b3c4d, c:5e6f7a8b]`. */
+const MARKER_GROUP_PATTERN =
+  /([ \t]*)\[\s*(c:[0-9a-f]{8}(?:\s*[,;]\s*c:[0-9a-f]{8})*)\s*\]/g;
+
+/**
+ * Collect every chunk returned by retrieval tool calls in `messages`,
+ * keyed by citation marker.
+ */
+export function collectRetrievedChunks(
+  messages: BaseMessage[]
+): Map<string, RetrievedChunk> {
+  const chunks = new Map<string, RetrievedChunk>();
+  for (const message of messages) {
+    if (message._getType() !== "tool") continue;
+    const payload = safeJsonParse<{ chunks?: RetrievedChunk[] }>(
+      getMessageText(message),
+      {}
+    );
+    for (const chunk of payload.chunks ?? []) {
+      if (!chunk?.citation) continue;
+      const existing = chunks.get(chunk.citation);
+      if (!existing || (chunk.score ?? 0) > (existing.score ?? 0)) {
+        chunks.set(chunk.citation, chunk);
+      }
+    }
+  }
+  return chunks;
+}
+
+/**
+ * Replace the LLM's `[c:xxxxxxxx]` citation markers with numbered
+ * footnote references (`[1]`, `[2]`, ...) and build the matching
+ * citations list. Markers that don't correspond to a retrieved chunk
+ * are dropped rather than shown to the user.
+ */
+export function resolveCitations(
+  answer: string,
+  messages: BaseMessage[]
+): { content: string; citations: Citation[] } {
+  const chunks = collectRetrievedChunks(messages);
+  const citations: Citation[] = [];
+  const indexByKey = new Map<string, number>();
+
+  const toFootnote = (key: string): string => {
+    const chunk = chunks.get(key);
+    if (!chunk) return "";
+
+    let index = indexByKey.get(key);
+    if (index === undefined) {
+      index = citations.length + 1;
+      indexByKey.set(key, index);
+      citations.push({
+        index,
+        citation: key,
+        title: chunk.source?.title,
+        uri: chunk.source?.uri,
+        page: chunk.source?.page,
+        score: chunk.score,
+        excerpt: truncateText(chunk.text, EXCERPT_LENGTH),
+      });
+    }
+    return `[${index}]`;
+  };
+
+  const content = answer.replace(
+    MARKER_GROUP_PATTERN,
+    (_match, lead: string, group: string) => {
+      const refs = group
+        .split(/[,;]/)
+        .map((key) => toFootnote(key.trim()))
+        .join("");
+      return refs ? `${lead}${refs}` : "";
+    }
+  );
+
+  return { content, citations };
+}
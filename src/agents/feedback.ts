@@ -0,0 +1,138 @@
+import type { StateSnapshot } from "@langchain/langgraph";
+import type { AIMessage, BaseMessage } from "@langchain/core/messages";
+import { getThreadHistory, getThreadState } from "./rag-agent.js";
+import { resolveCitations } from "./citations.js";
+import { agentMode } from "../nodes/index.js";
+import {
+  annotateFeedback,
+  getFeedbackStore,
+} from "../feedback/index.js";
+import type { FeedbackEntry, FeedbackRequest } from "../feedback/index.js";
+import { getMessageText, logger, splitThinking } from "../utils/index.js";
+import type { AgentState } from "../state/schemas.js";
+import type { AgentMode, Citation } from "../types/index.js";
+
+// ── Rated Answers ───────────────────────────────────────────────────
+
+interface RatedAnswer {
+  turnId?: string;
+  question: string;
+  answer: string;
+  citations: Citation[];
+  promptVersion: string | null;
+  mode: AgentMode;
+}
+
+/** The answer `messageId` in a snapshot's messages, with its question. */
+function answerIn(
+  snapshot: StateSnapshot,
+  messageId: string
+): RatedAnswer | null {
+  const values = (snapshot.values ?? {}) as AgentState;
+  const messages: BaseMessage[] = values.messages ?? [];
+  const index = messages.findIndex((m) => m.id === messageId);
+  const message = messages[index] as AIMessage | undefined;
+  if (
+    !message ||
+    message._getType() !== "ai" ||
+    (message.tool_calls?.length ?? 0) > 0
+  ) {
+    return null;
+  }
+
+  let start = index;
+  while (start > 0 && messages[start]._getType() !== "human") start--;
+  const turn = messages.slice(start, index + 1);
+  const { content } = splitThinking(getMessageText(message));
+  const { content: answer, citations } = resolveCitations(content, turn);
+  return {
+    turnId: turn[0]?._getType() === "human" ? turn[0].id : undefined,
+    question: turn[0]?._getType() === "human" ? getMessageText(turn[0]) : "",
+    answer,
+    citations,
+    promptVersion: values.promptVersion ?? null,
+    mode: agentMode(values),
+  };
+}
+
+/**
+ * Find an answer in a thread: in its current state, else in the
+ * checkpoint history (memory management may have folded the turn out).
+ */
+async function findAnswer(
+  threadId: string,
+  messageId: string,
+  tenantId: string
+): Promise<RatedAnswer | null> {
+  const current = answerIn(await getThreadState(threadId, tenantId), messageId);
+  if (current) return current;
+  for await (const snapshot of getThreadHistory(threadId, {}, tenantId)) {
+    const found = answerIn(snapshot, messageId);
+    if (found) return found;
+  }
+  return null;
+}
+
+// ── Public API ──────────────────────────────────────────────────────
+
+export interface FeedbackResult {
+  feedback?: FeedbackEntry;
+  /** HTTP status and message when the feedback can't be recorded. */
+  error?: { status: number; message: string };
+}
+
+/**
+ * Record a user's feedback on an answer of a tenant's thread, with the
+ * answer and question it rates, and annotate the run's trace.
+ */
+export async function recordFeedback(
+  request: FeedbackRequest,
+  context: { tenantId: string; clientId?: string }
+): Promise<FeedbackResult> {
+  const { threadId, messageId, flaggedCitation } = request;
+  const rated = await findAnswer(threadId, messageId, context.tenantId);
+  if (!rated) {
+    return {
+      error: { status: 404, message: `No answer ${messageId} in thread ${threadId}` },
+    };
+  }
+
+  let flagged: Citation | undefined;
+  if (flaggedCitation !== undefined) {
+    flagged = rated.citations.find((c) =>
+      typeof flaggedCitation === "number"
+        ? c.index === flaggedCitation
+        : c.citation === flaggedCitation
+    );
+    if (!flagged) {
+      return {
+        error: {
+          status: 400,
+          message: `The answer has no citation ${flaggedCitation}`,
+        },
+      };
+    }
+  }
+
+  const feedback = await getFeedbackStore().upsert({
+    tenantId: context.tenantId,
+    threadId,
+    messageId,
+    turnId: rated.turnId,
+    rating: request.rating,
+    comment: request.comment?.trim() || undefined,
+    correctedAnswer: request.correctedAnswer?.trim() || undefined,
+    flaggedCitation: flagged,
+    question: rated.question,
+    answer: rated.answer,
+    citations: rated.citations,
+    promptVersion: rated.promptVersion,
+    mode: rated.mode,
+    clientId: context.clientId,
+  });
+  logger.info(
+    `Feedback ${feedback.rating} on ${threadId}/${messageId} (${feedback.id})`
+  );
+  annotateFeedback(feedback);
+  return { feedback };
+}
@@ -1,17 +1,71 @@
+import { randomUUID } from "crypto";
 import { StateGraph } from "@langchain/langgraph";
 import { HumanMessage } from "@langchain/core/messages";
+import type { BaseMessage } from "@langchain/core/messages";
 import type { RunnableConfig } from "@langchain/core/runnables";
+import type { StreamEvent } from "@langchain/core/tracers/log_stream";
+import type { CheckpointListOptions } from "@langchain/langgraph-checkpoint";
 import { AgentStateAnnotation } from "../state/schemas.js";
-import { agentNode, toolNode, routeAgentResponse } from "../nodes/index.js";
+import type { AgentState } from "../state/schemas.js";
+import {
+  agentNode,
+  createToolNode,
+  finalizeNode,
+  routeAgentResponse,
+  verifyNode,
+  routeVerification,
+  reviewNode,
+  memoryNode,
+  requireSourcesNode,
+  resolveRunBudget,
+  runDeadline,
+} from "../nodes/index.js";
 import {
   getCheckpointer,
   createThreadConfig,
   generateThreadId,
 } from "../checkpointers/index.js";
-import { getMessageText, logger } from "../utils/index.js";
+import { getCurrentTurn, getMessageText, logger } from "../utils/index.js";
 import { getConfig } from "../config/index.js";
 import { initArizeTracing } from "../instrumentation/index.js";
-import type { AgentInvokeOptions } from "../types/index.js";
+import { llmAttribution } from "../llm/index.js";
+import { EMPTY_USAGE, subtractUsage } from "../accounting/index.js";
+import { normalizeFilters } from "../retrievers/index.js";
+import {
+  assignPrompt,
+  getPromptTemplate,
+  personaPrompt,
+} from "../prompts/index.js";
+import {
+  defaultTenantId,
+  getTenant,
+  tenantThreadId,
+} from "../tenants/index.js";
+import type {
+  AgentInvokeOptions,
+  AgentMode,
+  AnswerStyle,
+  LlmAttribution,
+  PendingReview,
+  RetrievalFilters,
+  ReviewDecision,
+  ReviewMode,
+  RunBudget,
+  UsageTotals,
+} from "../types/index.js";
+import { getCache } from "../cache/index.js";
+import {
+  cacheAnswer,
+  cachedTurnMessages,
+  findCachedAnswer,
+} from "./answer-cache.js";
+import {
+  REVIEW_INTERRUPTS,
+  pendingReview,
+  resolveReview,
+  strictestReviewMode,
+} from "./reviews.js";
+import { indexedReviewThreads, markReviewPending } from "./review-index.js";
 
 // ── Arize AX Auto-Init ─────────────────────────────────────────────
 // Initialize tracing early so all LLM/tool calls are captured.
@@ -29,36 +83,75 @@ if (_config.arizeEnabled) {
 /**
  * Builds the RAG agent graph with a ReAct pattern:
  *
- *   START → agent → [conditional] → tools → agent
- *                        ↓
- *                      __end__
+ *   START → memory → agent → [conditional] → tools → agent
+ *                                 ↓        ↘
+ *                                 ↓         finalize (run budget used up)
+ *                                 ↓        ↙
+ *                  (require_sources) ↓
+ *                               verify → [conditional] → agent (one revision)
+ *                                              ↓
+ *                                            review → __end__
+ *
+ * The memory node compacts and summarizes earlier turns so the history
+ * fits the context window. The agent node invokes the LLM, which
+ * decides whether to call the knowledge_base_retrieval tool or produce
+ * a final answer. When the run
+ * budget can't cover another step, finalize writes a partial answer
+ * instead. The verify node checks the answer's figures against the
+ * retrieved chunks. The review node is a pass-through that review mode
+ * pauses before.
  *
- * The agent node invokes the LLM, which decides whether to call the
- * knowledge_base_retrieval tool or produce a final answer.
+ * Each agent mode gets its own graph with that mode's tools. Internal
+ * mode adds require_sources before verify, which refuses answers that
+ * cite no retrieved chunks.
  */
-export function buildRagAgentGraph() {
+export function buildRagAgentGraph(
+  mode: AgentMode = getConfig().agentMode
+) {
   const graph = new StateGraph(AgentStateAnnotation)
+    .addNode("memory", memoryNode)
     .addNode("agent", agentNode)
-    .addNode("tools", toolNode)
-    .addEdge("__start__", "agent")
-    .addConditionalEdges("agent", routeAgentResponse, {
-      tools: "tools",
-      __end__: "__end__",
+    .addNode("tools", createToolNode(mode))
+    .addNode("finalize", finalizeNode)
+    .addNode("verify", verifyNode)
+    .addNode("review", reviewNode)
+    .addEdge("__start__", "memory")
+    .addEdge("memory", "agent")
+    .addEdge("tools", "agent")
+    .addEdge("finalize", "verify")
+    .addConditionalEdges("verify", routeVerification, {
+      agent: "agent",
+      __end__: "review",
     })
-    .addEdge("tools", "agent");
+    .addEdge("review", "__end__");
 
-  return graph;
+  if (mode === "internal") {
+    return graph
+      .addNode("require_sources", requireSourcesNode)
+      .addConditionalEdges("agent", routeAgentResponse, {
+        tools: "tools",
+        finalize: "finalize",
+        __end__: "require_sources",
+      })
+      .addEdge("require_sources", "verify");
+  }
+  return graph.addConditionalEdges("agent", routeAgentResponse, {
+    tools: "tools",
+    finalize: "finalize",
+    __end__: "verify",
+  });
 }
 
 /**
- * Compile the graph with an optional checkpointer.
+ * Compile the graph of an agent mode with an optional checkpointer.
  */
 export function compileRagAgent(options?: {
+  mode?: AgentMode;
   checkpointer?: boolean;
   interruptBefore?: string[];
   interruptAfter?: string[];
 }) {
-  const graph = buildRagAgentGraph();
+  const graph = buildRagAgentGraph(options?.mode);
   const compileOptions: Record<string, unknown> = {};
 
   if (options?.checkpointer) {
@@ -76,52 +169,405 @@ export function compileRagAgent(options?: {
 
 /**
  * Exported graph without checkpointer — used by LangGraph Studio/API.
+ * It is the `AGENT_MODE` graph.
  */
 export const graph = buildRagAgentGraph().compile();
 
 // ── Helper Agent (with checkpointer for local use) ──────────────────
 
-let _agent: ReturnType<typeof compileRagAgent> | null = null;
+const _agents = new Map<string, ReturnType<typeof compileRagAgent>>();
 
-function getAgent() {
-  if (!_agent) {
-    _agent = compileRagAgent({ checkpointer: true });
+/**
+ * The checkpointed agent, compiled once per agent mode and review mode.
+ * All of them share the checkpointer, so any of them can continue a
+ * thread.
+ */
+function getAgent(
+  mode: AgentMode = getConfig().agentMode,
+  review: ReviewMode = "off"
+) {
+  const key = `${mode}:${review}`;
+  let agent = _agents.get(key);
+  if (!agent) {
+    const interruptBefore = REVIEW_INTERRUPTS[review];
+    agent = compileRagAgent({
+      mode,
+      checkpointer: true,
+      ...(interruptBefore.length > 0 && { interruptBefore }),
+    });
+    _agents.set(key, agent);
   }
-  return _agent;
+  return agent;
 }
 
 // ── Public API ──────────────────────────────────────────────────────
 
 /**
- * Invoke the RAG agent with a query.
- *
- * This is the primary entry point. It:
- * 1. Sends the user query as a message
- * 2. Returns the agent's final response
+ * Run config for a tenant's conversation: the checkpointer key is
+ * scoped to the tenant, and `configurable.tenantId` tells the tools
+ * whose documents they may search. Both override anything in the
+ * caller's `config`, so a run can't be pointed at another tenant.
  */
-export async function invokeAgent(
+function tenantThreadConfig(
+  threadId: string,
+  tenantId?: string,
+  config?: RunnableConfig
+): RunnableConfig {
+  const tenant = tenantId ?? defaultTenantId();
+  const { configurable } = createThreadConfig(
+    tenantThreadId(tenant, threadId),
+    { tenantId: tenant }
+  );
+  return {
+    ...config,
+    configurable: { ...config?.configurable, ...configurable },
+  };
+}
+
+/**
+ * Graph input for a new turn. Grounding, review decisions and the run
+ * budget's counters are reset; pinned retrieval filters are only
+ * written when the caller passes them.
+ */
+function turnInput(
+  userMessage: HumanMessage,
+  filters: RetrievalFilters | null | undefined,
+  reviewMode: ReviewMode,
+  mode: AgentMode,
+  prompt: { promptVersion: string; answerStyle: AnswerStyle | null },
+  budget?: RunBudget
+) {
+  const limits = resolveRunBudget(budget);
+  return {
+    messages: [userMessage],
+    grounding: null,
+    reviewMode,
+    mode,
+    ...prompt,
+    reviews: [],
+    iterations: 0,
+    usage: EMPTY_USAGE,
+    budget: limits,
+    deadline: runDeadline(limits),
+    budgetExhausted: null,
+    cachedAnswer: null,
+    ...(filters !== undefined && {
+      retrievalFilters: normalizeFilters(filters) ?? null,
+    }),
+  };
+}
+
+/**
+ * Start a turn on a thread: picks the agent for the agent and review
+ * modes and refuses to add a message while the thread is paused for
+ * review (pending tool calls would be left without results). The agent
+ * mode defaults to the one the thread's last turn used.
+ */
+async function startTurn(
   options: AgentInvokeOptions
-): Promise<string> {
-  const { query, threadId, config } = options;
-  const agent = getAgent();
+): Promise<{
+  agent: ReturnType<typeof compileRagAgent>;
+  thread: string;
+  threadConfig: RunnableConfig;
+  input: ReturnType<typeof turnInput>;
+}> {
+  const { query, threadId, config, filters, tenantId, budget } = options;
+  // REVIEW_MODE is a minimum: a request can add review points, not drop them
+  const review = strictestReviewMode(
+    getConfig().reviewMode,
+    options.review ?? "off"
+  );
   const thread = threadId ?? generateThreadId();
-  const threadConfig = createThreadConfig(thread);
+  const threadConfig = tenantThreadConfig(thread, tenantId, config);
 
-  logger.info(
-    `Invoking RAG agent: query="${query}", thread="${thread}"`
+  const existing = threadId ? await getAgent().getState(threadConfig) : null;
+  if (existing && pendingReview(existing, thread)) {
+    throw new Error(`Thread ${thread} is waiting for review`);
+  }
+  const previousMode = existing?.values.mode as AgentMode | null | undefined;
+  const mode = options.mode ?? previousMode ?? getConfig().agentMode;
+  const agent = getAgent(mode, review);
+  // Each mode has its own prompt, so a switch picks the new mode's
+  const promptVersion = selectPrompt(
+    threadConfig,
+    mode,
+    options.prompt,
+    mode === (previousMode ?? mode) ? existing?.values.promptVersion : null
+  );
+  // The question's id identifies the turn in traces and feedback
+  const turnId = randomUUID();
+  const input = turnInput(
+    new HumanMessage({ content: query, id: turnId }),
+    filters,
+    review,
+    mode,
+    { promptVersion, answerStyle: options.answerStyle ?? null },
+    budget
   );
+  // Recorded on the run's traces, so they can be compared by version
+  threadConfig.metadata = {
+    ...threadConfig.metadata,
+    promptVersion,
+    mode,
+    turnId,
+  };
+  return { agent, thread, threadConfig, input };
+}
 
-  const userMessage = new HumanMessage(query);
+/**
+ * The thread's prompt version: the request's selection, else the one
+ * the thread already uses (while that template still exists), else an
+ * assignment from the tenant's persona for the mode. A/B assignment is
+ * seeded with the thread id, so a thread keeps its variant.
+ */
+function selectPrompt(
+  threadConfig: RunnableConfig,
+  mode: AgentMode,
+  requested: string | undefined,
+  current: string | null | undefined
+): string {
+  const seed = String(threadConfig.configurable?.thread_id);
+  if (requested) return assignPrompt(requested, seed).id;
+  if (current && getPromptTemplate(current)) return current;
+  const tenant = getTenant(threadConfig.configurable?.tenantId);
+  return assignPrompt(personaPrompt(tenant?.persona, mode), seed).id;
+}
 
-  const result = await agent.invoke(
+/**
+ * The review the thread is paused at, if any, added to the tenant's
+ * pending-review index. Returns null without a read when the turn can't
+ * pause.
+ */
+async function syncReview(
+  agent: ReturnType<typeof compileRagAgent>,
+  thread: string,
+  threadConfig: RunnableConfig,
+  review: ReviewMode
+): Promise<PendingReview | null> {
+  if (review === "off") return null;
+  const pending = pendingReview(await agent.getState(threadConfig), thread);
+  if (pending) {
+    await markReviewPending(threadConfig.configurable?.tenantId, thread, true);
+  }
+  return pending;
+}
+
+/**
+ * Serve a new thread's first question from the answer cache: the
+ * cached turn is written to the thread as if the graph had just run
+ * it. Returns false on a miss, and for turns that can pause for review.
+ */
+async function answerFromCache(
+  agent: ReturnType<typeof compileRagAgent>,
+  threadConfig: RunnableConfig,
+  input: ReturnType<typeof turnInput>
+): Promise<boolean> {
+  if (input.reviewMode !== "off" || !getCache("answers")) return false;
+  const existing = (await agent.getState(threadConfig)).values as AgentState;
+  if ((existing.messages?.length ?? 0) > 0) return false;
+
+  const query = getMessageText(input.messages[0]);
+  const cached = await findCachedAnswer(
+    query,
+    threadConfig.configurable?.tenantId,
+    {
+      filters: input.retrievalFilters,
+      promptVersion: input.promptVersion,
+      answerStyle: input.answerStyle,
+      mode: input.mode,
+    }
+  );
+  if (!cached) return false;
+
+  // Written as the review node, so the thread ends like a normal run
+  await agent.updateState(
+    threadConfig,
     {
-      messages: [userMessage],
+      ...input,
+      messages: cachedTurnMessages(input.messages[0], cached.answer),
+      grounding: cached.answer.grounding,
+      cachedAnswer: cached.hit,
     },
-    { ...threadConfig, ...config }
+    "review"
   );
+  return true;
+}
 
-  const lastMessage = result.messages[result.messages.length - 1];
-  return getMessageText(lastMessage);
+/** Offer the thread's finished first turn to the answer cache. */
+async function rememberAnswer(
+  agent: ReturnType<typeof compileRagAgent>,
+  threadConfig: RunnableConfig
+): Promise<void> {
+  if (!getCache("answers")) return;
+  const state = (await agent.getState(threadConfig)).values as AgentState;
+  await cacheAnswer(state, threadConfig.configurable?.tenantId);
+}
+
+export interface AgentTurnResult {
+  threadId: string;
+  /** Raw text of the final AI message (thinking tags and citation markers intact). */
+  response: string;
+  /** Messages produced in this turn, starting with the user's message. */
+  turnMessages: BaseMessage[];
+  /** Full graph state after the turn. */
+  state: AgentState;
+  /** The review the run paused for, or null when it ran to the end. */
+  review: PendingReview | null;
+  /** LLM usage of this call (a resumed turn counts only what it added). */
+  usage: UsageTotals;
+  /** Provider that produced the answer; null when paused or cached. */
+  llm: LlmAttribution | null;
+}
+
+/**
+ * Run one conversational turn and return the final answer together
+ * with the turn's messages and state (used by the HTTP API to build
+ * citations and other response metadata).
+ */
+export async function runAgentTurn(
+  options: AgentInvokeOptions
+): Promise<AgentTurnResult> {
+  const { query, signal } = options;
+  const { agent, thread, threadConfig, input } = await startTurn(options);
+
+  logger.info(`Invoking RAG agent on thread "${thread}"`, { query });
+
+  if (await answerFromCache(agent, threadConfig, input)) {
+    const cached = (await agent.getState(threadConfig)).values as AgentState;
+    return turnResult(thread, cached, null);
+  }
+
+  const result = await agent.invoke(input, { ...threadConfig, signal });
+  const review = await syncReview(agent, thread, threadConfig, input.reviewMode);
+  if (!review) await cacheAnswer(result, threadConfig.configurable?.tenantId);
+
+  return turnResult(thread, result, review);
+}
+
+function turnResult(
+  threadId: string,
+  state: AgentState,
+  review: PendingReview | null,
+  usageBefore: UsageTotals = EMPTY_USAGE
+): AgentTurnResult {
+  const lastMessage = state.messages[state.messages.length - 1];
+  return {
+    threadId,
+    // A paused run has no answer yet
+    response: review || !lastMessage ? "" : getMessageText(lastMessage),
+    turnMessages: getCurrentTurn(state.messages),
+    state,
+    review,
+    usage: subtractUsage(state.usage ?? EMPTY_USAGE, usageBefore),
+    llm: review || !lastMessage ? null : llmAttribution(lastMessage),
+  };
+}
+
+/**
+ * Apply a reviewer's decision to a thread paused for review and run it
+ * on to the end, or to the next review point. Throws when the thread
+ * isn't waiting for review or the decision doesn't fit.
+ */
+export async function resumeAgentTurn(
+  threadId: string,
+  decision: ReviewDecision,
+  options: {
+    tenantId?: string;
+    /** Recorded with the decision: the reviewer's principal id and name. */
+    reviewer?: { id: string; name: string };
+    config?: RunnableConfig;
+    signal?: AbortSignal;
+  } = {}
+): Promise<AgentTurnResult> {
+  const threadConfig = tenantThreadConfig(
+    threadId,
+    options.tenantId,
+    options.config
+  );
+  const snapshot = await getAgent().getState(threadConfig);
+  const pending = pendingReview(snapshot, threadId);
+  if (!pending) throw new Error(`Thread ${threadId} is not waiting for review`);
+
+  const state = snapshot.values as AgentState;
+  const review = state.reviewMode ?? "off";
+  const agent = getAgent(state.mode ?? undefined, review);
+  const { update, asNode, resume } = resolveReview(
+    pending,
+    decision,
+    state,
+    options.reviewer
+  );
+  logger.info(
+    `Review of thread "${threadId}": ${decision.action} ${pending.kind}`
+  );
+
+  // The wait for the reviewer doesn't count against the run's timeout
+  if (update && resume && state.budget) {
+    update.deadline = runDeadline(state.budget);
+  }
+  if (update) await agent.updateState(threadConfig, update, asNode);
+  let result = (await agent.getState(threadConfig)).values as AgentState;
+  if (resume) {
+    result = await agent.invoke(null, {
+      ...threadConfig,
+      metadata: {
+        ...threadConfig.metadata,
+        promptVersion: state.promptVersion,
+        mode: state.mode,
+        turnId: getCurrentTurn(state.messages)[0]?.id,
+      },
+      signal: options.signal,
+    });
+  }
+  const next = pendingReview(await agent.getState(threadConfig), threadId);
+  await markReviewPending(
+    threadConfig.configurable?.tenantId,
+    threadId,
+    next !== null
+  );
+
+  return turnResult(threadId, result, next, state.usage ?? EMPTY_USAGE);
+}
+
+/** The review a thread is paused for, or null. */
+export async function getPendingReview(
+  threadId: string,
+  tenantId?: string
+): Promise<PendingReview | null> {
+  const threadConfig = tenantThreadConfig(threadId, tenantId);
+  return pendingReview(await getAgent().getState(threadConfig), threadId);
+}
+
+/**
+ * Threads of a tenant paused for review, oldest first. Read from the
+ * pending-review index in the checkpointer, so every server sharing it
+ * lists the same reviews; each listed thread is checked against its own
+ * state, so an entry left behind by a failed resume is skipped.
+ */
+export async function listPendingReviews(
+  tenantId?: string
+): Promise<PendingReview[]> {
+  const tenant = tenantId ?? defaultTenantId();
+  const reviews: PendingReview[] = [];
+  for (const threadId of await indexedReviewThreads(tenant)) {
+    const pending = await getPendingReview(threadId, tenant);
+    if (pending) reviews.push(pending);
+  }
+  return reviews.sort((a, b) => a.pausedAt.localeCompare(b.pausedAt));
+}
+
+/**
+ * Invoke the RAG agent with a query.
+ *
+ * This is the primary entry point. It:
+ * 1. Sends the user query as a message
+ * 2. Returns the agent's final response
+ */
+export async function invokeAgent(
+  options: AgentInvokeOptions
+): Promise<string> {
+  const { response } = await runAgentTurn(options);
+  return response;
 }
 
 /**
@@ -130,21 +576,25 @@ export async function invokeAgent(
 export async function* streamAgent(
   options: AgentInvokeOptions
 ): AsyncGenerator<{ messages: unknown[] }> {
-  const { query, threadId, config } = options;
-  const agent = getAgent();
-  const thread = threadId ?? generateThreadId();
-  const threadConfig = createThreadConfig(thread);
+  const { signal } = options;
+  const { agent, thread, threadConfig, input } = await startTurn(options);
 
-  const userMessage = new HumanMessage(query);
+  if (await answerFromCache(agent, threadConfig, input)) {
+    yield (await agent.getState(threadConfig)).values as AgentState;
+    return;
+  }
 
-  const stream = await agent.stream(
-    { messages: [userMessage] },
-    { ...threadConfig, ...config, streamMode: "values" }
-  );
+  const stream = await agent.stream(input, {
+    ...threadConfig,
+    signal,
+    streamMode: "values",
+  });
 
   for await (const chunk of stream) {
     yield chunk;
   }
+  await syncReview(agent, thread, threadConfig, input.reviewMode);
+  await rememberAnswer(agent, threadConfig);
 }
 
 /**
@@ -152,22 +602,24 @@ export async function* streamAgent(
  */
 export async function* streamAgentEvents(
   options: AgentInvokeOptions
-): AsyncGenerator<unknown> {
-  const { query, threadId, config } = options;
-  const agent = getAgent();
-  const thread = threadId ?? generateThreadId();
-  const threadConfig = createThreadConfig(thread);
+): AsyncGenerator<StreamEvent> {
+  const { signal } = options;
+  const { agent, thread, threadConfig, input } = await startTurn(options);
 
-  const userMessage = new HumanMessage(query);
+  // A cached answer has no events; callers read it from the thread
+  if (await answerFromCache(agent, threadConfig, input)) return;
 
-  const stream = agent.streamEvents(
-    { messages: [userMessage] },
-    { ...threadConfig, ...config, version: "v2" }
-  );
+  const stream = agent.streamEvents(input, {
+    ...threadConfig,
+    signal,
+    version: "v2",
+  });
 
   for await (const event of stream) {
     yield event;
   }
+  await syncReview(agent, thread, threadConfig, input.reviewMode);
+  await rememberAnswer(agent, threadConfig);
 }
 
 /**
@@ -176,17 +628,18 @@ export async function* streamAgentEvents(
 export async function continueConversation(
   threadId: string,
   query: string,
-  config?: RunnableConfig
+  config?: RunnableConfig,
+  tenantId?: string
 ): Promise<string> {
-  const agent = getAgent();
-  const threadConfig = createThreadConfig(threadId);
-
-  const userMessage = new HumanMessage(query);
+  const { agent, threadConfig, input } = await startTurn({
+    query,
+    threadId,
+    config,
+    tenantId,
+    review: "off",
+  });
 
-  const result = await agent.invoke(
-    { messages: [userMessage] },
-    { ...threadConfig, ...config }
-  );
+  const result = await agent.invoke(input, threadConfig);
 
   const lastMessage = result.messages[result.messages.length - 1];
   return getMessageText(lastMessage);
@@ -195,17 +648,21 @@ export async function continueConversation(
 /**
  * Retrieve the current state for a given thread.
  */
-export async function getThreadState(threadId: string) {
+export async function getThreadState(threadId: string, tenantId?: string) {
   const agent = getAgent();
-  const threadConfig = createThreadConfig(threadId);
+  const threadConfig = tenantThreadConfig(threadId, tenantId);
   return agent.getState(threadConfig);
 }
 
 /**
- * Get full conversation history for a thread.
+ * Get full conversation history for a thread (newest checkpoint first).
  */
-export async function getThreadHistory(threadId: string) {
+export function getThreadHistory(
+  threadId: string,
+  options?: CheckpointListOptions,
+  tenantId?: string
+) {
   const agent = getAgent();
-  const threadConfig = createThreadConfig(threadId);
-  return agent.getStateHistory(threadConfig);
+  const threadConfig = tenantThreadConfig(threadId, tenantId);
+  return agent.getStateHistory(threadConfig, options);
 }
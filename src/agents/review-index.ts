@@ -0,0 +1,61 @@
+import type { RunnableConfig } from "@langchain/core/runnables";
+import { emptyCheckpoint } from "@langchain/langgraph-checkpoint";
+import type { CheckpointMetadata } from "@langchain/langgraph-checkpoint";
+import { getCheckpointer } from "../checkpointers/index.js";
+import { tenantThreadId } from "../tenants/index.js";
+
+// ── Pending Review Index ────────────────────────────────────────────
+//
+// Which of a tenant's threads are paused for review, kept in the
+// checkpointer so every server sharing it lists the same reviews. Each
+// tenant has an index thread with one checkpoint namespace per reviewed
+// thread. The namespace's single checkpoint is overwritten on pause and
+// on resume, so listing reads one small record per reviewed thread
+// instead of walking every conversation.
+
+/** `#` is not allowed in client thread ids, so this can't collide with one. */
+const INDEX_THREAD = "#pending-reviews";
+const ENTRY_ID = "entry";
+
+function indexConfig(tenantId: string, threadId?: string): RunnableConfig {
+  return {
+    configurable: {
+      thread_id: tenantThreadId(tenantId, INDEX_THREAD),
+      ...(threadId !== undefined && { checkpoint_ns: threadId }),
+    },
+  };
+}
+
+/** Record that a thread paused for review, or that it no longer waits. */
+export async function markReviewPending(
+  tenantId: string,
+  threadId: string,
+  pending: boolean
+): Promise<void> {
+  const metadata: CheckpointMetadata<{ pending: boolean }> = {
+    source: "update",
+    step: -1,
+    writes: null,
+    parents: {},
+    pending,
+  };
+  await getCheckpointer().put(
+    indexConfig(tenantId, threadId),
+    { ...emptyCheckpoint(), id: ENTRY_ID },
+    metadata,
+    {}
+  );
+}
+
+/** Threads of a tenant the index lists as paused for review. */
+export async function indexedReviewThreads(tenantId: string): Promise<string[]> {
+  const threads: string[] = [];
+  for await (const { config, metadata } of getCheckpointer().list(
+    indexConfig(tenantId)
+  )) {
+    const pending = (metadata as { pending?: boolean } | undefined)?.pending;
+    const threadId = config.configurable?.checkpoint_ns;
+    if (pending && typeof threadId === "string") threads.push(threadId);
+  }
+  return threads;
+}
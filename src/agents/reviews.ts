@@ -0,0 +1,234 @@
+import { z } from "zod";
+import type { StateSnapshot } from "@langchain/langgraph";
+import { AIMessage, ToolMessage } from "@langchain/core/messages";
+import type { BaseMessage } from "@langchain/core/messages";
+import { getCurrentTurn, getMessageText } from "../utils/index.js";
+import type { AgentState, AgentStateUpdate } from "../state/schemas.js";
+import type {
+  PendingReview,
+  ReviewDecision,
+  ReviewMode,
+  ReviewRecord,
+} from "../types/index.js";
+
+// ── Interrupt Points ────────────────────────────────────────────────
+
+/** Graph nodes the run pauses before, per review mode. */
+export const REVIEW_INTERRUPTS: Record<ReviewMode, string[]> = {
+  off: [],
+  tools: ["tools"],
+  answer: ["review"],
+  all: ["tools", "review"],
+};
+
+/**
+ * The review mode that pauses wherever either `a` or `b` does, e.g.
+ * `tools` and `answer` give `all`.
+ */
+export function strictestReviewMode(a: ReviewMode, b: ReviewMode): ReviewMode {
+  const interrupts = new Set([...REVIEW_INTERRUPTS[a], ...REVIEW_INTERRUPTS[b]]);
+  const modes = Object.keys(REVIEW_INTERRUPTS) as ReviewMode[];
+  return modes.find(
+    (mode) =>
+      REVIEW_INTERRUPTS[mode].length === interrupts.size &&
+      REVIEW_INTERRUPTS[mode].every((node) => interrupts.has(node))
+  )!;
+}
+
+export const reviewModeSchema = z.enum(["off", "tools", "answer", "all"]);
+
+export const reviewDecisionSchema = z
+  .object({
+    action: z.enum(["approve", "reject"]),
+    toolCalls: z
+      .array(
+        z.object({ id: z.string().min(1), args: z.record(z.unknown()) }).strict()
+      )
+      .optional(),
+    answer: z.string().min(1).optional(),
+    reason: z.string().max(2000).optional(),
+  })
+  .strict();
+
+function snapshotMessages(snapshot: StateSnapshot): BaseMessage[] {
+  return (snapshot.values?.messages ?? []) as BaseMessage[];
+}
+
+/**
+ * The review a paused thread is waiting on, or null when the thread
+ * isn't paused at a review point.
+ */
+export function pendingReview(
+  snapshot: StateSnapshot,
+  threadId: string
+): PendingReview | null {
+  const messages = snapshotMessages(snapshot);
+  const turn = getCurrentTurn(messages);
+  const last = messages[messages.length - 1] as AIMessage | undefined;
+  if (!last || last._getType() !== "ai") return null;
+
+  const base = {
+    threadId,
+    question: turn[0] ? getMessageText(turn[0]) : "",
+    pausedAt: snapshot.createdAt ?? new Date().toISOString(),
+  };
+
+  if (snapshot.next.includes("tools")) {
+    return {
+      ...base,
+      kind: "tool_calls",
+      toolCalls: (last.tool_calls ?? []).map((tc) => ({
+        id: tc.id ?? "",
+        name: tc.name,
+        args: tc.args,
+      })),
+    };
+  }
+  if (snapshot.next.includes("review")) {
+    return {
+      ...base,
+      kind: "answer",
+      draft: getMessageText(last),
+      grounding: (snapshot.values as AgentState).grounding ?? null,
+    };
+  }
+  return null;
+}
+
+// ── Applying Decisions ──────────────────────────────────────────────
+
+export interface ReviewResolution {
+  /** State update to write before continuing, if any. */
+  update?: Partial<AgentStateUpdate>;
+  /** Node the update is written as; decides where the graph continues. */
+  asNode?: string;
+  /** Whether the graph still has to run after the update. */
+  resume: boolean;
+}
+
+/**
+ * Why a decision doesn't fit the pending review, or null if it does.
+ */
+export function decisionError(
+  review: PendingReview,
+  decision: ReviewDecision
+): string | null {
+  const toolEdits = decision.toolCalls ?? [];
+  if (review.kind === "tool_calls" && decision.answer !== undefined) {
+    return "This review is for tool calls, not an answer";
+  }
+  if (review.kind === "answer" && toolEdits.length > 0) {
+    return "This review is for an answer, not tool calls";
+  }
+  if (
+    decision.action === "reject" &&
+    (toolEdits.length > 0 || decision.answer !== undefined)
+  ) {
+    return "Edits can only be sent with approve";
+  }
+  const unknown = toolEdits.find(
+    (edit) => !review.toolCalls?.some((tc) => tc.id === edit.id)
+  );
+  return unknown ? `Unknown tool call: ${unknown.id}` : null;
+}
+
+/**
+ * Turn a reviewer's decision into a state update.
+ *
+ * - Approved tool calls run, with any edited arguments.
+ * - Rejected tool calls get a "rejected" result instead of running, and
+ *   the agent carries on without them.
+ * - An approved answer is released, replaced by the reviewer's edit if
+ *   there is one; a rejected answer is replaced by a notice.
+ *
+ * Throws when the decision doesn't fit the pending review.
+ */
+export function resolveReview(
+  review: PendingReview,
+  decision: ReviewDecision,
+  state: AgentState,
+  reviewer?: { id: string; name: string }
+): ReviewResolution {
+  const error = decisionError(review, decision);
+  if (error) throw new Error(error);
+
+  const last = state.messages[state.messages.length - 1] as AIMessage;
+  const edited =
+    review.kind === "tool_calls"
+      ? Boolean(decision.toolCalls?.length)
+      : decision.answer !== undefined;
+
+  const record: ReviewRecord = {
+    kind: review.kind,
+    outcome:
+      decision.action === "reject" ? "rejected" : edited ? "edited" : "approved",
+    ...(decision.reason && { reason: decision.reason }),
+    ...(reviewer && { reviewer: reviewer.name, reviewerId: reviewer.id }),
+    decidedAt: new Date().toISOString(),
+  };
+  const reviews = [...(state.reviews ?? []), record];
+
+  if (review.kind === "tool_calls") {
+    const toolCalls = last.tool_calls ?? [];
+
+    if (decision.action === "reject") {
+      const reason = decision.reason ? ` Reason: ${decision.reason}` : "";
+      return {
+        update: {
+          messages: toolCalls.map(
+            (tc) =>
+              new ToolMessage({
+                tool_call_id: tc.id ?? "",
+                name: tc.name,
+                content: JSON.stringify({
+                  status: "rejected",
+                  message: `A reviewer rejected this tool call.${reason}`,
+                }),
+              })
+          ),
+          reviews,
+        },
+        asNode: "tools",
+        resume: true,
+      };
+    }
+
+    const edits = new Map(
+      (decision.toolCalls ?? []).map((edit) => [edit.id, edit.args])
+    );
+    if (edits.size === 0) {
+      return { update: { reviews }, asNode: "agent", resume: true };
+    }
+    // Same message id: the messages reducer replaces the proposal in place
+    const revised = new AIMessage({
+      id: last.id,
+      content: last.content,
+      response_metadata: last.response_metadata,
+      usage_metadata: last.usage_metadata,
+      tool_calls: toolCalls.map((tc) => ({
+        ...tc,
+        args: edits.get(tc.id ?? "") ?? tc.args,
+      })),
+    });
+    return {
+      update: { messages: [revised], reviews },
+      asNode: "agent",
+      resume: true,
+    };
+  }
+
+  // Written as the review node itself, so the run ends here
+  const update: Partial<AgentStateUpdate> = { reviews, currentStep: "review" };
+  if (decision.action === "reject") {
+    const reason = decision.reason ? ` Reason: ${decision.reason}` : "";
+    update.messages = [
+      new AIMessage({
+        id: last.id,
+        content: `A reviewer withheld this answer.${reason}`,
+      }),
+    ];
+  } else if (decision.answer !== undefined) {
+    update.messages = [new AIMessage({ id: last.id, content: decision.answer })];
+  }
+  return { update, asNode: "review", resume: false };
+}
@@ -0,0 +1,156 @@
+import type { StateSnapshot } from "@langchain/langgraph";
+import type { AIMessage, BaseMessage, ToolMessage } from "@langchain/core/messages";
+import { getThreadState, getThreadHistory } from "./rag-agent.js";
+import { pendingReview } from "./reviews.js";
+import { messageTime } from "../state/index.js";
+import { getMessageText } from "../utils/index.js";
+import type {
+  ConversationTurn,
+  PendingReview,
+  RetrievalFilters,
+} from "../types/index.js";
+
+// ── Serialization Helpers ───────────────────────────────────────────
+
+function snapshotTime(snapshot: StateSnapshot): number {
+  return snapshot.createdAt ? Date.parse(snapshot.createdAt) : Date.now();
+}
+
+function snapshotMessages(snapshot: StateSnapshot): BaseMessage[] {
+  return (snapshot.values?.messages ?? []) as BaseMessage[];
+}
+
+/**
+ * Convert a LangChain message into a ConversationTurn. Tool calls and
+ * tool call IDs are kept in `metadata` so clients can render them.
+ * `timestamp` is when the message was added to the thread, or
+ * `fallback` for messages stored before messages carried their time.
+ */
+export function toConversationTurn(
+  message: BaseMessage,
+  fallback: number
+): ConversationTurn {
+  const type = message._getType();
+  const metadata: Record<string, unknown> = {};
+  if (message.id) metadata.id = message.id;
+
+  if (type === "ai") {
+    const toolCalls = (message as AIMessage).tool_calls ?? [];
+    if (toolCalls.length > 0) {
+      metadata.toolCalls = toolCalls.map((tc) => ({
+        id: tc.id,
+        name: tc.name,
+        args: tc.args,
+      }));
+    }
+  } else if (type === "tool") {
+    const toolMessage = message as ToolMessage;
+    metadata.toolCallId = toolMessage.tool_call_id;
+    if (toolMessage.name) metadata.name = toolMessage.name;
+  }
+
+  return {
+    role: type === "human" ? "human" : type === "tool" ? "tool" : "ai",
+    content: getMessageText(message),
+    timestamp: messageTime(message) ?? fallback,
+    metadata,
+  };
+}
+
+async function collectHistory(
+  threadId: string,
+  limit?: number,
+  tenantId?: string
+): Promise<StateSnapshot[]> {
+  const snapshots: StateSnapshot[] = [];
+  for await (const snapshot of getThreadHistory(
+    threadId,
+    { limit },
+    tenantId
+  )) {
+    snapshots.push(snapshot);
+  }
+  return snapshots;
+}
+
+// ── Public API ──────────────────────────────────────────────────────
+
+export interface ThreadConversation {
+  threadId: string;
+  checkpointId?: string;
+  createdAt?: string;
+  next: string[];
+  iterations: number;
+  /** Retrieval filters pinned to the thread. */
+  filters: RetrievalFilters | null;
+  /** The review the thread is paused for, if any. */
+  review: PendingReview | null;
+  /** Summary of earlier turns no longer in `messages`. */
+  summary: string | null;
+  messages: ConversationTurn[];
+}
+
+export interface ThreadCheckpoint {
+  checkpointId?: string;
+  parentCheckpointId?: string;
+  createdAt?: string;
+  step?: number;
+  source?: string;
+  next: string[];
+  messages: ConversationTurn[];
+}
+
+/**
+ * Current state of a tenant's thread, or null if the thread has no
+ * checkpoints.
+ */
+export async function getThreadConversation(
+  threadId: string,
+  tenantId?: string
+): Promise<ThreadConversation | null> {
+  const snapshot = await getThreadState(threadId, tenantId);
+  if (!snapshot.createdAt) return null;
+
+  const fallback = snapshotTime(snapshot);
+
+  return {
+    threadId,
+    checkpointId: snapshot.config.configurable?.checkpoint_id,
+    createdAt: snapshot.createdAt,
+    next: snapshot.next,
+    iterations: snapshot.values?.iterations ?? 0,
+    filters: snapshot.values?.retrievalFilters ?? null,
+    review: pendingReview(snapshot, threadId),
+    summary: snapshot.values?.summary ?? null,
+    messages: snapshotMessages(snapshot).map((m) =>
+      toConversationTurn(m, fallback)
+    ),
+  };
+}
+
+/**
+ * Checkpoint list for a thread, newest first. Each entry carries the
+ * full message list as of that checkpoint.
+ */
+export async function getThreadCheckpoints(
+  threadId: string,
+  limit?: number,
+  tenantId?: string
+): Promise<ThreadCheckpoint[]> {
+  const history = await collectHistory(threadId, limit, tenantId);
+
+  return history.map((snapshot) => {
+    const fallback = snapshotTime(snapshot);
+    return {
+      checkpointId: snapshot.config.configurable?.checkpoint_id,
+      parentCheckpointId: snapshot.parentConfig?.configurable?.checkpoint_id,
+      createdAt: snapshot.createdAt,
+      step: snapshot.metadata?.step,
+      source: snapshot.metadata?.source,
+      next: snapshot.next,
+      messages: snapshotMessages(snapshot).map((m) =>
+        toConversationTurn(m, fallback)
+      ),
+    };
+  });
+}
@@ -0,0 +1,23 @@
+export { ApiKeyStore, hashApiKey, AUTH_SCOPES } from "./key-store.js";
+export type { ApiKeyRecord, AuthScope, ClientLimits } from "./key-store.js";
+export { verifyJwt, signJwt } from "./jwt.js";
+export type { JwtClaims, JwtOptions } from "./jwt.js";
+export { RateLimiter } from "./rate-limit.js";
+export type { BucketLimits, RateDecision } from "./rate-limit.js";
+export { UsageStore, TokenCounter } from "./quotas.js";
+export type { DailyLimits, DailyUsage, QuotaDecision } from "./quotas.js";
+export {
+  getKeyStore,
+  getUsageStore,
+  isAuthEnabled,
+  authenticate,
+  requestPrincipal,
+  hasScope,
+  authMiddleware,
+  requireScope,
+  quotaMiddleware,
+  recordTokenUsage,
+  flushUsage,
+  corsOptions,
+} from "./middleware.js";
+export type { Principal } from "./middleware.js";
@@ -0,0 +1,93 @@
+import { createHmac, timingSafeEqual } from "crypto";
+
+// ── JWT Verification ────────────────────────────────────────────────
+
+export interface JwtOptions {
+  /** Shared HS256 secret. */
+  secret: string;
+  /** Required `iss` claim, if set. */
+  issuer?: string;
+  /** Required `aud` claim (string or array member), if set. */
+  audience?: string;
+  /** Allowed clock skew for `exp` / `nbf`, in seconds. */
+  clockToleranceSeconds?: number;
+}
+
+export interface JwtClaims {
+  sub?: string;
+  iss?: string;
+  aud?: string | string[];
+  exp?: number;
+  nbf?: number;
+  iat?: number;
+  /** Tenant the token is bound to. */
+  tenant?: string;
+  /** Space-separated scopes, as in OAuth 2.0, e.g. "admin". */
+  scope?: string;
+  [claim: string]: unknown;
+}
+
+function decodeSegment(segment: string): unknown {
+  return JSON.parse(Buffer.from(segment, "base64url").toString("utf8"));
+}
+
+/**
+ * Verify an HS256 JSON Web Token and return its claims. Throws with a
+ * short reason when the signature, algorithm, expiry, issuer or audience
+ * doesn't check out. Tokens must expire: one without a numeric `exp` is
+ * rejected.
+ */
+export function verifyJwt(token: string, options: JwtOptions): JwtClaims {
+  const parts = token.split(".");
+  if (parts.length !== 3) throw new Error("Malformed token");
+  const [header, payload, signature] = parts;
+
+  let alg: unknown;
+  let claims: JwtClaims;
+  try {
+    alg = (decodeSegment(header) as { alg?: unknown }).alg;
+    claims = decodeSegment(payload) as JwtClaims;
+  } catch {
+    throw new Error("Malformed token");
+  }
+  // Only accept the algorithm we sign with; never "none" or asymmetric algs
+  if (alg !== "HS256") throw new Error("Unsupported token algorithm");
+
+  const expected = createHmac("sha256", options.secret)
+    .update(`${header}.${payload}`)
+    .digest();
+  const actual = Buffer.from(signature, "base64url");
+  if (actual.length !== expected.length || !timingSafeEqual(actual, expected)) {
+    throw new Error("Invalid token signature");
+  }
+
+  if (typeof claims !== "object" || claims === null) {
+    throw new Error("Malformed token");
+  }
+  const now = Date.now() / 1000;
+  const tolerance = options.clockToleranceSeconds ?? 30;
+  if (typeof claims.exp !== "number") throw new Error("Token has no expiry");
+  if (now - tolerance >= claims.exp) throw new Error("Token expired");
+  if (typeof claims.nbf === "number" && now + tolerance < claims.nbf) {
+    throw new Error("Token not yet valid");
+  }
+  if (options.issuer && claims.iss !== options.issuer) {
+    throw new Error("Invalid token issuer");
+  }
+  if (options.audience) {
+    const audiences = Array.isArray(claims.aud) ? claims.aud : [claims.aud];
+    if (!audiences.includes(options.audience)) {
+      throw new Error("Invalid token audience");
+    }
+  }
+  return claims;
+}
+
+/** Sign HS256 claims; used by the keys CLI to mint test tokens. */
+export function signJwt(claims: JwtClaims, secret: string): string {
+  const encode = (value: unknown) =>
+    Buffer.from(JSON.stringify(value)).toString("base64url");
+  const body = `${encode({ alg: "HS256", typ: "JWT" })}.${encode(claims)}`;
+  const signature = createHmac("sha256", secret).update(body).digest("base64url");
+  return `${body}.${signature}`;
+}
@@ -0,0 +1,153 @@
+import { createHash, randomBytes } from "crypto";
+import { promises as fs } from "fs";
+import path from "path";
+
+// ── Types ───────────────────────────────────────────────────────────
+
+/** Per-key overrides of the default rate limits and quotas. */
+export interface ClientLimits {
+  /** Sustained request rate (token-bucket refill). */
+  requestsPerMinute?: number;
+  /** Requests allowed in a burst (token-bucket capacity). */
+  burst?: number;
+  /** Chat requests per UTC day; 0 = unlimited. */
+  requestsPerDay?: number;
+  /** LLM tokens per UTC day; 0 = unlimited. */
+  tokensPerDay?: number;
+}
+
+/** Permissions a credential can carry beyond using the chat API. */
+export const AUTH_SCOPES = ["admin", "reviewer"] as const;
+
+export type AuthScope = (typeof AUTH_SCOPES)[number];
+
+export interface ApiKeyRecord {
+  /** Public identifier, e.g. `key_1a2b3c4d`; safe to log. */
+  id: string;
+  name: string;
+  /** Hex SHA-256 of the secret key; the key itself is never stored. */
+  hash: string;
+  /**
+   * Tenant the key is bound to. With several tenants, only admin keys
+   * may be unbound; they pick a tenant with `X-Tenant-ID`.
+   */
+  tenantId?: string;
+  scopes?: AuthScope[];
+  limits?: ClientLimits;
+  createdAt: string;
+  revokedAt?: string;
+}
+
+interface KeyStoreFile {
+  version: 1;
+  keys: ApiKeyRecord[];
+}
+
+const KEY_PREFIX = "ob_";
+
+export function hashApiKey(apiKey: string): string {
+  return createHash("sha256").update(apiKey).digest("hex");
+}
+
+// ── Store ───────────────────────────────────────────────────────────
+
+/**
+ * API keys kept in a local JSON file. The server reloads the file when
+ * it changes, so keys created or revoked with `npm run keys` apply
+ * without a restart.
+ */
+export class ApiKeyStore {
+  private data: KeyStoreFile = { version: 1, keys: [] };
+  private byHash = new Map<string, ApiKeyRecord>();
+  private loadedMtime = -1;
+
+  constructor(readonly filePath: string) {}
+
+  /** Re-read the file if it changed on disk. A missing file means no keys. */
+  async refresh(): Promise<void> {
+    const mtime = await fs
+      .stat(this.filePath)
+      .then((s) => s.mtimeMs)
+      .catch(() => 0);
+    if (mtime === this.loadedMtime) return;
+
+    if (mtime === 0) {
+      this.data = { version: 1, keys: [] };
+    } else {
+      const data = JSON.parse(
+        await fs.readFile(this.filePath, "utf8")
+      ) as KeyStoreFile;
+      if (data.version !== 1 || !Array.isArray(data.keys)) {
+        throw new Error(`Unsupported API key store: ${this.filePath}`);
+      }
+      this.data = data;
+    }
+    this.byHash = new Map(this.data.keys.map((k) => [k.hash, k]));
+    this.loadedMtime = mtime;
+  }
+
+  /** The active record for a secret key, or undefined. */
+  async verify(apiKey: string): Promise<ApiKeyRecord | undefined> {
+    await this.refresh();
+    const record = this.byHash.get(hashApiKey(apiKey));
+    return record && !record.revokedAt ? record : undefined;
+  }
+
+  async list(): Promise<ApiKeyRecord[]> {
+    await this.refresh();
+    return [...this.data.keys];
+  }
+
+  /** Create a key. The secret is returned once and only its hash is kept. */
+  async create(options: {
+    name: string;
+    tenantId?: string;
+    scopes?: AuthScope[];
+    limits?: ClientLimits;
+  }): Promise<{ apiKey: string; record: ApiKeyRecord }> {
+    await this.refresh();
+    const apiKey = `${KEY_PREFIX}${randomBytes(24).toString("base64url")}`;
+    const record: ApiKeyRecord = {
+      id: `key_${randomBytes(4).toString("hex")}`,
+      name: options.name,
+      hash: hashApiKey(apiKey),
+      ...(options.tenantId && { tenantId: options.tenantId }),
+      ...(options.scopes?.length && { scopes: options.scopes }),
+      ...(options.limits && { limits: options.limits }),
+      createdAt: new Date().toISOString(),
+    };
+    this.data.keys.push(record);
+    await this.save();
+    return { apiKey, record };
+  }
+
+  /** Apply `update` to the key with this id; throws if there is none. */
+  async update(
+    id: string,
+    update: (record: ApiKeyRecord) => void
+  ): Promise<ApiKeyRecord> {
+    await this.refresh();
+    const record = this.data.keys.find((k) => k.id === id);
+    if (!record) throw new Error(`Unknown API key: ${id}`);
+    update(record);
+    await this.save();
+    return record;
+  }
+
+  async revoke(id: string): Promise<ApiKeyRecord> {
+    return this.update(id, (record) => {
+      record.revokedAt ??= new Date().toISOString();
+    });
+  }
+
+  private async save(): Promise<void> {
+    await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+    const temp = `${this.filePath}.${process.pid}.tmp`;
+    await fs.writeFile(temp, JSON.stringify(this.data, null, 2), {
+      encoding: "utf8",
+      mode: 0o600,
+    });
+    await fs.rename(temp, this.filePath);
+    this.loadedMtime = -1;
+  }
+}
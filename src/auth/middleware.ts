@@ -0,0 +1,290 @@
+import type { CorsOptions } from "cors";
+import type { NextFunction, Request, Response } from "express";
+import { getConfig } from "../config/index.js";
+import { logger } from "../utils/index.js";
+import { verifyJwt } from "./jwt.js";
+import { ApiKeyStore } from "./key-store.js";
+import { AUTH_SCOPES } from "./key-store.js";
+import type { AuthScope, ClientLimits } from "./key-store.js";
+import { UsageStore } from "./quotas.js";
+import { RateLimiter } from "./rate-limit.js";
+
+// ── Principals ──────────────────────────────────────────────────────
+
+/** The authenticated caller of an API request. */
+export interface Principal {
+  /** Stable id that limits and quotas are counted against. */
+  id: string;
+  kind: "api_key" | "jwt";
+  /** Key name or JWT subject, for logs. */
+  name: string;
+  /** Tenant the credential is bound to, if any. */
+  tenantId?: string;
+  scopes: AuthScope[];
+  limits: Required<ClientLimits>;
+}
+
+/** Whether the caller holds `scope`; admins hold every scope. */
+export function hasScope(
+  principal: Principal | undefined,
+  scope: AuthScope
+): boolean {
+  return Boolean(
+    principal &&
+      (principal.scopes.includes("admin") || principal.scopes.includes(scope))
+  );
+}
+
+/** Known scopes in a JWT `scope` claim; unknown ones are ignored. */
+function tokenScopes(claim: unknown): AuthScope[] {
+  if (typeof claim !== "string") return [];
+  return claim
+    .split(/\s+/)
+    .filter((s): s is AuthScope => (AUTH_SCOPES as readonly string[]).includes(s));
+}
+
+interface AuthError {
+  status: number;
+  message: string;
+}
+
+let _keyStore: ApiKeyStore | null = null;
+let _usageStore: UsageStore | null = null;
+const rateLimiter = new RateLimiter();
+
+/** The API key store at `AUTH_KEYS_FILE`. */
+export function getKeyStore(): ApiKeyStore {
+  _keyStore ??= new ApiKeyStore(getConfig().authKeysFile);
+  return _keyStore;
+}
+
+/** The daily usage counters at `AUTH_USAGE_FILE`. */
+export function getUsageStore(): UsageStore {
+  _usageStore ??= new UsageStore(getConfig().authUsageFile);
+  return _usageStore;
+}
+
+function resolveLimits(overrides?: ClientLimits): Required<ClientLimits> {
+  const config = getConfig();
+  return {
+    requestsPerMinute: overrides?.requestsPerMinute ?? config.rateLimitRpm,
+    burst: overrides?.burst ?? config.rateLimitBurst,
+    requestsPerDay: overrides?.requestsPerDay ?? config.quotaRequestsPerDay,
+    tokensPerDay: overrides?.tokensPerDay ?? config.quotaTokensPerDay,
+  };
+}
+
+/** Whether `AUTH_MODE` requires credentials on API routes. */
+export function isAuthEnabled(): boolean {
+  return getConfig().authMode !== "none";
+}
+
+/**
+ * Authenticate a request from its `X-API-Key` header or an
+ * `Authorization: Bearer` credential. Bearer values shaped like a JWT
+ * (three dot-separated parts) are verified as tokens; anything else is
+ * treated as an API key.
+ */
+export async function authenticate(
+  req: Request
+): Promise<{ principal?: Principal; error?: AuthError }> {
+  const config = getConfig();
+  const bearer = /^Bearer\s+(.+)$/i.exec(req.get("authorization") ?? "")?.[1];
+  const token = bearer && isJwt(bearer) ? bearer : undefined;
+  const apiKey = req.get("x-api-key") || (token ? undefined : bearer);
+  const acceptsKeys = config.authMode !== "jwt";
+  const acceptsJwt = config.authMode !== "api_key";
+
+  if (apiKey) {
+    if (!acceptsKeys) {
+      return unauthorized("API keys are not accepted; use a bearer token");
+    }
+    const record = await getKeyStore().verify(apiKey);
+    if (!record) return unauthorized("Invalid API key");
+    return {
+      principal: {
+        id: `key:${record.id}`,
+        kind: "api_key",
+        name: record.name,
+        tenantId: record.tenantId,
+        scopes: record.scopes ?? [],
+        limits: resolveLimits(record.limits),
+      },
+    };
+  }
+
+  if (token) {
+    if (!acceptsJwt) {
+      return unauthorized("Bearer tokens are not accepted; use an API key");
+    }
+    try {
+      const claims = verifyJwt(token, {
+        secret: config.authJwtSecret!,
+        issuer: config.authJwtIssuer,
+        audience: config.authJwtAudience,
+      });
+      if (typeof claims.sub !== "string" || !claims.sub) {
+        return unauthorized("Invalid token: missing sub claim");
+      }
+      return {
+        principal: {
+          id: `jwt:${claims.sub}`,
+          kind: "jwt",
+          name: claims.sub,
+          tenantId:
+            typeof claims.tenant === "string" ? claims.tenant : undefined,
+          scopes: tokenScopes(claims.scope),
+          limits: resolveLimits(),
+        },
+      };
+    } catch (error) {
+      const reason = error instanceof Error ? error.message : String(error);
+      return unauthorized(`Invalid token: ${reason}`);
+    }
+  }
+
+  return unauthorized("Authentication required");
+}
+
+function isJwt(value: string): boolean {
+  return value.split(".").length === 3;
+}
+
+function unauthorized(message: string): { error: AuthError } {
+  return { error: { status: 401, message } };
+}
+
+/** The principal set by `authMiddleware`; undefined when auth is off. */
+export function requestPrincipal(res: Response): Principal | undefined {
+  return res.locals.principal as Principal | undefined;
+}
+
+// ── Middleware ──────────────────────────────────────────────────────
+
+function reject(
+  res: Response,
+  status: number,
+  message: string,
+  retryAfterSeconds?: number
+): void {
+  if (retryAfterSeconds !== undefined) {
+    res.set("Retry-After", String(retryAfterSeconds));
+  }
+  if (status === 401) {
+    const scheme = getConfig().authMode === "api_key" ? "ApiKey" : "Bearer";
+    res.set("WWW-Authenticate", `${scheme} realm="api"`);
+  }
+  res.status(status).json({ error: message });
+}
+
+/**
+ * Authenticate the request and apply the caller's token-bucket rate
+ * limit. Does nothing when `AUTH_MODE=none`.
+ */
+export async function authMiddleware(
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  if (!isAuthEnabled()) {
+    next();
+    return;
+  }
+  try {
+    const { principal, error } = await authenticate(req);
+    if (!principal) {
+      reject(res, error!.status, error!.message);
+      return;
+    }
+    res.locals.principal = principal;
+
+    const rate = rateLimiter.take(principal.id, principal.limits);
+    if (Number.isFinite(rate.remaining)) {
+      res.set("X-RateLimit-Limit", String(principal.limits.burst));
+      res.set("X-RateLimit-Remaining", String(rate.remaining));
+    }
+    if (!rate.allowed) {
+      logger.warn(`Rate limit exceeded for ${principal.id}`);
+      reject(res, 429, "Rate limit exceeded", rate.retryAfterSeconds);
+      return;
+    }
+    next();
+  } catch (error) {
+    logger.error(`Authentication failed: ${error}`);
+    res.status(500).json({ error: "Server error" });
+  }
+}
+
+/**
+ * Reject requests whose caller lacks `scope` with 403. With
+ * `AUTH_MODE=none` there is no caller, so the route is always rejected.
+ */
+export function requireScope(scope: AuthScope) {
+  return (_req: Request, res: Response, next: NextFunction): void => {
+    if (!hasScope(requestPrincipal(res), scope)) {
+      reject(res, 403, `Requires the ${scope} scope`);
+      return;
+    }
+    next();
+  };
+}
+
+/**
+ * Count a chat request against the caller's daily quotas, rejecting it
+ * with 429 once either quota is used up. Does nothing without a principal.
+ */
+export function quotaMiddleware(
+  _req: Request,
+  res: Response,
+  next: NextFunction
+): void {
+  const principal = requestPrincipal(res);
+  if (!principal) {
+    next();
+    return;
+  }
+  const quota = getUsageStore().consumeRequest(principal.id, principal.limits);
+  if (!quota.allowed) {
+    logger.warn(`Daily ${quota.exceeded} quota exceeded for ${principal.id}`);
+    reject(
+      res,
+      429,
+      `Daily ${quota.exceeded} quota exceeded`,
+      quota.retryAfterSeconds
+    );
+    return;
+  }
+  next();
+}
+
+/** Add a finished run's LLM tokens to the caller's daily usage. */
+export function recordTokenUsage(res: Response, tokens: number): void {
+  const principal = requestPrincipal(res);
+  if (principal) getUsageStore().recordTokens(principal.id, tokens);
+}
+
+/** Persist pending usage counters (call on shutdown). */
+export async function flushUsage(): Promise<void> {
+  if (_usageStore) await _usageStore.flush();
+}
+
+// ── CORS ────────────────────────────────────────────────────────────
+
+/**
+ * CORS options from `CORS_ORIGINS`: `*` allows any origin, otherwise a
+ * comma-separated list of exact origins.
+ */
+export function corsOptions(): CorsOptions {
+  const origins = getConfig()
+    .corsOrigins.split(",")
+    .map((o) => o.trim().replace(/\/$/, ""))
+    .filter(Boolean);
+  return {
+    origin: origins.length === 0 || origins.includes("*") ? true : origins,
+    exposedHeaders: [
+      "Retry-After",
+      "X-RateLimit-Limit",
+      "X-RateLimit-Remaining",
+    ],
+  };
+}
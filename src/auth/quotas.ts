@@ -0,0 +1,168 @@
+import { promises as fs, readFileSync } from "fs";
+import path from "path";
+import { BaseCallbackHandler } from "@langchain/core/callbacks/base";
+import type { AIMessage } from "@langchain/core/messages";
+import type { ChatGeneration, LLMResult } from "@langchain/core/outputs";
+import { logger } from "../utils/index.js";
+
+// ── Daily Usage ─────────────────────────────────────────────────────
+
+export interface DailyLimits {
+  /** Chat requests per UTC day; 0 = unlimited. */
+  requestsPerDay: number;
+  /** LLM tokens per UTC day; 0 = unlimited. */
+  tokensPerDay: number;
+}
+
+export interface DailyUsage {
+  requests: number;
+  tokens: number;
+}
+
+export interface QuotaDecision {
+  allowed: boolean;
+  /** Which quota is exhausted, when not allowed. */
+  exceeded?: "requests" | "tokens";
+  usage: DailyUsage;
+  /** Seconds until the quota resets at UTC midnight (0 when allowed). */
+  retryAfterSeconds: number;
+}
+
+interface UsageFile {
+  day: string;
+  clients: Record<string, DailyUsage>;
+}
+
+const SAVE_DELAY_MS = 2_000;
+
+function utcDay(now: number): string {
+  return new Date(now).toISOString().slice(0, 10);
+}
+
+function secondsUntilUtcMidnight(now: number): number {
+  const midnight = new Date(now);
+  midnight.setUTCHours(24, 0, 0, 0);
+  return Math.max(1, Math.ceil((midnight.getTime() - now) / 1000));
+}
+
+/**
+ * Per-client request and token counters for the current UTC day,
+ * persisted to a local JSON file so quotas survive restarts. Writes are
+ * batched; call `flush()` on shutdown.
+ */
+export class UsageStore {
+  private data: UsageFile;
+  private saveTimer: NodeJS.Timeout | null = null;
+
+  constructor(readonly filePath: string) {
+    this.data = { day: utcDay(Date.now()), clients: {} };
+    try {
+      const saved = JSON.parse(readFileSync(filePath, "utf8")) as UsageFile;
+      if (saved.day === this.data.day && saved.clients) this.data = saved;
+    } catch {
+      // No usage yet today
+    }
+  }
+
+  /** Today's usage for a client. */
+  get(clientId: string, now = Date.now()): DailyUsage {
+    this.rollover(now);
+    return { ...(this.data.clients[clientId] ?? { requests: 0, tokens: 0 }) };
+  }
+
+  /**
+   * Check the client's quotas and, when allowed, count one request.
+   * Tokens are counted afterwards with `recordTokens`, so a request that
+   * starts under the token quota may finish over it.
+   */
+  consumeRequest(
+    clientId: string,
+    limits: DailyLimits,
+    now = Date.now()
+  ): QuotaDecision {
+    const usage = this.get(clientId, now);
+    const exceeded =
+      limits.requestsPerDay > 0 && usage.requests >= limits.requestsPerDay
+        ? "requests"
+        : limits.tokensPerDay > 0 && usage.tokens >= limits.tokensPerDay
+          ? "tokens"
+          : undefined;
+    if (exceeded) {
+      return {
+        allowed: false,
+        exceeded,
+        usage,
+        retryAfterSeconds: secondsUntilUtcMidnight(now),
+      };
+    }
+    usage.requests += 1;
+    this.data.clients[clientId] = usage;
+    this.scheduleSave();
+    return { allowed: true, usage, retryAfterSeconds: 0 };
+  }
+
+  recordTokens(clientId: string, tokens: number, now = Date.now()): void {
+    if (tokens <= 0) return;
+    const usage = this.get(clientId, now);
+    usage.tokens += tokens;
+    this.data.clients[clientId] = usage;
+    this.scheduleSave();
+  }
+
+  /** Write pending usage to disk. */
+  async flush(): Promise<void> {
+    if (this.saveTimer) {
+      clearTimeout(this.saveTimer);
+      this.saveTimer = null;
+    }
+    await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+    const temp = `${this.filePath}.${process.pid}.tmp`;
+    await fs.writeFile(temp, JSON.stringify(this.data, null, 2), "utf8");
+    await fs.rename(temp, this.filePath);
+  }
+
+  private rollover(now: number): void {
+    const day = utcDay(now);
+    if (this.data.day !== day) this.data = { day, clients: {} };
+  }
+
+  private scheduleSave(): void {
+    if (this.saveTimer) return;
+    this.saveTimer = setTimeout(() => {
+      this.saveTimer = null;
+      this.flush().catch((error) =>
+        logger.warn(`Failed to save API usage: ${error}`)
+      );
+    }, SAVE_DELAY_MS);
+    this.saveTimer.unref();
+  }
+}
+
+// ── Token Counting ──────────────────────────────────────────────────
+
+/**
+ * Callback handler that totals the tokens reported by every LLM call in
+ * a run (agent, grounding, query expansion, reranking). Providers that
+ * report no usage count as 0.
+ */
+export class TokenCounter extends BaseCallbackHandler {
+  name = "token_counter";
+  total = 0;
+
+  override handleLLMEnd(output: LLMResult): void {
+    let counted = 0;
+    for (const generation of output.generations.flat()) {
+      const message = (generation as ChatGeneration).message as
+        | AIMessage
+        | undefined;
+      counted += message?.usage_metadata?.total_tokens ?? 0;
+    }
+    if (counted === 0) {
+      const tokenUsage = output.llmOutput?.tokenUsage as
+        | { totalTokens?: number }
+        | undefined;
+      counted = tokenUsage?.totalTokens ?? 0;
+    }
+    this.total += counted;
+  }
+}
@@ -0,0 +1,82 @@
+// ── Token Bucket ────────────────────────────────────────────────────
+
+export interface BucketLimits {
+  /** Tokens added per minute. */
+  requestsPerMinute: number;
+  /** Bucket capacity: requests allowed back to back. */
+  burst: number;
+}
+
+export interface RateDecision {
+  allowed: boolean;
+  /** Whole requests left in the bucket after this one. */
+  remaining: number;
+  /** Seconds until the next request would be allowed (0 when allowed). */
+  retryAfterSeconds: number;
+}
+
+interface Bucket {
+  tokens: number;
+  updatedAt: number;
+  /** When the bucket will have refilled; a full bucket can be dropped. */
+  fullAt: number;
+}
+
+const SWEEP_INTERVAL_MS = 60_000;
+
+/**
+ * In-memory token-bucket rate limiter keyed by client. Each request
+ * takes one token; tokens refill continuously at `requestsPerMinute`
+ * up to `burst`.
+ */
+export class RateLimiter {
+  private buckets = new Map<string, Bucket>();
+  private lastSweep = Date.now();
+
+  take(key: string, limits: BucketLimits, now = Date.now()): RateDecision {
+    if (limits.requestsPerMinute <= 0) {
+      return { allowed: true, remaining: Infinity, retryAfterSeconds: 0 };
+    }
+    this.sweep(now);
+
+    const perMs = limits.requestsPerMinute / 60_000;
+    const capacity = Math.max(1, limits.burst);
+    const bucket = this.buckets.get(key) ?? {
+      tokens: capacity,
+      updatedAt: now,
+      fullAt: now,
+    };
+    bucket.tokens = Math.min(
+      capacity,
+      bucket.tokens + (now - bucket.updatedAt) * perMs
+    );
+    bucket.updatedAt = now;
+    this.buckets.set(key, bucket);
+
+    if (bucket.tokens >= 1) {
+      bucket.tokens -= 1;
+      bucket.fullAt = now + (capacity - bucket.tokens) / perMs;
+      return {
+        allowed: true,
+        remaining: Math.floor(bucket.tokens),
+        retryAfterSeconds: 0,
+      };
+    }
+    return {
+      allowed: false,
+      remaining: 0,
+      retryAfterSeconds: Math.max(
+        1,
+        Math.ceil((1 - bucket.tokens) / perMs / 1000)
+      ),
+    };
+  }
+
+  private sweep(now: number): void {
+    if (now - this.lastSweep < SWEEP_INTERVAL_MS) return;
+    this.lastSweep = now;
+    for (const [key, bucket] of this.buckets) {
+      if (bucket.fullAt <= now) this.buckets.delete(key);
+    }
+  }
+}
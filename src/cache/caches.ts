@@ -0,0 +1,82 @@
+import { createHash } from "crypto";
+import path from "path";
+import { getConfig } from "../config/index.js";
+import { FileCacheStore, MemoryCacheStore } from "./store.js";
+import type { CacheTags } from "./store.js";
+import { TtlCache } from "./ttl-cache.js";
+import type { CacheStats } from "./ttl-cache.js";
+
+// ── Configured Caches ───────────────────────────────────────────────
+
+/**
+ * - retrieval: chunks per (Knowledge Base, retriever, query, topK, filters)
+ * - answers: first-turn answers, matched by question similarity
+ */
+export type CacheName = "retrieval" | "answers";
+
+const CACHE_NAMES: CacheName[] = ["retrieval", "answers"];
+
+const _caches = new Map<CacheName, TtlCache<unknown>>();
+
+function ttlSeconds(name: CacheName): number {
+  const config = getConfig();
+  return name === "retrieval"
+    ? config.retrievalCacheTtlSeconds
+    : config.answerCacheTtlSeconds;
+}
+
+/**
+ * The named cache, backed by `CACHE_STORE`, or null when its TTL is 0
+ * (disabled).
+ */
+export function getCache<T>(name: CacheName): TtlCache<T> | null {
+  const ttl = ttlSeconds(name);
+  if (ttl <= 0) return null;
+
+  let cache = _caches.get(name);
+  if (!cache) {
+    const config = getConfig();
+    const store =
+      config.cacheStore === "file"
+        ? new FileCacheStore(path.join(config.cacheDir, `${name}.json`))
+        : new MemoryCacheStore();
+    cache = new TtlCache(name, store, ttl * 1000, config.cacheMaxEntries);
+    _caches.set(name, cache);
+  }
+  return cache as TtlCache<T>;
+}
+
+/** Stable key for a list of JSON-serializable parts. */
+export function cacheKey(parts: unknown[]): string {
+  return createHash("sha256").update(JSON.stringify(parts)).digest("hex");
+}
+
+/** Metrics of every enabled cache. */
+export async function cacheStats(): Promise<CacheStats[]> {
+  const stats: CacheStats[] = [];
+  for (const name of CACHE_NAMES) {
+    const cache = getCache(name);
+    if (cache) stats.push(await cache.stats());
+  }
+  return stats;
+}
+
+/**
+ * Drop the entries of every enabled cache that match `filter` (call
+ * after re-ingesting a Knowledge Base). Returns the count per cache.
+ */
+export async function invalidateCaches(
+  filter: Partial<CacheTags>
+): Promise<Partial<Record<CacheName, number>>> {
+  const dropped: Partial<Record<CacheName, number>> = {};
+  for (const name of CACHE_NAMES) {
+    const cache = getCache(name);
+    if (cache) dropped[name] = await cache.invalidate(filter);
+  }
+  return dropped;
+}
+
+/** Persist file-backed caches (call on shutdown). */
+export async function flushCaches(): Promise<void> {
+  for (const cache of _caches.values()) await cache.flush();
+}
@@ -0,0 +1,12 @@
+export { MemoryCacheStore, FileCacheStore } from "./store.js";
+export type { CacheStore, CacheRecord, CacheTags } from "./store.js";
+export { TtlCache } from "./ttl-cache.js";
+export type { CacheStats } from "./ttl-cache.js";
+export {
+  getCache,
+  cacheKey,
+  cacheStats,
+  invalidateCaches,
+  flushCaches,
+} from "./caches.js";
+export type { CacheName } from "./caches.js";
@@ -0,0 +1,119 @@
+import { promises as fs, readFileSync } from "fs";
+import path from "path";
+import { logger } from "../utils/index.js";
+
+// ── Cache Stores ────────────────────────────────────────────────────
+
+/** What a cached value was computed from, for invalidation. */
+export interface CacheTags {
+  tenantId: string;
+  /** Knowledge Base ID, or local index path with `RETRIEVER_TYPE=local`. */
+  knowledgeBaseId: string;
+}
+
+export interface CacheRecord {
+  value: unknown;
+  tags: CacheTags;
+  /** Epoch milliseconds. */
+  createdAt: number;
+  /** Epoch milliseconds after which the record is stale. */
+  expiresAt: number;
+}
+
+/**
+ * Key-value backend of a cache. Records are kept in insertion order,
+ * oldest first, so the cache can evict from the front.
+ */
+export interface CacheStore {
+  get(key: string): Promise<CacheRecord | undefined>;
+  set(key: string, record: CacheRecord): Promise<void>;
+  delete(keys: string[]): Promise<void>;
+  entries(): Promise<Array<[string, CacheRecord]>>;
+  /** Persist pending writes (call on shutdown). */
+  flush(): Promise<void>;
+}
+
+/** Process-local store; lost on restart. */
+export class MemoryCacheStore implements CacheStore {
+  protected records = new Map<string, CacheRecord>();
+
+  async get(key: string): Promise<CacheRecord | undefined> {
+    return this.records.get(key);
+  }
+
+  async set(key: string, record: CacheRecord): Promise<void> {
+    // Re-insert so the record moves to the back of the eviction order
+    this.records.delete(key);
+    this.records.set(key, record);
+  }
+
+  async delete(keys: string[]): Promise<void> {
+    for (const key of keys) this.records.delete(key);
+  }
+
+  async entries(): Promise<Array<[string, CacheRecord]>> {
+    return [...this.records.entries()];
+  }
+
+  async flush(): Promise<void> {}
+}
+
+const SAVE_DELAY_MS = 2_000;
+
+/**
+ * In-memory store mirrored to a JSON file, so cached results survive
+ * restarts. Writes are batched; call `flush()` on shutdown. Not shared
+ * between processes.
+ */
+export class FileCacheStore extends MemoryCacheStore {
+  private saveTimer: NodeJS.Timeout | null = null;
+
+  constructor(readonly filePath: string) {
+    super();
+    try {
+      const saved = JSON.parse(readFileSync(filePath, "utf8")) as Record<
+        string,
+        CacheRecord
+      >;
+      this.records = new Map(Object.entries(saved));
+    } catch {
+      // Nothing cached yet
+    }
+  }
+
+  async set(key: string, record: CacheRecord): Promise<void> {
+    await super.set(key, record);
+    this.scheduleSave();
+  }
+
+  async delete(keys: string[]): Promise<void> {
+    await super.delete(keys);
+    if (keys.length > 0) this.scheduleSave();
+  }
+
+  async flush(): Promise<void> {
+    if (this.saveTimer) {
+      clearTimeout(this.saveTimer);
+      this.saveTimer = null;
+    }
+    await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+    const temp = `${this.filePath}.${process.pid}.tmp`;
+    await fs.writeFile(
+      temp,
+      JSON.stringify(Object.fromEntries(this.records)),
+      "utf8"
+    );
+    await fs.rename(temp, this.filePath);
+  }
+
+  private scheduleSave(): void {
+    if (this.saveTimer) return;
+    this.saveTimer = setTimeout(() => {
+      this.saveTimer = null;
+      this.flush().catch((error) =>
+        logger.warn(`Failed to save cache ${this.filePath}: ${error}`)
+      );
+    }, SAVE_DELAY_MS);
+    this.saveTimer.unref();
+  }
+}
@@ -0,0 +1,139 @@
+import type { CacheRecord, CacheStore, CacheTags } from "./store.js";
+
+// ── TTL Cache ───────────────────────────────────────────────────────
+
+/** Hit/miss counters since startup, plus the current entry count. */
+export interface CacheStats {
+  name: string;
+  entries: number;
+  hits: number;
+  misses: number;
+  /** hits / (hits + misses), or 0 before the first lookup. */
+  hitRate: number;
+  writes: number;
+  evictions: number;
+  invalidations: number;
+  ttlSeconds: number;
+}
+
+/**
+ * A cache over a CacheStore with a fixed TTL and entry limit. The
+ * oldest entries are evicted first once the limit is reached; expired
+ * ones are dropped when they are read or scanned.
+ */
+export class TtlCache<T> {
+  private hits = 0;
+  private misses = 0;
+  private writes = 0;
+  private evictions = 0;
+  private invalidations = 0;
+
+  constructor(
+    readonly name: string,
+    private readonly store: CacheStore,
+    private readonly ttlMs: number,
+    private readonly maxEntries: number
+  ) {}
+
+  /** The value cached under `key`, if it hasn't expired. */
+  async get(key: string, now = Date.now()): Promise<T | undefined> {
+    const record = await this.store.get(key);
+    if (record && record.expiresAt <= now) await this.store.delete([key]);
+    if (!record || record.expiresAt <= now) {
+      this.misses++;
+      return undefined;
+    }
+    this.hits++;
+    return record.value as T;
+  }
+
+  /**
+   * The live entry with the highest `score` of at least `minScore`
+   * (a hit), or undefined (a miss). `score` returns null for entries
+   * that can't match at all.
+   */
+  async findBest(
+    score: (value: T, tags: CacheTags) => number | null,
+    minScore: number,
+    now = Date.now()
+  ): Promise<{ value: T; score: number } | undefined> {
+    let best: { value: T; score: number } | undefined;
+    for (const [, record] of await this.liveEntries(now)) {
+      const value = record.value as T;
+      const s = score(value, record.tags);
+      if (s !== null && s >= minScore && (!best || s > best.score)) {
+        best = { value, score: s };
+      }
+    }
+    if (best) this.hits++;
+    else this.misses++;
+    return best;
+  }
+
+  async set(
+    key: string,
+    value: T,
+    tags: CacheTags,
+    now = Date.now()
+  ): Promise<void> {
+    const record: CacheRecord = {
+      value,
+      tags,
+      createdAt: now,
+      expiresAt: now + this.ttlMs,
+    };
+    await this.store.set(key, record);
+    this.writes++;
+
+    const entries = await this.liveEntries(now);
+    const excess = entries.length - this.maxEntries;
+    if (excess > 0) {
+      await this.store.delete(entries.slice(0, excess).map(([k]) => k));
+      this.evictions += excess;
+    }
+  }
+
+  /**
+   * Drop every entry matching all the given tags (e.g. a tenant's, or
+   * one Knowledge Base's). Returns the number of entries dropped.
+   */
+  async invalidate(filter: Partial<CacheTags>): Promise<number> {
+    const keys = (await this.store.entries())
+      .filter(([, record]) =>
+        Object.entries(filter).every(
+          ([tag, value]) => record.tags[tag as keyof CacheTags] === value
+        )
+      )
+      .map(([key]) => key);
+    await this.store.delete(keys);
+    this.invalidations += keys.length;
+    return keys.length;
+  }
+
+  async stats(now = Date.now()): Promise<CacheStats> {
+    const lookups = this.hits + this.misses;
+    return {
+      name: this.name,
+      entries: (await this.liveEntries(now)).length,
+      hits: this.hits,
+      misses: this.misses,
+      hitRate: lookups ? Number((this.hits / lookups).toFixed(4)) : 0,
+      writes: this.writes,
+      evictions: this.evictions,
+      invalidations: this.invalidations,
+      ttlSeconds: this.ttlMs / 1000,
+    };
+  }
+
+  async flush(): Promise<void> {
+    await this.store.flush();
+  }
+
+  /** Entries that haven't expired, oldest first; expired ones are dropped. */
+  private async liveEntries(now: number): Promise<Array<[string, CacheRecord]>> {
+    const entries = await this.store.entries();
+    const expired = entries.filter(([, r]) => r.expiresAt <= now);
+    if (expired.length > 0) await this.store.delete(expired.map(([k]) => k));
+    return entries.filter(([, r]) => r.expiresAt > now);
+  }
+}
@@ -0,0 +1,278 @@
+import type { RunnableConfig } from "@langchain/core/runnables";
+import {
+  emptyCheckpoint,
+  TASKS,
+  uuid6,
+} from "@langchain/langgraph-checkpoint";
+import type {
+  BaseCheckpointSaver,
+  Checkpoint,
+  CheckpointMetadata,
+  CheckpointTuple,
+} from "@langchain/langgraph-checkpoint";
+import { sleep } from "../utils/index.js";
+
+// ── Types ───────────────────────────────────────────────────────────
+
+export interface ConformanceResult {
+  name: string;
+  passed: boolean;
+  error?: string;
+}
+
+export interface ConformanceOptions {
+  /** Prefix for the throwaway thread IDs the suite writes to. */
+  threadPrefix?: string;
+  /** Called with each thread ID once the suite is done (e.g. deleteThread). */
+  cleanup?: (threadId: string) => Promise<void>;
+}
+
+// ── Helpers ─────────────────────────────────────────────────────────
+
+function assert(condition: unknown, message: string): asserts condition {
+  if (!condition) throw new Error(message);
+}
+
+function makeCheckpoint(values: Record<string, unknown>): Checkpoint {
+  // IDs must sort chronologically; uuid6 is time-ordered
+  return {
+    ...emptyCheckpoint(),
+    id: uuid6(-1),
+    channel_values: values,
+    channel_versions: Object.fromEntries(
+      Object.keys(values).map((k) => [k, 1])
+    ),
+  };
+}
+
+function makeMetadata(
+  step: number,
+  extra: Record<string, unknown> = {}
+): CheckpointMetadata {
+  return { source: "loop", step, writes: null, parents: {}, ...extra };
+}
+
+function threadConfig(threadId: string, checkpointId?: string): RunnableConfig {
+  return {
+    configurable: {
+      thread_id: threadId,
+      checkpoint_ns: "",
+      ...(checkpointId ? { checkpoint_id: checkpointId } : {}),
+    },
+  };
+}
+
+async function collect(
+  iterator: AsyncGenerator<CheckpointTuple>
+): Promise<CheckpointTuple[]> {
+  const tuples: CheckpointTuple[] = [];
+  for await (const tuple of iterator) tuples.push(tuple);
+  return tuples;
+}
+
+/**
+ * Write `count` sequential checkpoints to a thread, each parented on
+ * the previous one. Returns the checkpoints oldest first.
+ */
+async function seedThread(
+  saver: BaseCheckpointSaver,
+  threadId: string,
+  count: number
+): Promise<Checkpoint[]> {
+  const checkpoints: Checkpoint[] = [];
+  let config = threadConfig(threadId);
+  for (let step = 0; step < count; step++) {
+    const checkpoint = makeCheckpoint({ step, label: `checkpoint-${step}` });
+    config = await saver.put(
+      config,
+      checkpoint,
+      makeMetadata(step, { parity: step % 2 === 0 ? "even" : "odd" }),
+      {}
+    );
+    checkpoints.push(checkpoint);
+    await sleep(2);
+  }
+  return checkpoints;
+}
+
+// ── Cases ───────────────────────────────────────────────────────────
+
+/**
+ * One conformance check. It writes to threads named by `newThread` and
+ * throws when the saver misbehaves.
+ */
+export type ConformanceCase = (
+  saver: BaseCheckpointSaver,
+  newThread: () => string
+) => Promise<void>;
+
+/**
+ * The cases every checkpoint saver must pass, by name. The vitest suite
+ * runs them against each backend; `npm run checkpointer:check` runs them
+ * against the configured one.
+ */
+export const CONFORMANCE_CASES: Record<string, ConformanceCase> = {
+  "put then getTuple by checkpoint_id round-trips values and metadata":
+    async (saver, newThread) => {
+      const threadId = newThread();
+      const [checkpoint] = await seedThread(saver, threadId, 1);
+      const tuple = await saver.getTuple(threadConfig(threadId, checkpoint.id));
+      assert(tuple, "expected a checkpoint tuple");
+      assert(tuple.checkpoint.id === checkpoint.id, "checkpoint id mismatch");
+      assert(
+        tuple.checkpoint.channel_values.label === "checkpoint-0",
+        "channel values were not round-tripped"
+      );
+      assert(tuple.metadata?.step === 0, "metadata was not round-tripped");
+      assert(
+        tuple.config.configurable?.checkpoint_id === checkpoint.id,
+        "returned config is missing checkpoint_id"
+      );
+    },
+
+  "getTuple without checkpoint_id returns the latest checkpoint":
+    async (saver, newThread) => {
+      const threadId = newThread();
+      const checkpoints = await seedThread(saver, threadId, 3);
+      const tuple = await saver.getTuple(threadConfig(threadId));
+      assert(tuple, "expected a checkpoint tuple");
+      assert(
+        tuple.checkpoint.id === checkpoints[2].id,
+        "latest checkpoint was not returned"
+      );
+      assert(
+        tuple.parentConfig?.configurable?.checkpoint_id === checkpoints[1].id,
+        "parentConfig does not point at the previous checkpoint"
+      );
+    },
+
+  "getTuple on an unknown thread returns undefined": async (saver, newThread) => {
+    const tuple = await saver.getTuple(threadConfig(newThread()));
+    assert(tuple === undefined, "expected undefined for an empty thread");
+  },
+
+  "list returns checkpoints newest first and honours limit/before/filter":
+    async (saver, newThread) => {
+      const threadId = newThread();
+      const checkpoints = await seedThread(saver, threadId, 4);
+      const ids = checkpoints.map((c) => c.id).reverse();
+
+      const all = await collect(saver.list(threadConfig(threadId)));
+      assert(
+        JSON.stringify(all.map((t) => t.checkpoint.id)) === JSON.stringify(ids),
+        "list order is not newest first"
+      );
+
+      const limited = await collect(
+        saver.list(threadConfig(threadId), { limit: 2 })
+      );
+      assert(limited.length === 2, `limit=2 returned ${limited.length}`);
+
+      const before = await collect(
+        saver.list(threadConfig(threadId), {
+          before: threadConfig(threadId, checkpoints[2].id),
+        })
+      );
+      assert(
+        before.length === 2 &&
+          before.every((t) => t.checkpoint.id < checkpoints[2].id),
+        "before did not exclude newer checkpoints"
+      );
+
+      const filtered = await collect(
+        saver.list(threadConfig(threadId), { filter: { parity: "odd" } })
+      );
+      assert(
+        filtered.length === 2 &&
+          filtered.every((t) => (t.metadata as { parity?: string }).parity === "odd"),
+        "metadata filter was not applied"
+      );
+    },
+
+  "putWrites are returned as pendingWrites and are idempotent":
+    async (saver, newThread) => {
+      const threadId = newThread();
+      const [checkpoint] = await seedThread(saver, threadId, 1);
+      const config = threadConfig(threadId, checkpoint.id);
+
+      await saver.putWrites(config, [["messages", "first"]], "task-1");
+      await saver.putWrites(config, [["messages", "second"]], "task-1");
+
+      const tuple = await saver.getTuple(config);
+      const writes = tuple?.pendingWrites ?? [];
+      assert(writes.length === 1, `expected 1 pending write, got ${writes.length}`);
+      const [taskId, channel, value] = writes[0];
+      assert(
+        taskId === "task-1" && channel === "messages" && value === "first",
+        "pending write was overwritten or not round-tripped"
+      );
+    },
+
+  "TASKS writes on the parent surface as pending_sends on the child":
+    async (saver, newThread) => {
+      const threadId = newThread();
+      const [parent] = await seedThread(saver, threadId, 1);
+      const parentConfig = threadConfig(threadId, parent.id);
+      await saver.putWrites(
+        parentConfig,
+        [[TASKS, { node: "agent", args: { n: 1 } }]],
+        "task-send"
+      );
+
+      const child = makeCheckpoint({ step: 1 });
+      await saver.put(parentConfig, child, makeMetadata(1), {});
+      const tuple = await saver.getTuple(threadConfig(threadId, child.id));
+      const sends = tuple?.checkpoint.pending_sends ?? [];
+      assert(sends.length === 1, `expected 1 pending send, got ${sends.length}`);
+      assert(sends[0].node === "agent", "pending send was not round-tripped");
+    },
+
+  "threads are isolated from each other": async (saver, newThread) => {
+    const threadA = newThread();
+    const threadB = newThread();
+    await seedThread(saver, threadA, 2);
+    const listed = await collect(saver.list(threadConfig(threadB)));
+    assert(listed.length === 0, "thread B sees thread A's checkpoints");
+  },
+};
+
+// ── Public API ──────────────────────────────────────────────────────
+
+/**
+ * Run the checkpoint saver conformance suite against a saver. Every
+ * backend returned by `getCheckpointer()` must pass all cases.
+ *
+ * The suite writes to throwaway threads; pass `cleanup` to remove them
+ * afterwards (e.g. `KeyValueCheckpointSaver.deleteThread`).
+ */
+export async function runCheckpointerConformance(
+  saver: BaseCheckpointSaver,
+  options: ConformanceOptions = {}
+): Promise<ConformanceResult[]> {
+  const prefix = options.threadPrefix ?? `__conformance_${Date.now().toString(36)}`;
+  const threads: string[] = [];
+  const newThread = () => {
+    const threadId = `${prefix}_${threads.length}`;
+    threads.push(threadId);
+    return threadId;
+  };
+
+  const results: ConformanceResult[] = [];
+  for (const [name, run] of Object.entries(CONFORMANCE_CASES)) {
+    try {
+      await run(saver, newThread);
+      results.push({ name, passed: true });
+    } catch (err) {
+      results.push({
+        name,
+        passed: false,
+        error: err instanceof Error ? err.message : String(err),
+      });
+    }
+  }
+
+  if (options.cleanup) {
+    await Promise.all(threads.map((t) => options.cleanup!(t)));
+  }
+  return results;
+}
@@ -0,0 +1,166 @@
+import { promises as fs } from "fs";
+import path from "path";
+import type {
+  CheckpointRecord,
+  CheckpointStore,
+  WriteRecord,
+} from "./kv-saver.js";
+
+interface ThreadFile {
+  checkpoints: Record<string, Record<string, CheckpointRecord>>;
+  writes: Record<string, Record<string, Record<string, WriteRecord>>>;
+}
+
+function emptyThreadFile(): ThreadFile {
+  return { checkpoints: {}, writes: {} };
+}
+
+const FILE_SUFFIX = ".json";
+
+/**
+ * Zero-dependency checkpoint store that keeps one JSON file per thread
+ * in a local directory. Suitable for single-node deployments and tests;
+ * writes are atomic (temp file + rename) and serialized per thread
+ * within the process, but not across processes.
+ */
+export class FileCheckpointStore implements CheckpointStore {
+  private readonly locks = new Map<string, Promise<unknown>>();
+
+  constructor(private readonly directory: string) {}
+
+  private filePath(threadId: string): string {
+    return path.join(
+      this.directory,
+      `${encodeURIComponent(threadId)}${FILE_SUFFIX}`
+    );
+  }
+
+  private async read(threadId: string): Promise<ThreadFile> {
+    try {
+      const text = await fs.readFile(this.filePath(threadId), "utf8");
+      return JSON.parse(text) as ThreadFile;
+    } catch (err) {
+      if ((err as NodeJS.ErrnoException).code === "ENOENT") {
+        return emptyThreadFile();
+      }
+      throw err;
+    }
+  }
+
+  private async write(threadId: string, data: ThreadFile): Promise<void> {
+    await fs.mkdir(this.directory, { recursive: true });
+    const target = this.filePath(threadId);
+    const temp = `${target}.${process.pid}.tmp`;
+    await fs.writeFile(temp, JSON.stringify(data), "utf8");
+    await fs.rename(temp, target);
+  }
+
+  /** Run a read-modify-write cycle with per-thread mutual exclusion. */
+  private async update(
+    threadId: string,
+    mutate: (data: ThreadFile) => void
+  ): Promise<void> {
+    const previous = this.locks.get(threadId) ?? Promise.resolve();
+    const next = previous
+      .catch(() => undefined)
+      .then(async () => {
+        const data = await this.read(threadId);
+        mutate(data);
+        await this.write(threadId, data);
+      });
+    this.locks.set(threadId, next);
+    try {
+      await next;
+    } finally {
+      if (this.locks.get(threadId) === next) this.locks.delete(threadId);
+    }
+  }
+
+  async ping(): Promise<void> {
+    await fs.mkdir(this.directory, { recursive: true });
+    await fs.access(this.directory, fs.constants.R_OK | fs.constants.W_OK);
+  }
+
+  async close(): Promise<void> {
+    await Promise.allSettled([...this.locks.values()]);
+  }
+
+  async putCheckpoint(
+    threadId: string,
+    checkpointNs: string,
+    checkpointId: string,
+    record: CheckpointRecord
+  ): Promise<void> {
+    await this.update(threadId, (data) => {
+      data.checkpoints[checkpointNs] ??= {};
+      data.checkpoints[checkpointNs][checkpointId] = record;
+    });
+  }
+
+  async getCheckpoint(
+    threadId: string,
+    checkpointNs: string,
+    checkpointId: string
+  ): Promise<CheckpointRecord | undefined> {
+    const data = await this.read(threadId);
+    return data.checkpoints[checkpointNs]?.[checkpointId];
+  }
+
+  async listCheckpointIds(
+    threadId: string,
+    checkpointNs: string
+  ): Promise<string[]> {
+    const data = await this.read(threadId);
+    return Object.keys(data.checkpoints[checkpointNs] ?? {}).sort((a, b) =>
+      b.localeCompare(a)
+    );
+  }
+
+  async listThreadIds(): Promise<string[]> {
+    try {
+      const entries = await fs.readdir(this.directory);
+      return entries
+        .filter((name) => name.endsWith(FILE_SUFFIX))
+        .map((name) => decodeURIComponent(name.slice(0, -FILE_SUFFIX.length)));
+    } catch (err) {
+      if ((err as NodeJS.ErrnoException).code === "ENOENT") return [];
+      throw err;
+    }
+  }
+
+  async listNamespaces(threadId: string): Promise<string[]> {
+    const data = await this.read(threadId);
+    return Object.keys(data.checkpoints);
+  }
+
+  async putWrites(
+    threadId: string,
+    checkpointNs: string,
+    checkpointId: string,
+    writes: Record<string, WriteRecord>,
+    insertOnly: Set<string>
+  ): Promise<void> {
+    await this.update(threadId, (data) => {
+      data.writes[checkpointNs] ??= {};
+      const existing = (data.writes[checkpointNs][checkpointId] ??= {});
+      for (const [key, record] of Object.entries(writes)) {
+        if (insertOnly.has(key) && key in existing) continue;
+        existing[key] = record;
+      }
+    });
+  }
+
+  async getWrites(
+    threadId: string,
+    checkpointNs: string,
+    checkpointId: string
+  ): Promise<WriteRecord[]> {
+    const data = await this.read(threadId);
+    return Object.values(data.writes[checkpointNs]?.[checkpointId] ?? {});
+  }
+
+  async deleteThread(threadId: string): Promise<void> {
+    await (this.locks.get(threadId) ?? Promise.resolve()).catch(() => undefined);
+    await fs.rm(this.filePath(threadId), { force: true });
+  }
+}
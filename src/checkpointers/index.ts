@@ -1,35 +1,34 @@
 import { MemorySaver } from "@langchain/langgraph";
 import type { BaseCheckpointSaver } from "@langchain/langgraph";
-import { getConfig } from "../config/index.js";
+import { PostgresSaver } from "@langchain/langgraph-checkpoint-postgres";
+import { getConfig, validateCheckpointerConfig } from "../config/index.js";
+import { logger } from "../utils/index.js";
+import { KeyValueCheckpointSaver } from "./kv-saver.js";
+import { FileCheckpointStore } from "./file-store.js";
+import { RedisCheckpointStore } from "./redis-store.js";
 import type { ThreadConfig } from "../types/index.js";
 
-/**
- * Returns a checkpointer instance based on configuration.
- *
- * Supports:
- * - memory: In-process MemorySaver (default, for development)
- * - postgres: PostgresSaver (uncomment import when ready)
- * - redis: RedisSaver (uncomment import when ready)
- */
-export function getCheckpointer(): BaseCheckpointSaver {
+let _checkpointer: BaseCheckpointSaver | null = null;
+
+function createCheckpointer(): BaseCheckpointSaver {
   const config = getConfig();
+  validateCheckpointerConfig();
 
   switch (config.checkpointerType) {
     case "memory":
       return new MemorySaver();
 
-    case "postgres":
-      // import { PostgresSaver } from "@langchain/langgraph-checkpoint-postgres";
-      // return PostgresSaver.fromConnInfo({ connectionString: config.postgresConnectionString! });
-      throw new Error(
-        "PostgresSaver not configured. Uncomment the import and setup in checkpointers/index.ts"
+    case "file":
+      return new KeyValueCheckpointSaver(
+        new FileCheckpointStore(config.checkpointerFileDir)
       );
 
+    case "postgres":
+      return PostgresSaver.fromConnString(config.postgresConnectionString!);
+
     case "redis":
-      // import { RedisSaver } from "@langchain/langgraph-checkpoint-redis";
-      // return new RedisSaver({ url: config.redisUrl! });
-      throw new Error(
-        "RedisSaver not configured. Uncomment the import and setup in checkpointers/index.ts"
+      return new KeyValueCheckpointSaver(
+        new RedisCheckpointStore(config.redisUrl!, config.redisKeyPrefix)
       );
 
     default:
@@ -37,6 +36,53 @@ export function getCheckpointer(): BaseCheckpointSaver {
   }
 }
 
+/**
+ * Returns the process-wide checkpointer instance based on configuration.
+ *
+ * Supports:
+ * - memory: In-process MemorySaver (default, for development)
+ * - file: JSON files on local disk (single-node deployments, tests)
+ * - postgres: PostgresSaver from @langchain/langgraph-checkpoint-postgres
+ * - redis: Redis-backed saver shared across server replicas
+ */
+export function getCheckpointer(): BaseCheckpointSaver {
+  if (!_checkpointer) {
+    _checkpointer = createCheckpointer();
+  }
+  return _checkpointer;
+}
+
+/**
+ * Startup connectivity check. Creates the Postgres tables if needed,
+ * pings Redis, or verifies the file directory is writable. Throws if
+ * the backend is unreachable.
+ */
+export async function verifyCheckpointer(): Promise<void> {
+  const config = getConfig();
+  const saver = getCheckpointer();
+
+  if (saver instanceof PostgresSaver) {
+    await saver.setup();
+  } else if (saver instanceof KeyValueCheckpointSaver) {
+    await saver.store.ping();
+  }
+
+  logger.info(`Checkpointer ready: ${config.checkpointerType}`);
+}
+
+/**
+ * Close checkpointer connections (Postgres pool, Redis client).
+ */
+export async function closeCheckpointer(): Promise<void> {
+  if (!_checkpointer) return;
+  if (_checkpointer instanceof PostgresSaver) {
+    await _checkpointer.end();
+  } else if (_checkpointer instanceof KeyValueCheckpointSaver) {
+    await _checkpointer.store.close();
+  }
+  _checkpointer = null;
+}
+
 /**
  * Create a thread configuration object for checkpointed conversations.
  */
@@ -60,3 +106,13 @@ export function generateThreadId(): string {
   const random = Math.random().toString(36).substring(2, 8);
   return `thread_${timestamp}_${random}`;
 }
+
+export { KeyValueCheckpointSaver } from "./kv-saver.js";
+export type { CheckpointStore } from "./kv-saver.js";
+export { FileCheckpointStore } from "./file-store.js";
+export { RedisCheckpointStore } from "./redis-store.js";
+export {
+  CONFORMANCE_CASES,
+  runCheckpointerConformance,
+} from "./conformance.js";
+export type { ConformanceCase, ConformanceResult } from "./conformance.js";
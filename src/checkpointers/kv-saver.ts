@@ -0,0 +1,320 @@
+import type { RunnableConfig } from "@langchain/core/runnables";
+import {
+  BaseCheckpointSaver,
+  copyCheckpoint,
+  getCheckpointId,
+  TASKS,
+  WRITES_IDX_MAP,
+} from "@langchain/langgraph-checkpoint";
+import type {
+  Checkpoint,
+  CheckpointListOptions,
+  CheckpointMetadata,
+  CheckpointPendingWrite,
+  CheckpointTuple,
+  PendingWrite,
+  SendProtocol,
+  SerializerProtocol,
+} from "@langchain/langgraph-checkpoint";
+
+// ── Storage Contract ────────────────────────────────────────────────
+
+/** A value serialized by the saver's serde, stored as UTF-8 text. */
+export interface SerializedValue {
+  type: string;
+  data: string;
+}
+
+export interface CheckpointRecord {
+  checkpoint: SerializedValue;
+  metadata: SerializedValue;
+  parentCheckpointId?: string;
+}
+
+export interface WriteRecord {
+  taskId: string;
+  channel: string;
+  value: SerializedValue;
+}
+
+/**
+ * Minimal key-value operations a durable backend must provide.
+ * `KeyValueCheckpointSaver` implements the LangGraph checkpoint
+ * semantics (latest lookup, listing, pending sends) on top of it.
+ */
+export interface CheckpointStore {
+  /** Verify the backend is reachable and writable. */
+  ping(): Promise<void>;
+  /** Release connections / file handles. */
+  close(): Promise<void>;
+
+  putCheckpoint(
+    threadId: string,
+    checkpointNs: string,
+    checkpointId: string,
+    record: CheckpointRecord
+  ): Promise<void>;
+  getCheckpoint(
+    threadId: string,
+    checkpointNs: string,
+    checkpointId: string
+  ): Promise<CheckpointRecord | undefined>;
+  /** Checkpoint IDs for a thread/namespace, newest first. */
+  listCheckpointIds(threadId: string, checkpointNs: string): Promise<string[]>;
+  listThreadIds(): Promise<string[]>;
+  listNamespaces(threadId: string): Promise<string[]>;
+
+  /**
+   * Store pending writes for a checkpoint keyed by `${taskId},${idx}`.
+   * Entries in `insertOnly` must not replace an existing value.
+   */
+  putWrites(
+    threadId: string,
+    checkpointNs: string,
+    checkpointId: string,
+    writes: Record<string, WriteRecord>,
+    insertOnly: Set<string>
+  ): Promise<void>;
+  getWrites(
+    threadId: string,
+    checkpointNs: string,
+    checkpointId: string
+  ): Promise<WriteRecord[]>;
+
+  deleteThread(threadId: string): Promise<void>;
+}
+
+// ── Saver ───────────────────────────────────────────────────────────
+
+const decoder = new TextDecoder();
+
+/**
+ * Checkpoint saver backed by any `CheckpointStore`. Mirrors the
+ * behaviour of LangGraph's MemorySaver so that backends only need to
+ * implement storage, not checkpoint semantics.
+ */
+export class KeyValueCheckpointSaver extends BaseCheckpointSaver {
+  constructor(
+    readonly store: CheckpointStore,
+    serde?: SerializerProtocol
+  ) {
+    super(serde);
+  }
+
+  private dump(value: unknown): SerializedValue {
+    const [type, bytes] = this.serde.dumpsTyped(value);
+    return { type, data: decoder.decode(bytes) };
+  }
+
+  private async load<T>(value: SerializedValue): Promise<T> {
+    return (await this.serde.loadsTyped(value.type, value.data)) as T;
+  }
+
+  private async loadPendingSends(
+    threadId: string,
+    checkpointNs: string,
+    parentCheckpointId?: string
+  ): Promise<SendProtocol[]> {
+    if (parentCheckpointId === undefined) return [];
+    const writes = await this.store.getWrites(
+      threadId,
+      checkpointNs,
+      parentCheckpointId
+    );
+    return Promise.all(
+      writes
+        .filter((w) => w.channel === TASKS)
+        .map((w) => this.load<SendProtocol>(w.value))
+    );
+  }
+
+  private async toTuple(
+    threadId: string,
+    checkpointNs: string,
+    checkpointId: string,
+    record: CheckpointRecord
+  ): Promise<CheckpointTuple> {
+    const [checkpoint, metadata, pendingSends, writes] = await Promise.all([
+      this.load<Checkpoint>(record.checkpoint),
+      this.load<CheckpointMetadata>(record.metadata),
+      this.loadPendingSends(threadId, checkpointNs, record.parentCheckpointId),
+      this.store.getWrites(threadId, checkpointNs, checkpointId),
+    ]);
+
+    const pendingWrites: CheckpointPendingWrite[] = await Promise.all(
+      writes.map(
+        async (w) =>
+          [w.taskId, w.channel, await this.load(w.value)] as CheckpointPendingWrite
+      )
+    );
+
+    const tuple: CheckpointTuple = {
+      config: {
+        configurable: {
+          thread_id: threadId,
+          checkpoint_ns: checkpointNs,
+          checkpoint_id: checkpointId,
+        },
+      },
+      checkpoint: { ...checkpoint, pending_sends: pendingSends },
+      metadata,
+      pendingWrites,
+    };
+
+    if (record.parentCheckpointId !== undefined) {
+      tuple.parentConfig = {
+        configurable: {
+          thread_id: threadId,
+          checkpoint_ns: checkpointNs,
+          checkpoint_id: record.parentCheckpointId,
+        },
+      };
+    }
+    return tuple;
+  }
+
+  async getTuple(config: RunnableConfig): Promise<CheckpointTuple | undefined> {
+    const threadId = config.configurable?.thread_id;
+    const checkpointNs = config.configurable?.checkpoint_ns ?? "";
+    if (threadId === undefined) return undefined;
+
+    const checkpointId =
+      getCheckpointId(config) ||
+      (await this.store.listCheckpointIds(threadId, checkpointNs))[0];
+    if (!checkpointId) return undefined;
+
+    const record = await this.store.getCheckpoint(
+      threadId,
+      checkpointNs,
+      checkpointId
+    );
+    if (!record) return undefined;
+
+    return this.toTuple(threadId, checkpointNs, checkpointId, record);
+  }
+
+  async *list(
+    config: RunnableConfig,
+    options?: CheckpointListOptions
+  ): AsyncGenerator<CheckpointTuple> {
+    const { before, filter } = options ?? {};
+    let remaining = options?.limit;
+
+    const threadIds = config.configurable?.thread_id
+      ? [config.configurable.thread_id as string]
+      : await this.store.listThreadIds();
+    const configNs = config.configurable?.checkpoint_ns;
+    const configCheckpointId = config.configurable?.checkpoint_id;
+    const beforeId = before?.configurable?.checkpoint_id;
+
+    for (const threadId of threadIds) {
+      for (const checkpointNs of await this.store.listNamespaces(threadId)) {
+        if (configNs !== undefined && checkpointNs !== configNs) continue;
+
+        const ids = await this.store.listCheckpointIds(threadId, checkpointNs);
+        for (const checkpointId of ids) {
+          if (configCheckpointId && checkpointId !== configCheckpointId) continue;
+          if (beforeId && checkpointId >= beforeId) continue;
+
+          const record = await this.store.getCheckpoint(
+            threadId,
+            checkpointNs,
+            checkpointId
+          );
+          if (!record) continue;
+
+          if (filter) {
+            const metadata = await this.load<Record<string, unknown>>(
+              record.metadata
+            );
+            const matches = Object.entries(filter).every(
+              ([key, value]) => metadata[key] === value
+            );
+            if (!matches) continue;
+          }
+
+          if (remaining !== undefined) {
+            if (remaining <= 0) return;
+            remaining -= 1;
+          }
+
+          yield this.toTuple(threadId, checkpointNs, checkpointId, record);
+        }
+      }
+    }
+  }
+
+  async put(
+    config: RunnableConfig,
+    checkpoint: Checkpoint,
+    metadata: CheckpointMetadata
+  ): Promise<RunnableConfig> {
+    const threadId = config.configurable?.thread_id;
+    const checkpointNs = config.configurable?.checkpoint_ns ?? "";
+    if (threadId === undefined) {
+      throw new Error(
+        `Failed to put checkpoint. The passed RunnableConfig is missing a required "thread_id" field in its "configurable" property.`
+      );
+    }
+
+    const prepared: Partial<Checkpoint> = copyCheckpoint(checkpoint);
+    delete prepared.pending_sends;
+
+    await this.store.putCheckpoint(threadId, checkpointNs, checkpoint.id, {
+      checkpoint: this.dump(prepared),
+      metadata: this.dump(metadata),
+      parentCheckpointId: config.configurable?.checkpoint_id,
+    });
+
+    return {
+      configurable: {
+        thread_id: threadId,
+        checkpoint_ns: checkpointNs,
+        checkpoint_id: checkpoint.id,
+      },
+    };
+  }
+
+  async putWrites(
+    config: RunnableConfig,
+    writes: PendingWrite[],
+    taskId: string
+  ): Promise<void> {
+    const threadId = config.configurable?.thread_id;
+    const checkpointNs = config.configurable?.checkpoint_ns ?? "";
+    const checkpointId = config.configurable?.checkpoint_id;
+    if (threadId === undefined) {
+      throw new Error(
+        `Failed to put writes. The passed RunnableConfig is missing a required "thread_id" field in its "configurable" property`
+      );
+    }
+    if (checkpointId === undefined) {
+      throw new Error(
+        `Failed to put writes. The passed RunnableConfig is missing a required "checkpoint_id" field in its "configurable" property.`
+      );
+    }
+
+    const records: Record<string, WriteRecord> = {};
+    const insertOnly = new Set<string>();
+    writes.forEach(([channel, value], idx) => {
+      const writeIdx = WRITES_IDX_MAP[channel] || idx;
+      const key = `${taskId},${writeIdx}`;
+      records[key] = { taskId, channel, value: this.dump(value) };
+      // Regular writes are idempotent; special channels (errors, interrupts) overwrite
+      if (writeIdx >= 0) insertOnly.add(key);
+    });
+
+    await this.store.putWrites(
+      threadId,
+      checkpointNs,
+      checkpointId,
+      records,
+      insertOnly
+    );
+  }
+
+  /** Remove every checkpoint and write for a thread. */
+  async deleteThread(threadId: string): Promise<void> {
+    await this.store.deleteThread(threadId);
+  }
+}
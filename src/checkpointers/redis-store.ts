@@ -0,0 +1,164 @@
+import { createClient } from "redis";
+import type {
+  CheckpointRecord,
+  CheckpointStore,
+  WriteRecord,
+} from "./kv-saver.js";
+
+type RedisClient = ReturnType<typeof createClient>;
+
+/**
+ * Redis-backed checkpoint store. Multiple server replicas pointed at
+ * the same Redis share threads.
+ *
+ * Key layout (components are URI-encoded):
+ *   {prefix}:threads                      SET   thread IDs
+ *   {prefix}:ns:{thread}                  SET   checkpoint namespaces
+ *   {prefix}:ids:{thread}:{ns}            ZSET  checkpoint IDs (lex order)
+ *   {prefix}:cp:{thread}:{ns}:{id}        STRING JSON CheckpointRecord
+ *   {prefix}:writes:{thread}:{ns}:{id}    HASH  `${taskId},${idx}` → JSON WriteRecord
+ */
+export class RedisCheckpointStore implements CheckpointStore {
+  private readonly client: RedisClient;
+  private connecting: Promise<unknown> | null = null;
+
+  constructor(
+    url: string,
+    private readonly prefix: string = "checkpoint"
+  ) {
+    this.client = createClient({ url });
+    this.client.on("error", () => {
+      // Connection errors surface through the failing command; the
+      // client reconnects on its own.
+    });
+  }
+
+  private key(...parts: string[]): string {
+    return [this.prefix, ...parts.map((p) => encodeURIComponent(p))].join(":");
+  }
+
+  private async ready(): Promise<RedisClient> {
+    if (!this.client.isOpen) {
+      this.connecting ??= this.client.connect().finally(() => {
+        this.connecting = null;
+      });
+      await this.connecting;
+    }
+    return this.client;
+  }
+
+  async ping(): Promise<void> {
+    const client = await this.ready();
+    await client.ping();
+  }
+
+  async close(): Promise<void> {
+    if (this.client.isOpen) await this.client.quit();
+  }
+
+  async putCheckpoint(
+    threadId: string,
+    checkpointNs: string,
+    checkpointId: string,
+    record: CheckpointRecord
+  ): Promise<void> {
+    const client = await this.ready();
+    await client
+      .multi()
+      .sAdd(`${this.prefix}:threads`, threadId)
+      .sAdd(this.key("ns", threadId), checkpointNs)
+      .zAdd(this.key("ids", threadId, checkpointNs), {
+        score: 0,
+        value: checkpointId,
+      })
+      .set(
+        this.key("cp", threadId, checkpointNs, checkpointId),
+        JSON.stringify(record)
+      )
+      .exec();
+  }
+
+  async getCheckpoint(
+    threadId: string,
+    checkpointNs: string,
+    checkpointId: string
+  ): Promise<CheckpointRecord | undefined> {
+    const client = await this.ready();
+    const raw = await client.get(
+      this.key("cp", threadId, checkpointNs, checkpointId)
+    );
+    return raw ? (JSON.parse(raw) as CheckpointRecord) : undefined;
+  }
+
+  async listCheckpointIds(
+    threadId: string,
+    checkpointNs: string
+  ): Promise<string[]> {
+    const client = await this.ready();
+    const ids = await client.zRange(this.key("ids", threadId, checkpointNs), 0, -1);
+    return ids.reverse();
+  }
+
+  async listThreadIds(): Promise<string[]> {
+    const client = await this.ready();
+    return client.sMembers(`${this.prefix}:threads`);
+  }
+
+  async listNamespaces(threadId: string): Promise<string[]> {
+    const client = await this.ready();
+    return client.sMembers(this.key("ns", threadId));
+  }
+
+  async putWrites(
+    threadId: string,
+    checkpointNs: string,
+    checkpointId: string,
+    writes: Record<string, WriteRecord>,
+    insertOnly: Set<string>
+  ): Promise<void> {
+    const client = await this.ready();
+    const hashKey = this.key("writes", threadId, checkpointNs, checkpointId);
+    const tx = client.multi();
+    for (const [field, record] of Object.entries(writes)) {
+      const value = JSON.stringify(record);
+      if (insertOnly.has(field)) {
+        tx.hSetNX(hashKey, field, value);
+      } else {
+        tx.hSet(hashKey, field, value);
+      }
+    }
+    await tx.exec();
+  }
+
+  async getWrites(
+    threadId: string,
+    checkpointNs: string,
+    checkpointId: string
+  ): Promise<WriteRecord[]> {
+    const client = await this.ready();
+    const hash = await client.hGetAll(
+      this.key("writes", threadId, checkpointNs, checkpointId)
+    );
+    return Object.values(hash).map((raw) => JSON.parse(raw) as WriteRecord);
+  }
+
+  async deleteThread(threadId: string): Promise<void> {
+    const client = await this.ready();
+    const keys: string[] = [this.key("ns", threadId)];
+    for (const checkpointNs of await this.listNamespaces(threadId)) {
+      const idsKey = this.key("ids", threadId, checkpointNs);
+      keys.push(idsKey);
+      for (const checkpointId of await client.zRange(idsKey, 0, -1)) {
+        keys.push(
+          this.key("cp", threadId, checkpointNs, checkpointId),
+          this.key("writes", threadId, checkpointNs, checkpointId)
+        );
+      }
+    }
+    await client
+      .multi()
+      .del(keys)
+      .sRem(`${this.prefix}:threads`, threadId)
+      .exec();
+  }
+}
@@ -0,0 +1,211 @@
+/**
+ * Manage the API keys, per-key limits and usage in the local auth store.
+ *
+ *   npm run keys -- create --name "Budget office" --tenant springfield
+ *   npm run keys -- create --name "Operations" --scope admin
+ *   npm run keys -- list
+ *
+ * Secret keys are printed once, at creation; only their hashes are kept.
+ */
+import { parseArgs } from "util";
+import { getConfig } from "../config/index.js";
+import {
+  AUTH_SCOPES,
+  getKeyStore,
+  getUsageStore,
+  signJwt,
+} from "../auth/index.js";
+import type { ApiKeyRecord, AuthScope, ClientLimits } from "../auth/index.js";
+import { getTenant, validateTenantConfig } from "../tenants/index.js";
+
+const USAGE = `Usage: npm run keys -- <command> [options]
+
+Commands:
+  create --name <name>       Create a key and print it (shown only once)
+  list                       List keys with their limits and today's usage
+  revoke <key-id>            Revoke a key
+  limits <key-id>            Set or clear a key's limits
+  token --sub <subject>      Sign a JWT with AUTH_JWT_SECRET (for testing)
+
+Options:
+  --tenant <id>              Bind the key or token to a tenant
+  --scope <scopes>           Comma-separated scopes for the key or token: ${AUTH_SCOPES.join(", ")}
+  --rpm <n>                  Requests per minute (token-bucket refill)
+  --burst <n>                Requests allowed back to back
+  --requests-per-day <n>     Daily chat request quota (0 = unlimited)
+  --tokens-per-day <n>       Daily LLM token quota (0 = unlimited)
+  --clear                    With limits: drop overrides, use the defaults
+  --ttl <seconds>            With token: lifetime (default: 3600)
+  -h, --help                 Show this help`;
+
+function intOption(
+  name: string,
+  value: string | undefined
+): number | undefined {
+  if (value === undefined) return undefined;
+  const parsed = Number(value);
+  if (!Number.isInteger(parsed) || parsed < 0) {
+    throw new Error(`Invalid --${name}: ${value}`);
+  }
+  return parsed;
+}
+
+function limitOptions(values: Record<string, unknown>): ClientLimits {
+  const limits: ClientLimits = {
+    requestsPerMinute: intOption("rpm", values.rpm as string | undefined),
+    burst: intOption("burst", values.burst as string | undefined),
+    requestsPerDay: intOption(
+      "requests-per-day",
+      values["requests-per-day"] as string | undefined
+    ),
+    tokensPerDay: intOption(
+      "tokens-per-day",
+      values["tokens-per-day"] as string | undefined
+    ),
+  };
+  if (limits.burst === 0) throw new Error("--burst must be at least 1");
+  return Object.fromEntries(
+    Object.entries(limits).filter(([, v]) => v !== undefined)
+  ) as ClientLimits;
+}
+
+function scopeOption(value: string | undefined): AuthScope[] {
+  if (value === undefined) return [];
+  return value.split(",").map((scope) => {
+    const trimmed = scope.trim();
+    if (!(AUTH_SCOPES as readonly string[]).includes(trimmed)) {
+      throw new Error(`Unknown scope: ${trimmed}`);
+    }
+    return trimmed as AuthScope;
+  });
+}
+
+function requireTenant(tenantId: string | undefined): void {
+  if (!tenantId) return;
+  validateTenantConfig();
+  if (!getTenant(tenantId)) throw new Error(`Unknown tenant: ${tenantId}`);
+}
+
+function quota(limit: number): string {
+  return limit > 0 ? String(limit) : "unlimited";
+}
+
+function describe(record: ApiKeyRecord): string {
+  const config = getConfig();
+  const limits = record.limits ?? {};
+  const usage = getUsageStore().get(`key:${record.id}`);
+  const status = record.revokedAt ? `revoked ${record.revokedAt}` : "active";
+  const requestsPerDay = limits.requestsPerDay ?? config.quotaRequestsPerDay;
+  const tokensPerDay = limits.tokensPerDay ?? config.quotaTokensPerDay;
+  return [
+    `${record.id}  ${record.name}  (${status})`,
+    `  tenant: ${record.tenantId ?? "(any)"}  ` +
+      `scopes: ${record.scopes?.join(", ") || "(none)"}  created: ${record.createdAt}`,
+    `  rate: ${limits.requestsPerMinute ?? config.rateLimitRpm}/min, ` +
+      `burst ${limits.burst ?? config.rateLimitBurst}`,
+    `  today: ${usage.requests}/${quota(requestsPerDay)} requests, ` +
+      `${usage.tokens}/${quota(tokensPerDay)} tokens`,
+  ].join("\n");
+}
+
+async function main(): Promise<number> {
+  const { values, positionals } = parseArgs({
+    allowPositionals: true,
+    options: {
+      name: { type: "string" },
+      tenant: { type: "string" },
+      scope: { type: "string" },
+      sub: { type: "string" },
+      rpm: { type: "string" },
+      burst: { type: "string" },
+      "requests-per-day": { type: "string" },
+      "tokens-per-day": { type: "string" },
+      clear: { type: "boolean", default: false },
+      ttl: { type: "string" },
+      help: { type: "boolean", short: "h", default: false },
+    },
+  });
+
+  const [command, id] = positionals;
+  if (values.help || !command) {
+    console.log(USAGE);
+    return values.help ? 0 : 1;
+  }
+  const store = getKeyStore();
+
+  switch (command) {
+    case "create": {
+      if (!values.name) throw new Error("create requires --name <name>");
+      requireTenant(values.tenant);
+      const limits = limitOptions(values);
+      const { apiKey, record } = await store.create({
+        name: values.name,
+        tenantId: values.tenant,
+        scopes: scopeOption(values.scope),
+        limits: Object.keys(limits).length > 0 ? limits : undefined,
+      });
+      console.log(describe(record));
+      console.log(`\nAPI key (store it now; it is not saved): ${apiKey}`);
+      return 0;
+    }
+
+    case "list": {
+      const keys = await store.list();
+      if (keys.length === 0) console.log(`No keys in ${store.filePath}`);
+      for (const record of keys) console.log(describe(record));
+      return 0;
+    }
+
+    case "revoke": {
+      if (!id) throw new Error("revoke requires a key id");
+      console.log(describe(await store.revoke(id)));
+      return 0;
+    }
+
+    case "limits": {
+      if (!id) throw new Error("limits requires a key id");
+      const limits = limitOptions(values);
+      const record = await store.update(id, (r) => {
+        r.limits = values.clear ? undefined : { ...r.limits, ...limits };
+      });
+      console.log(describe(record));
+      return 0;
+    }
+
+    case "token": {
+      if (!values.sub) throw new Error("token requires --sub <subject>");
+      const { authJwtSecret, authJwtIssuer, authJwtAudience } = getConfig();
+      if (!authJwtSecret) throw new Error("AUTH_JWT_SECRET is not set");
+      requireTenant(values.tenant);
+      const scopes = scopeOption(values.scope);
+      const ttl = intOption("ttl", values.ttl) ?? 3600;
+      const now = Math.floor(Date.now() / 1000);
+      console.log(
+        signJwt(
+          {
+            sub: values.sub,
+            ...(values.tenant && { tenant: values.tenant }),
+            ...(scopes.length > 0 && { scope: scopes.join(" ") }),
+            ...(authJwtIssuer && { iss: authJwtIssuer }),
+            ...(authJwtAudience && { aud: authJwtAudience }),
+            iat: now,
+            exp: now + ttl,
+          },
+          authJwtSecret
+        )
+      );
+      return 0;
+    }
+
+    default:
+      console.log(USAGE);
+      return 1;
+  }
+}
+
+main()
+  .then((code) => process.exit(code))
+  .catch((err) => {
+    console.error(`keys failed: ${err instanceof Error ? err.message : err}`);
+    process.exit(1);
+  });
@@ -0,0 +1,57 @@
+/**
+ * Verify the configured checkpointer backend and run the conformance
+ * suite against it.
+ *
+ *   CHECKPOINTER_TYPE=redis REDIS_URL=redis://localhost:6379 npm run checkpointer:check
+ */
+import { MemorySaver } from "@langchain/langgraph";
+import {
+  closeCheckpointer,
+  getCheckpointer,
+  KeyValueCheckpointSaver,
+  runCheckpointerConformance,
+  verifyCheckpointer,
+} from "../checkpointers/index.js";
+import { getConfig } from "../config/index.js";
+
+async function main(): Promise<number> {
+  const config = getConfig();
+  console.log(`Checking checkpointer: ${config.checkpointerType}`);
+
+  await verifyCheckpointer();
+  const saver = getCheckpointer();
+
+  const results = await runCheckpointerConformance(saver, {
+    cleanup:
+      saver instanceof KeyValueCheckpointSaver
+        ? (threadId) => saver.deleteThread(threadId)
+        : undefined,
+  });
+
+  for (const result of results) {
+    const mark = result.passed ? "PASS" : "FAIL";
+    console.log(`  ${mark}  ${result.name}`);
+    if (result.error) console.log(`        ${result.error}`);
+  }
+
+  const failed = results.filter((r) => !r.passed).length;
+  console.log(
+    `${results.length - failed}/${results.length} conformance checks passed`
+  );
+  if (!(saver instanceof KeyValueCheckpointSaver || saver instanceof MemorySaver)) {
+    console.log("Note: conformance threads are left in place for this backend.");
+  }
+
+  await closeCheckpointer();
+  return failed === 0 ? 0 : 1;
+}
+
+main()
+  .then((code) => process.exit(code))
+  .catch(async (err) => {
+    console.error(
+      `Checkpointer check failed: ${err instanceof Error ? err.message : err}`
+    );
+    await closeCheckpointer().catch(() => undefined);
+    process.exit(1);
+  });
@@ -0,0 +1,172 @@
+/**
+ * Run a JSONL golden set through the agent, write JSON and Markdown
+ * reports, and compare against a saved baseline.
+ *
+ *   npm run eval -- eval/golden.jsonl --baseline eval/baseline.json
+ *
+ * Exits 1 when the run regresses against the baseline.
+ */
+import { promises as fs } from "fs";
+import path from "path";
+import { parseArgs } from "util";
+import { closeCheckpointer } from "../checkpointers/index.js";
+import { validateLlmConfig, validateRetrieverConfig } from "../config/index.js";
+import {
+  compareToBaseline,
+  DEFAULT_THRESHOLDS,
+  loadEvalCases,
+  renderMarkdownReport,
+  runEval,
+} from "../eval/index.js";
+import type { EvalReport } from "../eval/index.js";
+import { parsePromptSpec, validatePromptConfig } from "../prompts/index.js";
+
+const USAGE = `Usage: npm run eval -- <golden.jsonl> [options]
+
+Options:
+  --out <dir>                Report directory (default: ./eval-results)
+  --prompt <selection>       Prompt template or weighted split, e.g. budget-assistant@2
+                             or budget-assistant@1:50,budget-assistant@2:50
+                             (default: PROMPT_TEMPLATE / the default tenant's persona)
+  --baseline <file>          Baseline report.json to compare against
+  --update-baseline          Write this run's report.json to --baseline
+  --score-tolerance <n>      Allowed drop in 0-1 scores (default: ${DEFAULT_THRESHOLDS.score})
+  --latency-tolerance <n>    Allowed relative p50 latency increase (default: ${DEFAULT_THRESHOLDS.latency})
+  --tool-call-tolerance <n>  Allowed increase in mean tool calls (default: ${DEFAULT_THRESHOLDS.toolCalls})
+  -h, --help                 Show this help`;
+
+function numberOption(
+  name: string,
+  value: string | undefined,
+  fallback: number
+): number {
+  if (value === undefined) return fallback;
+  const parsed = Number(value);
+  if (!Number.isFinite(parsed) || parsed < 0) {
+    throw new Error(`Invalid --${name}: ${value}`);
+  }
+  return parsed;
+}
+
+async function main(): Promise<number> {
+  const { values, positionals } = parseArgs({
+    allowPositionals: true,
+    options: {
+      out: { type: "string", default: "./eval-results" },
+      prompt: { type: "string" },
+      baseline: { type: "string" },
+      "update-baseline": { type: "boolean", default: false },
+      "score-tolerance": { type: "string" },
+      "latency-tolerance": { type: "string" },
+      "tool-call-tolerance": { type: "string" },
+      help: { type: "boolean", short: "h", default: false },
+    },
+  });
+
+  if (values.help || positionals.length !== 1) {
+    console.log(USAGE);
+    return values.help ? 0 : 1;
+  }
+  if (values["update-baseline"] && !values.baseline) {
+    throw new Error("--update-baseline requires --baseline <file>");
+  }
+
+  const thresholds = {
+    score: numberOption(
+      "score-tolerance",
+      values["score-tolerance"],
+      DEFAULT_THRESHOLDS.score
+    ),
+    latency: numberOption(
+      "latency-tolerance",
+      values["latency-tolerance"],
+      DEFAULT_THRESHOLDS.latency
+    ),
+    toolCalls: numberOption(
+      "tool-call-tolerance",
+      values["tool-call-tolerance"],
+      DEFAULT_THRESHOLDS.toolCalls
+    ),
+  };
+
+  validateLlmConfig();
+  validateRetrieverConfig();
+  validatePromptConfig();
+  if (values.prompt) parsePromptSpec(values.prompt);
+
+  const datasetPath = positionals[0];
+  const cases = await loadEvalCases(datasetPath);
+  console.log(`Running ${cases.length} eval cases from ${datasetPath}`);
+
+  const report = await runEval(
+    path.basename(datasetPath),
+    cases,
+    (result) => {
+      const mark = result.error ? "ERROR" : "done ";
+      console.log(
+        `  ${mark} ${result.id} (${result.latencyMs}ms, ${result.promptVersion ?? "no prompt"})`
+      );
+    },
+    { prompt: values.prompt }
+  );
+
+  let baseline: EvalReport | null = null;
+  if (values.baseline && !values["update-baseline"]) {
+    try {
+      const text = await fs.readFile(values.baseline, "utf8");
+      baseline = JSON.parse(text) as EvalReport;
+    } catch (err) {
+      if ((err as NodeJS.ErrnoException).code !== "ENOENT") throw err;
+      console.log(`Baseline ${values.baseline} not found; skipping comparison`);
+    }
+  }
+  const comparison = baseline
+    ? compareToBaseline(report, baseline, thresholds)
+    : undefined;
+
+  await fs.mkdir(values.out, { recursive: true });
+  const jsonPath = path.join(values.out, "report.json");
+  const markdownPath = path.join(values.out, "report.md");
+  const json = `${JSON.stringify(report, null, 2)}\n`;
+  await fs.writeFile(jsonPath, json, "utf8");
+  await fs.writeFile(
+    markdownPath,
+    renderMarkdownReport(report, comparison),
+    "utf8"
+  );
+  console.log(`Reports written to ${jsonPath} and ${markdownPath}`);
+
+  if (values["update-baseline"]) {
+    await fs.mkdir(path.dirname(values.baseline!), { recursive: true });
+    await fs.writeFile(values.baseline!, json, "utf8");
+    console.log(`Baseline updated: ${values.baseline}`);
+  }
+
+  const { summary } = report;
+  console.log(
+    `recall=${summary.retrievalRecall ?? "—"} figures=${summary.figureAccuracy ?? "—"} ` +
+      `faithfulness=${summary.faithfulness} p50=${summary.latencyMsP50}ms ` +
+      `toolCalls=${summary.toolCallsMean} errors=${summary.errors}`
+  );
+
+  if (comparison?.regressed) {
+    const reasons = [
+      ...comparison.metrics.filter((m) => m.regressed).map((m) => m.metric),
+      ...comparison.newErrors.map((id) => `error in ${id}`),
+    ];
+    console.log(`REGRESSED vs baseline: ${reasons.join(", ")}`);
+    return 1;
+  }
+  return 0;
+}
+
+main()
+  .then(async (code) => {
+    await closeCheckpointer();
+    process.exit(code);
+  })
+  .catch(async (err) => {
+    console.error(`Eval failed: ${err instanceof Error ? err.message : err}`);
+    await closeCheckpointer().catch(() => undefined);
+    process.exit(1);
+  });
@@ -0,0 +1,106 @@
+/**
+ * Export negative answer feedback as golden set cases (JSONL), for
+ * `npm run eval`.
+ *
+ *   npm run feedback:export -- --out eval/feedback.jsonl
+ *   npm run feedback:export -- --tenant springfield --from 2026-01-01
+ */
+import { existsSync, promises as fs } from "fs";
+import path from "path";
+import { parseArgs } from "util";
+import { feedbackToEvalCase, getFeedbackStore } from "../feedback/index.js";
+
+const DAY_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+const USAGE = `Usage: npm run feedback:export -- [options]
+
+Options:
+  --out <file>         Append cases to a JSONL file, skipping cases already
+                       in it (default: print to stdout)
+  --tenant <id>        Only this tenant's feedback
+  --from <YYYY-MM-DD>  First UTC day included
+  --to <YYYY-MM-DD>    Last UTC day included
+  -h, --help           Show this help`;
+
+/** Ids of the cases in a golden set file's text. */
+function caseIds(text: string): Set<string> {
+  const ids = new Set<string>();
+  for (const line of text.split("\n")) {
+    if (!line.trim()) continue;
+    try {
+      const id = (JSON.parse(line) as { id?: unknown }).id;
+      if (typeof id === "string") ids.add(id);
+    } catch {
+      // Not ours to validate; the eval runner reports bad lines
+    }
+  }
+  return ids;
+}
+
+async function main(): Promise<number> {
+  const { values } = parseArgs({
+    options: {
+      out: { type: "string" },
+      tenant: { type: "string" },
+      from: { type: "string" },
+      to: { type: "string" },
+      help: { type: "boolean", short: "h", default: false },
+    },
+  });
+
+  if (values.help) {
+    console.log(USAGE);
+    return 0;
+  }
+  for (const name of ["from", "to"] as const) {
+    const value = values[name];
+    if (value !== undefined && !DAY_PATTERN.test(value)) {
+      throw new Error(`Invalid --${name}: ${value} (expected YYYY-MM-DD)`);
+    }
+  }
+
+  const store = getFeedbackStore();
+  const cases = store
+    .list({
+      tenantId: values.tenant,
+      rating: "down",
+      from: values.from,
+      to: values.to,
+    })
+    .map(feedbackToEvalCase);
+
+  if (!values.out) {
+    for (const c of cases) console.log(JSON.stringify(c));
+    return 0;
+  }
+
+  const existing = existsSync(values.out)
+    ? await fs.readFile(values.out, "utf8")
+    : "";
+  const seen = caseIds(existing);
+  const fresh = cases.filter((c) => !seen.has(c.id));
+  if (fresh.length > 0) {
+    await fs.mkdir(path.dirname(values.out), { recursive: true });
+    const separator = existing && !existing.endsWith("\n") ? "\n" : "";
+    await fs.appendFile(
+      values.out,
+      separator + fresh.map((c) => JSON.stringify(c)).join("\n") + "\n",
+      "utf8"
+    );
+  }
+  console.error(
+    `Exported ${fresh.length} case(s) to ${values.out} ` +
+      `(${cases.length - fresh.length} already there, ` +
+      `${cases.length} thumbs-down in ${store.filePath})`
+  );
+  return 0;
+}
+
+main()
+  .then((code) => process.exit(code))
+  .catch((err) => {
+    console.error(
+      `feedback export failed: ${err instanceof Error ? err.message : err}`
+    );
+    process.exit(1);
+  });
@@ -0,0 +1,93 @@
+/**
+ * Ingest budget books (PDF, Markdown, CSV/TSV) into the local index used
+ * by RETRIEVER_TYPE=local. Re-running only rebuilds changed files.
+ *
+ *   npm run ingest -- ./budget-books --jurisdiction "City of Springfield"
+ */
+import { parseArgs } from "util";
+import { getConfig } from "../config/index.js";
+import { ingestPaths } from "../ingest/index.js";
+
+const USAGE = `Usage: npm run ingest -- <file-or-directory>... [options]
+
+Options:
+  --index <path>           Index file (default: LOCAL_INDEX_PATH)
+  --root <dir>             Directory document ids are relative to (default: INGEST_ROOT)
+  --jurisdiction <name>    Override the jurisdiction for every document
+  --fiscal-year <year>     Override the fiscal year for every document
+  --department <name>      Override the department for every chunk
+  --fund <name>            Override the fund for every chunk
+  --document-type <type>   Override the document type
+  --max-chars <n>          Target characters per text chunk (default: 1500)
+  --force                  Re-ingest even unchanged files
+  -h, --help               Show this help`;
+
+async function main(): Promise<number> {
+  const { values, positionals } = parseArgs({
+    allowPositionals: true,
+    options: {
+      index: { type: "string" },
+      root: { type: "string" },
+      jurisdiction: { type: "string" },
+      "fiscal-year": { type: "string" },
+      department: { type: "string" },
+      fund: { type: "string" },
+      "document-type": { type: "string" },
+      "max-chars": { type: "string" },
+      force: { type: "boolean", default: false },
+      help: { type: "boolean", short: "h", default: false },
+    },
+  });
+
+  if (values.help || positionals.length === 0) {
+    console.log(USAGE);
+    return values.help ? 0 : 1;
+  }
+
+  const fiscalYear = values["fiscal-year"]
+    ? Number(values["fiscal-year"])
+    : undefined;
+  if (fiscalYear !== undefined && !Number.isInteger(fiscalYear)) {
+    throw new Error(`Invalid --fiscal-year: ${values["fiscal-year"]}`);
+  }
+  const maxChars = values["max-chars"] ? Number(values["max-chars"]) : undefined;
+  if (maxChars !== undefined && !(maxChars > 0)) {
+    throw new Error(`Invalid --max-chars: ${values["max-chars"]}`);
+  }
+
+  const indexPath = values.index ?? getConfig().localIndexPath;
+  console.log(`Ingesting into ${indexPath}`);
+
+  const summary = await ingestPaths(positionals, {
+    indexPath,
+    root: values.root ?? getConfig().ingestRoot,
+    jurisdiction: values.jurisdiction,
+    fiscalYear,
+    department: values.department,
+    fund: values.fund,
+    documentType: values["document-type"],
+    force: values.force,
+    chunkOptions: maxChars ? { maxChars } : undefined,
+  });
+
+  for (const id of summary.added) console.log(`  added      ${id}`);
+  for (const id of summary.updated) console.log(`  updated    ${id}`);
+  for (const id of summary.removed) console.log(`  removed    ${id}`);
+  for (const { path, error } of summary.failed) {
+    console.log(`  FAILED     ${path}: ${error}`);
+  }
+  console.log(
+    `${summary.added.length} added, ${summary.updated.length} updated, ` +
+      `${summary.unchanged.length} unchanged, ${summary.removed.length} removed, ` +
+      `${summary.failed.length} failed (${summary.chunkCount} chunks in index)`
+  );
+
+  return summary.failed.length === 0 ? 0 : 1;
+}
+
+main()
+  .then((code) => process.exit(code))
+  .catch((err) => {
+    console.error(`Ingest failed: ${err instanceof Error ? err.message : err}`);
+    process.exit(1);
+  });
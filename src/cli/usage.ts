@@ -0,0 +1,102 @@
+/**
+ * Report LLM usage and estimated cost from the usage ledger, across
+ * every tenant.
+ *
+ *   npm run usage -- --group-by tenant
+ *   npm run usage -- --group-by question --tenant springfield --limit 10
+ */
+import { parseArgs } from "util";
+import { aggregateUsage, getUsageLedger } from "../accounting/index.js";
+import type { UsageGroupBy } from "../accounting/index.js";
+
+const GROUPS: UsageGroupBy[] = ["day", "thread", "key", "tenant", "question"];
+const DAY_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+const USAGE = `Usage: npm run usage -- [options]
+
+Options:
+  --group-by <field>   day, thread, key, tenant or question (default: day)
+  --tenant <id>        Only this tenant's usage
+  --thread <id>        Only this thread's usage
+  --from <YYYY-MM-DD>  First UTC day included
+  --to <YYYY-MM-DD>    Last UTC day included
+  --limit <n>          Show the n most expensive groups
+  --json               Print JSON instead of a table
+  -h, --help           Show this help`;
+
+function usd(value: number): string {
+  return `$${value.toFixed(4)}`;
+}
+
+async function main(): Promise<number> {
+  const { values } = parseArgs({
+    options: {
+      "group-by": { type: "string", default: "day" },
+      tenant: { type: "string" },
+      thread: { type: "string" },
+      from: { type: "string" },
+      to: { type: "string" },
+      limit: { type: "string" },
+      json: { type: "boolean", default: false },
+      help: { type: "boolean", short: "h", default: false },
+    },
+  });
+
+  if (values.help) {
+    console.log(USAGE);
+    return 0;
+  }
+  const groupBy = values["group-by"] as UsageGroupBy;
+  if (!GROUPS.includes(groupBy)) {
+    throw new Error(`--group-by must be one of ${GROUPS.join(", ")}`);
+  }
+  for (const name of ["from", "to"] as const) {
+    const value = values[name];
+    if (value !== undefined && !DAY_PATTERN.test(value)) {
+      throw new Error(`Invalid --${name}: ${value} (expected YYYY-MM-DD)`);
+    }
+  }
+  const limit = values.limit === undefined ? undefined : Number(values.limit);
+  if (limit !== undefined && (!Number.isInteger(limit) || limit <= 0)) {
+    throw new Error(`Invalid --limit: ${values.limit}`);
+  }
+
+  const ledger = getUsageLedger();
+  const entries = await ledger.read({
+    tenantId: values.tenant,
+    threadId: values.thread,
+    from: values.from,
+    to: values.to,
+  });
+  const { totals, groups } = aggregateUsage(entries, groupBy);
+  const shown = limit ? groups.slice(0, limit) : groups;
+
+  if (values.json) {
+    console.log(JSON.stringify({ groupBy, totals, groups: shown }, null, 2));
+    return 0;
+  }
+  if (entries.length === 0) {
+    console.log(`No usage recorded in ${ledger.filePath}`);
+    return 0;
+  }
+
+  for (const group of shown) {
+    console.log(
+      `${usd(group.costUsd).padStart(10)}  ${String(group.totalTokens).padStart(9)} tokens  ` +
+        `${String(group.requests).padStart(5)} req  ${group.key}`
+    );
+  }
+  console.log(
+    `\n${usd(totals.costUsd)} for ${totals.totalTokens} tokens ` +
+      `(${totals.inputTokens} in, ${totals.outputTokens} out) ` +
+      `over ${totals.requests} requests`
+  );
+  return 0;
+}
+
+main()
+  .then((code) => process.exit(code))
+  .catch((err) => {
+    console.error(`usage failed: ${err instanceof Error ? err.message : err}`);
+    process.exit(1);
+  });
@@ -1,8 +1,15 @@
 import { z } from "zod";
 import dotenv from "dotenv";
+import type { LLMProvider } from "../types/index.js";
 
 dotenv.config();
 
+const LLM_PROVIDERS = ["bedrock", "openai", "anthropic", "mock"] as const;
+
+export const ANSWER_STYLES = ["concise", "detailed", "plain_language"] as const;
+
+export const AGENT_MODES = ["internal", "ai"] as const;
+
 const ConfigSchema = z.object({
   // AWS Configuration
   awsRegion: z.string().default("us-east-1"),
@@ -12,10 +19,24 @@ const ConfigSchema = z.object({
   awsSessionToken: z.string().optional(),
 
   // Bedrock Knowledge Base
-  knowledgeBaseId: z.string().min(1, "KNOWLEDGE_BASE_ID is required"),
+  knowledgeBaseId: z.string().optional(),
+
+  // Multi-tenancy (JSON tenant registry; unset = single tenant from env)
+  tenantsFile: z.string().optional(),
 
   // LLM Configuration
-  llmProvider: z.enum(["bedrock", "openai", "anthropic"]).default("bedrock"),
+  llmProvider: z.enum(LLM_PROVIDERS).default("bedrock"),
+  // Tried in order when the primary provider keeps failing
+  llmFallbackProviders: z.preprocess(
+    (value) =>
+      typeof value === "string"
+        ? value
+            .split(",")
+            .map((provider) => provider.trim())
+            .filter(Boolean)
+        : value,
+    z.array(z.enum(LLM_PROVIDERS)).default([])
+  ),
   bedrockLlmModel: z
     .string()
     .default("anthropic.claude-3-5-sonnet-20241022-v2:0"),
@@ -23,13 +44,69 @@ const ConfigSchema = z.object({
   openaiModel: z.string().default("gpt-4o"),
   anthropicApiKey: z.string().optional(),
   anthropicModel: z.string().default("claude-sonnet-4-20250514"),
+  mockLlmScript: z.string().optional(),
+
+  // Retries and Failover (LLM calls and Bedrock retrieval)
+  retryMaxRetries: z.coerce.number().int().min(0).default(2),
+  retryBaseDelayMs: z.coerce.number().int().min(0).default(500),
+  retryMaxDelayMs: z.coerce.number().int().min(0).default(8000),
+  circuitFailureThreshold: z.coerce.number().int().positive().default(3),
+  circuitCooldownMs: z.coerce.number().int().min(0).default(30000),
+
+  // Prompts & Persona (defaults for tenants without their own persona)
+  promptsDir: z.string().default("./prompts"),
+  promptTemplate: z.string().default("budget-assistant"),
+  aiPromptTemplate: z.string().default("public-finance-assistant"),
+  organizationName: z.string().optional(),
+  fiscalYear: z.string().optional(),
+  answerStyle: z.enum(ANSWER_STYLES).default("detailed"),
 
   // LLM Parameters
   llmTemperature: z.coerce.number().min(0).max(2).default(0),
   llmMaxTokens: z.coerce.number().positive().default(4096),
 
+  // Agent mode of requests that name none
+  agentMode: z.enum(AGENT_MODES).default("internal"),
+
   // RAG Configuration
   retrievalTopK: z.coerce.number().positive().default(5),
+  retrievalMode: z.enum(["single", "multi_query"]).default("single"),
+  multiQueryVariants: z.coerce.number().int().min(1).max(10).default(3),
+  rerankMode: z.enum(["off", "lexical", "llm"]).default("off"),
+  rerankCandidates: z.coerce.number().int().positive().default(20),
+  groundingMode: z.enum(["revise", "flag", "off"]).default("revise"),
+  reviewMode: z.enum(["off", "tools", "answer", "all"]).default("off"),
+
+  // Run Budgets (0 = unlimited; per-request budgets can only tighten these)
+  runMaxIterations: z.coerce.number().int().min(0).default(10),
+  runMaxTokens: z.coerce.number().int().min(0).default(0),
+  runMaxToolCalls: z.coerce.number().int().min(0).default(0),
+  runTimeoutMs: z.coerce.number().int().min(0).default(0),
+
+  // Conversation Memory (history before the current turn)
+  memoryMode: z.enum(["off", "compact", "trim", "summarize"]).default("summarize"),
+  memoryMaxTokens: z.coerce.number().int().positive().default(6000),
+  memoryKeepTurns: z.coerce.number().int().min(0).default(2),
+
+  // Caching (TTL 0 = cache disabled)
+  cacheStore: z.enum(["memory", "file"]).default("memory"),
+  cacheDir: z.string().default("./data/cache"),
+  cacheMaxEntries: z.coerce.number().int().positive().default(1000),
+  retrievalCacheTtlSeconds: z.coerce.number().int().min(0).default(3600),
+  answerCacheTtlSeconds: z.coerce.number().int().min(0).default(0),
+  answerCacheSimilarity: z.coerce.number().min(0).max(1).default(0.9),
+
+  // Usage Accounting
+  usageLedgerFile: z.string().default("./data/usage-ledger.jsonl"),
+  llmPricesFile: z.string().optional(),
+
+  // Answer feedback from users
+  feedbackFile: z.string().default("./data/feedback.json"),
+
+  retrieverType: z.enum(["bedrock", "local"]).default("bedrock"),
+  localIndexPath: z.string().default("./data/local-index.json"),
+  // Document ids of the local index are paths relative to this directory
+  ingestRoot: z.string().default("."),
 
   // LangSmith Tracing
   langchainTracingV2: z.coerce.boolean().default(false),
@@ -44,10 +121,27 @@ const ConfigSchema = z.object({
 
   // Checkpointer
   checkpointerType: z
-    .enum(["memory", "postgres", "redis"])
+    .enum(["memory", "file", "postgres", "redis"])
     .default("memory"),
+  checkpointerFileDir: z.string().default("./data/checkpoints"),
   postgresConnectionString: z.string().optional(),
   redisUrl: z.string().optional(),
+  redisKeyPrefix: z.string().default("openbook:checkpoint"),
+
+  // API Authentication & Limits
+  authMode: z
+    .enum(["none", "api_key", "jwt", "api_key_or_jwt"])
+    .default("none"),
+  authKeysFile: z.string().default("./data/api-keys.json"),
+  authUsageFile: z.string().default("./data/api-usage.json"),
+  authJwtSecret: z.string().optional(),
+  authJwtIssuer: z.string().optional(),
+  authJwtAudience: z.string().optional(),
+  corsOrigins: z.string().default("*"),
+  rateLimitRpm: z.coerce.number().int().min(0).default(60),
+  rateLimitBurst: z.coerce.number().int().positive().default(20),
+  quotaRequestsPerDay: z.coerce.number().int().min(0).default(0),
+  quotaTokensPerDay: z.coerce.number().int().min(0).default(0),
 
   // Application
   port: z.coerce.number().positive().default(3000),
@@ -55,6 +149,11 @@ const ConfigSchema = z.object({
     .enum(["development", "test", "production"])
     .default("development"),
   logLevel: z.enum(["debug", "info", "warn", "error"]).default("info"),
+  logFormat: z.enum(["json", "pretty"]).default("json"),
+  // How user questions and answers appear in logs; unset means "full",
+  // or "truncate" in production
+  logUserContent: z.enum(["full", "truncate", "redact"]).optional(),
+  logContentMaxChars: z.coerce.number().int().positive().default(100),
 });
 
 export type Config = z.infer<typeof ConfigSchema>;
@@ -73,17 +172,61 @@ export function getConfig(): Config {
 
     knowledgeBaseId: process.env.KNOWLEDGE_BASE_ID,
 
+    tenantsFile: process.env.TENANTS_FILE,
+
     llmProvider: process.env.LLM_PROVIDER,
+    llmFallbackProviders: process.env.LLM_FALLBACK_PROVIDERS,
     bedrockLlmModel: process.env.BEDROCK_LLM_MODEL,
     openaiApiKey: process.env.OPENAI_API_KEY,
     openaiModel: process.env.OPENAI_MODEL,
     anthropicApiKey: process.env.ANTHROPIC_API_KEY,
     anthropicModel: process.env.ANTHROPIC_MODEL,
+    mockLlmScript: process.env.MOCK_LLM_SCRIPT,
+
+    retryMaxRetries: process.env.RETRY_MAX_RETRIES,
+    retryBaseDelayMs: process.env.RETRY_BASE_DELAY_MS,
+    retryMaxDelayMs: process.env.RETRY_MAX_DELAY_MS,
+    circuitFailureThreshold: process.env.CIRCUIT_FAILURE_THRESHOLD,
+    circuitCooldownMs: process.env.CIRCUIT_COOLDOWN_MS,
+
+    promptsDir: process.env.PROMPTS_DIR,
+    promptTemplate: process.env.PROMPT_TEMPLATE,
+    aiPromptTemplate: process.env.AI_PROMPT_TEMPLATE,
+    organizationName: process.env.ORGANIZATION_NAME,
+    fiscalYear: process.env.FISCAL_YEAR,
+    answerStyle: process.env.ANSWER_STYLE,
+
+    agentMode: process.env.AGENT_MODE,
 
     llmTemperature: process.env.LLM_TEMPERATURE,
     llmMaxTokens: process.env.LLM_MAX_TOKENS,
 
     retrievalTopK: process.env.RETRIEVAL_TOP_K,
+    retrievalMode: process.env.RETRIEVAL_MODE,
+    multiQueryVariants: process.env.MULTI_QUERY_VARIANTS,
+    rerankMode: process.env.RERANK_MODE,
+    rerankCandidates: process.env.RERANK_CANDIDATES,
+    groundingMode: process.env.GROUNDING_MODE,
+    reviewMode: process.env.REVIEW_MODE,
+    runMaxIterations: process.env.RUN_MAX_ITERATIONS,
+    runMaxTokens: process.env.RUN_MAX_TOKENS,
+    runMaxToolCalls: process.env.RUN_MAX_TOOL_CALLS,
+    runTimeoutMs: process.env.RUN_TIMEOUT_MS,
+    memoryMode: process.env.MEMORY_MODE,
+    memoryMaxTokens: process.env.MEMORY_MAX_TOKENS,
+    memoryKeepTurns: process.env.MEMORY_KEEP_TURNS,
+    cacheStore: process.env.CACHE_STORE,
+    cacheDir: process.env.CACHE_DIR,
+    cacheMaxEntries: process.env.CACHE_MAX_ENTRIES,
+    retrievalCacheTtlSeconds: process.env.RETRIEVAL_CACHE_TTL_SECONDS,
+    answerCacheTtlSeconds: process.env.ANSWER_CACHE_TTL_SECONDS,
+    answerCacheSimilarity: process.env.ANSWER_CACHE_SIMILARITY,
+    usageLedgerFile: process.env.USAGE_LEDGER_FILE,
+    llmPricesFile: process.env.LLM_PRICES_FILE,
+    feedbackFile: process.env.FEEDBACK_FILE,
+    retrieverType: process.env.RETRIEVER_TYPE,
+    localIndexPath: process.env.LOCAL_INDEX_PATH,
+    ingestRoot: process.env.INGEST_ROOT,
 
     langchainTracingV2: process.env.LANGCHAIN_TRACING_V2,
     langsmithApiKey: process.env.LANGSMITH_API_KEY,
@@ -95,12 +238,29 @@ export function getConfig(): Config {
     arizeProjectName: process.env.ARIZE_PROJECT_NAME,
 
     checkpointerType: process.env.CHECKPOINTER_TYPE,
+    checkpointerFileDir: process.env.CHECKPOINTER_FILE_DIR,
     postgresConnectionString: process.env.POSTGRES_CONNECTION_STRING,
     redisUrl: process.env.REDIS_URL,
+    redisKeyPrefix: process.env.REDIS_KEY_PREFIX,
+
+    authMode: process.env.AUTH_MODE,
+    authKeysFile: process.env.AUTH_KEYS_FILE,
+    authUsageFile: process.env.AUTH_USAGE_FILE,
+    authJwtSecret: process.env.AUTH_JWT_SECRET,
+    authJwtIssuer: process.env.AUTH_JWT_ISSUER,
+    authJwtAudience: process.env.AUTH_JWT_AUDIENCE,
+    corsOrigins: process.env.CORS_ORIGINS,
+    rateLimitRpm: process.env.RATE_LIMIT_RPM,
+    rateLimitBurst: process.env.RATE_LIMIT_BURST,
+    quotaRequestsPerDay: process.env.QUOTA_REQUESTS_PER_DAY,
+    quotaTokensPerDay: process.env.QUOTA_TOKENS_PER_DAY,
 
     port: process.env.PORT,
     nodeEnv: process.env.NODE_ENV,
     logLevel: process.env.LOG_LEVEL,
+    logFormat: process.env.LOG_FORMAT,
+    logUserContent: process.env.LOG_USER_CONTENT,
+    logContentMaxChars: process.env.LOG_CONTENT_MAX_CHARS,
   };
 
   _cachedConfig = ConfigSchema.parse(raw);
@@ -111,29 +271,81 @@ export function resetConfig(): void {
   _cachedConfig = null;
 }
 
+/** The primary LLM provider followed by its fallbacks, without repeats. */
+export function llmProviderChain(): LLMProvider[] {
+  const config = getConfig();
+  return [
+    ...new Set([config.llmProvider, ...config.llmFallbackProviders]),
+  ];
+}
+
 export function validateLlmConfig(): void {
   const config = getConfig();
-  switch (config.llmProvider) {
-    case "bedrock":
-      // Bedrock uses IAM credentials (env vars or instance profile)
-      break;
-    case "openai":
-      if (!config.openaiApiKey) {
+  for (const provider of llmProviderChain()) {
+    switch (provider) {
+      case "bedrock":
+        // Bedrock uses IAM credentials (env vars or instance profile)
+        break;
+      case "openai":
+        if (!config.openaiApiKey) {
+          throw new Error(
+            "OPENAI_API_KEY is required when LLM_PROVIDER or LLM_FALLBACK_PROVIDERS includes openai"
+          );
+        }
+        break;
+      case "anthropic":
+        if (!config.anthropicApiKey) {
+          throw new Error(
+            "ANTHROPIC_API_KEY is required when LLM_PROVIDER or LLM_FALLBACK_PROVIDERS includes anthropic"
+          );
+        }
+        break;
+      case "mock":
+        // Scripted responses; MOCK_LLM_SCRIPT is optional
+        break;
+    }
+  }
+}
+
+export function validateRetrieverConfig(): void {
+  const config = getConfig();
+  // With a tenant registry each tenant names its own Knowledge Base
+  if (
+    config.retrieverType === "bedrock" &&
+    !config.knowledgeBaseId &&
+    !config.tenantsFile
+  ) {
+    throw new Error(
+      "KNOWLEDGE_BASE_ID is required when RETRIEVER_TYPE=bedrock"
+    );
+  }
+}
+
+export function validateCheckpointerConfig(): void {
+  const config = getConfig();
+  switch (config.checkpointerType) {
+    case "postgres":
+      if (!config.postgresConnectionString) {
         throw new Error(
-          "OPENAI_API_KEY is required when LLM_PROVIDER=openai"
+          "POSTGRES_CONNECTION_STRING is required when CHECKPOINTER_TYPE=postgres"
         );
       }
       break;
-    case "anthropic":
-      if (!config.anthropicApiKey) {
-        throw new Error(
-          "ANTHROPIC_API_KEY is required when LLM_PROVIDER=anthropic"
-        );
+    case "redis":
+      if (!config.redisUrl) {
+        throw new Error("REDIS_URL is required when CHECKPOINTER_TYPE=redis");
       }
       break;
   }
 }
 
+export function validateAuthConfig(): void {
+  const config = getConfig();
+  if (config.authMode.includes("jwt") && !config.authJwtSecret) {
+    throw new Error(`AUTH_JWT_SECRET is required when AUTH_MODE=${config.authMode}`);
+  }
+}
+
 export function isDevelopment(): boolean {
   return getConfig().nodeEnv === "development";
 }
@@ -146,17 +358,106 @@ export function isTest(): boolean {
   return getConfig().nodeEnv === "test";
 }
 
-export function logConfigSummary(): void {
+/** How user content appears in logs: LOG_USER_CONTENT, else by NODE_ENV. */
+export function logUserContentMode(): "full" | "truncate" | "redact" {
+  return getConfig().logUserContent ?? (isProduction() ? "truncate" : "full");
+}
+
+/**
+ * The settings worth checking at startup, as log fields. Holds no
+ * secrets; `logConfigSummary` writes it.
+ */
+export function configSummary(): Record<string, unknown> {
   const config = getConfig();
-  console.log("=== Configuration Summary ===");
-  console.log(`  Environment: ${config.nodeEnv}`);
-  console.log(`  AWS Region: ${config.awsRegion}`);
-  console.log(`  AWS Profile: ${config.awsProfile ?? "(default)"}`);
-  console.log(`  Knowledge Base ID: ${config.knowledgeBaseId}`);
-  console.log(`  LLM Provider: ${config.llmProvider}`);
-  console.log(`  Retrieval Top-K: ${config.retrievalTopK}`);
-  console.log(`  Tracing: ${config.langchainTracingV2}`);
-  console.log(`  Arize AX: ${config.arizeEnabled}`);
-  console.log(`  Server Port: ${config.port}`);
-  console.log("=============================");
+  const memoryLimited =
+    config.memoryMode === "trim" || config.memoryMode === "summarize";
+  return {
+    environment: config.nodeEnv,
+    awsRegion: config.awsRegion,
+    awsProfile: config.awsProfile ?? "(default)",
+    retriever: config.retrieverType,
+    ...(config.tenantsFile
+      ? { tenantsFile: config.tenantsFile }
+      : config.retrieverType === "local"
+        ? { localIndexPath: config.localIndexPath, ingestRoot: config.ingestRoot }
+        : { knowledgeBaseId: config.knowledgeBaseId }),
+    llmProvider: config.llmProvider,
+    llmFallbackProviders: config.llmFallbackProviders,
+    retries: {
+      maxRetries: config.retryMaxRetries,
+      baseDelayMs: config.retryBaseDelayMs,
+      maxDelayMs: config.retryMaxDelayMs,
+    },
+    circuit: {
+      failureThreshold: config.circuitFailureThreshold,
+      cooldownMs: config.circuitCooldownMs,
+    },
+    ...(config.llmProvider === "mock" && {
+      mockScript: config.mockLlmScript ?? "(built-in)",
+    }),
+    prompt: {
+      template: config.promptTemplate,
+      answerStyle: config.answerStyle,
+      dir: config.promptsDir,
+    },
+    agentMode: config.agentMode,
+    aiPromptTemplate: config.aiPromptTemplate,
+    retrieval: {
+      topK: config.retrievalTopK,
+      mode: config.retrievalMode,
+      ...(config.retrievalMode === "multi_query" && {
+        variants: config.multiQueryVariants,
+      }),
+    },
+    rerank: {
+      mode: config.rerankMode,
+      ...(config.rerankMode !== "off" && {
+        candidates: config.rerankCandidates,
+      }),
+    },
+    groundingMode: config.groundingMode,
+    reviewMode: config.reviewMode,
+    // 0 means no limit
+    runBudget: {
+      maxIterations: config.runMaxIterations,
+      maxTokens: config.runMaxTokens,
+      maxToolCalls: config.runMaxToolCalls,
+      timeoutMs: config.runTimeoutMs,
+    },
+    memory: {
+      mode: config.memoryMode,
+      ...(memoryLimited && {
+        maxTokens: config.memoryMaxTokens,
+        keepTurns: config.memoryKeepTurns,
+      }),
+    },
+    cache: {
+      store: config.cacheStore,
+      retrievalTtlSeconds: config.retrievalCacheTtlSeconds,
+      answerTtlSeconds: config.answerCacheTtlSeconds,
+      ...(config.answerCacheTtlSeconds > 0 && {
+        answerSimilarity: config.answerCacheSimilarity,
+      }),
+    },
+    langchainTracing: config.langchainTracingV2,
+    arize: config.arizeEnabled,
+    checkpointer: config.checkpointerType,
+    auth: {
+      mode: config.authMode,
+      ...(config.authMode !== "none" && {
+        rateLimitRpm: config.rateLimitRpm,
+        rateLimitBurst: config.rateLimitBurst,
+      }),
+    },
+    corsOrigins: config.corsOrigins,
+    port: config.port,
+    logging: {
+      level: config.logLevel,
+      format: config.logFormat,
+      userContent: logUserContentMode(),
+      ...(logUserContentMode() === "truncate" && {
+        contentMaxChars: config.logContentMaxChars,
+      }),
+    },
+  };
 }
@@ -0,0 +1,57 @@
+import { promises as fs } from "fs";
+
+/**
+ * One line of a golden set (JSONL):
+ *
+ *   {"id": "gf-revenue", "question": "What is total General Fund revenue in FY2025?",
+ *    "expectedFigures": ["$412.5 million"], "expectedSources": ["fy2025-budget.pdf"]}
+ */
+export interface EvalCase {
+  id: string;
+  question: string;
+  /** Figures the answer must state, e.g. "$1,250,000", "12.3M", "4.5%". */
+  expectedFigures: string[];
+  /** Substrings of the source URI or title that retrieval should surface. */
+  expectedSources: string[];
+  tags?: string[];
+}
+
+/** Load and validate a JSONL golden set. Blank lines and `//` comments are skipped. */
+export async function loadEvalCases(filePath: string): Promise<EvalCase[]> {
+  const text = await fs.readFile(filePath, "utf8");
+  const cases: EvalCase[] = [];
+  const ids = new Set<string>();
+
+  text.split(/\r?\n/).forEach((line, i) => {
+    const trimmed = line.trim();
+    if (!trimmed || trimmed.startsWith("//")) return;
+
+    const where = `${filePath}:${i + 1}`;
+    let raw: Partial<EvalCase>;
+    try {
+      raw = JSON.parse(trimmed) as Partial<EvalCase>;
+    } catch (err) {
+      throw new Error(
+        `${where}: invalid JSON (${err instanceof Error ? err.message : err})`
+      );
+    }
+
+    if (typeof raw.question !== "string" || !raw.question.trim()) {
+      throw new Error(`${where}: "question" is required`);
+    }
+    const id = raw.id ?? `case-${cases.length + 1}`;
+    if (ids.has(id)) throw new Error(`${where}: duplicate id "${id}"`);
+    ids.add(id);
+
+    cases.push({
+      id,
+      question: raw.question,
+      expectedFigures: (raw.expectedFigures ?? []).map(String),
+      expectedSources: raw.expectedSources ?? [],
+      tags: raw.tags,
+    });
+  });
+
+  if (cases.length === 0) throw new Error(`${filePath}: no eval cases found`);
+  return cases;
+}
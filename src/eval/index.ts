@@ -0,0 +1,30 @@
+export { loadEvalCases } from "./dataset.js";
+export type { EvalCase } from "./dataset.js";
+export {
+  runEval,
+  runEvalCase,
+  summarize,
+  summarizeByPromptVersion,
+} from "./runner.js";
+export type {
+  EvalCaseResult,
+  EvalOptions,
+  EvalReport,
+  EvalSummary,
+} from "./runner.js";
+export {
+  scoreFaithfulness,
+  scoreFigures,
+  scoreRetrievalRecall,
+} from "./scoring.js";
+export {
+  compareToBaseline,
+  renderMarkdownReport,
+  DEFAULT_THRESHOLDS,
+} from "./report.js";
+export type {
+  BaselineComparison,
+  CaseChange,
+  MetricDelta,
+  RegressionThresholds,
+} from "./report.js";
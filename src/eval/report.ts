@@ -0,0 +1,214 @@
+import type { EvalCaseResult, EvalReport, EvalSummary } from "./runner.js";
+
+// ── Baseline Comparison ─────────────────────────────────────────────
+
+export interface RegressionThresholds {
+  /** Allowed absolute drop in a 0–1 score (recall, figures, faithfulness). */
+  score: number;
+  /** Allowed relative increase in median latency (0.5 = 50% slower). */
+  latency: number;
+  /** Allowed absolute increase in mean tool calls per case. */
+  toolCalls: number;
+}
+
+export const DEFAULT_THRESHOLDS: RegressionThresholds = {
+  score: 0.02,
+  latency: 0.5,
+  toolCalls: 0.5,
+};
+
+export interface MetricDelta {
+  metric: keyof EvalSummary;
+  baseline: number | null;
+  current: number | null;
+  regressed: boolean;
+}
+
+export interface CaseChange {
+  id: string;
+  metric: "retrievalRecall" | "figureAccuracy" | "faithfulness";
+  baseline: number | null;
+  current: number | null;
+}
+
+export interface BaselineComparison {
+  metrics: MetricDelta[];
+  /** Per-case score drops, for triage. They don't fail the run on their own. */
+  caseChanges: CaseChange[];
+  /** Cases that passed in the baseline and now error. */
+  newErrors: string[];
+  regressed: boolean;
+}
+
+const SCORE_METRICS = ["retrievalRecall", "figureAccuracy", "faithfulness"] as const;
+
+/**
+ * Compare a report against a saved baseline. Aggregate scores, median
+ * latency, mean tool calls and new errors can fail the run; per-case
+ * drops are listed but tolerated since LLM answers vary run to run.
+ */
+export function compareToBaseline(
+  current: EvalReport,
+  baseline: EvalReport,
+  thresholds: RegressionThresholds = DEFAULT_THRESHOLDS
+): BaselineComparison {
+  const metrics: MetricDelta[] = [];
+  const now = current.summary;
+  const then = baseline.summary;
+
+  for (const metric of SCORE_METRICS) {
+    const regressed =
+      then[metric] !== null &&
+      (now[metric] ?? 0) < then[metric]! - thresholds.score;
+    metrics.push({ metric, baseline: then[metric], current: now[metric], regressed });
+  }
+  metrics.push({
+    metric: "latencyMsP50",
+    baseline: then.latencyMsP50,
+    current: now.latencyMsP50,
+    regressed: now.latencyMsP50 > then.latencyMsP50 * (1 + thresholds.latency),
+  });
+  metrics.push({
+    metric: "toolCallsMean",
+    baseline: then.toolCallsMean,
+    current: now.toolCallsMean,
+    regressed: now.toolCallsMean > then.toolCallsMean + thresholds.toolCalls,
+  });
+  metrics.push({
+    metric: "errors",
+    baseline: then.errors,
+    current: now.errors,
+    regressed: now.errors > then.errors,
+  });
+
+  const previous = new Map(baseline.cases.map((c) => [c.id, c]));
+  const caseChanges: CaseChange[] = [];
+  const newErrors: string[] = [];
+
+  for (const result of current.cases) {
+    const before = previous.get(result.id);
+    if (!before) continue;
+    if (result.error && !before.error) newErrors.push(result.id);
+    for (const metric of SCORE_METRICS) {
+      const was = before[metric];
+      const is = result[metric];
+      if (was !== null && (is ?? 0) < was - thresholds.score) {
+        caseChanges.push({ id: result.id, metric, baseline: was, current: is });
+      }
+    }
+  }
+
+  return {
+    metrics,
+    caseChanges,
+    newErrors,
+    regressed: metrics.some((m) => m.regressed) || newErrors.length > 0,
+  };
+}
+
+// ── Markdown ────────────────────────────────────────────────────────
+
+function fmt(value: number | null | undefined): string {
+  return value === null || value === undefined ? "—" : String(value);
+}
+
+function caseRow(result: EvalCaseResult): string {
+  const notes = result.error
+    ? `error: ${result.error}`
+    : [
+        result.missingSources.length
+          ? `missing sources: ${result.missingSources.join(", ")}`
+          : "",
+        result.missingFigures.length
+          ? `missing figures: ${result.missingFigures.join(", ")}`
+          : "",
+        result.unsupportedClaims.length
+          ? `${result.unsupportedClaims.length} unsupported claim(s)`
+          : "",
+      ]
+        .filter(Boolean)
+        .join("; ");
+
+  return `| ${result.id} | ${fmt(result.retrievalRecall)} | ${fmt(result.figureAccuracy)} | ${result.faithfulness} | ${result.latencyMs} | ${result.toolCalls} | ${notes.replace(/\|/g, "\\|")} |`;
+}
+
+/** Render a report (and optional baseline comparison) as Markdown. */
+export function renderMarkdownReport(
+  report: EvalReport,
+  comparison?: BaselineComparison
+): string {
+  const { summary, settings } = report;
+  const lines = [
+    `# RAG Evaluation: ${report.dataset}`,
+    "",
+    `- Generated: ${report.generatedAt}`,
+    `- LLM: ${settings.llmProvider} (${settings.model})`,
+    `- Retriever: ${settings.retrieverType}, top-k ${settings.retrievalTopK}`,
+    `- Prompt: ${settings.prompt ?? "(not recorded)"}`,
+    "",
+    "## Summary",
+    "",
+    "| Metric | Value |",
+    "|--------|-------|",
+    `| Cases | ${summary.cases} |`,
+    `| Errors | ${summary.errors} |`,
+    `| Retrieval recall | ${fmt(summary.retrievalRecall)} |`,
+    `| Figure exact-match | ${fmt(summary.figureAccuracy)} |`,
+    `| Faithfulness | ${summary.faithfulness} |`,
+    `| Latency mean / p50 / p95 (ms) | ${summary.latencyMsMean} / ${summary.latencyMsP50} / ${summary.latencyMsP95} |`,
+    `| Tool calls per case | ${summary.toolCallsMean} |`,
+  ];
+
+  if (comparison) {
+    lines.push(
+      "",
+      "## Baseline Comparison",
+      "",
+      comparison.regressed ? "**Regressed.**" : "No regressions.",
+      "",
+      "| Metric | Baseline | Current | |",
+      "|--------|----------|---------|---|"
+    );
+    for (const m of comparison.metrics) {
+      lines.push(
+        `| ${m.metric} | ${fmt(m.baseline)} | ${fmt(m.current)} | ${m.regressed ? "REGRESSED" : ""} |`
+      );
+    }
+    if (comparison.newErrors.length) {
+      lines.push("", `New errors: ${comparison.newErrors.join(", ")}`);
+    }
+    if (comparison.caseChanges.length) {
+      lines.push("", "Per-case drops:", "");
+      for (const c of comparison.caseChanges) {
+        lines.push(`- ${c.id}: ${c.metric} ${fmt(c.baseline)} → ${fmt(c.current)}`);
+      }
+    }
+  }
+
+  // Reports written before prompt versions were recorded have none
+  const versions = Object.entries(report.promptVersions ?? {});
+  if (versions.length > 1) {
+    lines.push(
+      "",
+      "## By Prompt Version",
+      "",
+      "| Version | Cases | Errors | Recall | Figures | Faithfulness | Latency p50 (ms) | Tool calls |",
+      "|---------|-------|--------|--------|---------|--------------|------------------|------------|",
+      ...versions.map(
+        ([version, v]) =>
+          `| ${version} | ${v.cases} | ${v.errors} | ${fmt(v.retrievalRecall)} | ${fmt(v.figureAccuracy)} | ${v.faithfulness} | ${v.latencyMsP50} | ${v.toolCallsMean} |`
+      )
+    );
+  }
+
+  lines.push(
+    "",
+    "## Cases",
+    "",
+    "| Case | Recall | Figures | Faithfulness | Latency (ms) | Tool calls | Notes |",
+    "|------|--------|---------|--------------|--------------|------------|-------|",
+    ...report.cases.map(caseRow),
+    ""
+  );
+  return lines.join("\n");
+}
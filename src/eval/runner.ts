@@ -0,0 +1,248 @@
+import type { AIMessage } from "@langchain/core/messages";
+import { runAgentTurn } from "../agents/rag-agent.js";
+import { collectRetrievedChunks, resolveCitations } from "../agents/citations.js";
+import { generateThreadId } from "../checkpointers/index.js";
+import { getConfig } from "../config/index.js";
+import { defaultTenantId, getTenant } from "../tenants/index.js";
+import { logger, splitThinking } from "../utils/index.js";
+import type { EvalCase } from "./dataset.js";
+import {
+  scoreFaithfulness,
+  scoreFigures,
+  scoreRetrievalRecall,
+} from "./scoring.js";
+
+// ── Report Types ────────────────────────────────────────────────────
+
+export interface EvalCaseResult {
+  id: string;
+  question: string;
+  /** Prompt template the case ran with, e.g. `budget-assistant@2`. */
+  promptVersion: string | null;
+  /** Final answer with thinking and citation markers removed. */
+  answer: string;
+  latencyMs: number;
+  toolCalls: number;
+  retrievedSources: string[];
+  /** Null when the case has nothing to score for the metric. */
+  retrievalRecall: number | null;
+  figureAccuracy: number | null;
+  faithfulness: number;
+  missingSources: string[];
+  missingFigures: string[];
+  unsupportedClaims: string[];
+  error?: string;
+}
+
+export interface EvalSummary {
+  cases: number;
+  errors: number;
+  retrievalRecall: number | null;
+  figureAccuracy: number | null;
+  faithfulness: number;
+  latencyMsMean: number;
+  latencyMsP50: number;
+  latencyMsP95: number;
+  toolCallsMean: number;
+}
+
+export interface EvalReport {
+  dataset: string;
+  generatedAt: string;
+  settings: {
+    llmProvider: string;
+    model: string;
+    retrieverType: string;
+    retrievalTopK: number;
+    /** Prompt selection the cases ran with (`--prompt` or the default). */
+    prompt: string;
+  };
+  summary: EvalSummary;
+  /** Summary per prompt version, to compare the variants of an A/B split. */
+  promptVersions: Record<string, EvalSummary>;
+  cases: EvalCaseResult[];
+}
+
+export interface EvalOptions {
+  /** Prompt template or weighted split (default: the default tenant's persona). */
+  prompt?: string;
+}
+
+// ── Running ─────────────────────────────────────────────────────────
+
+function round(value: number): number {
+  return Math.round(value * 1000) / 1000;
+}
+
+function mean(values: number[]): number {
+  return values.length ? values.reduce((a, b) => a + b, 0) / values.length : 0;
+}
+
+function percentile(values: number[], p: number): number {
+  if (values.length === 0) return 0;
+  const sorted = [...values].sort((a, b) => a - b);
+  return sorted[Math.min(sorted.length - 1, Math.ceil(p * sorted.length) - 1)];
+}
+
+function modelName(): string {
+  const config = getConfig();
+  switch (config.llmProvider) {
+    case "bedrock":
+      return config.bedrockLlmModel;
+    case "openai":
+      return config.openaiModel;
+    case "anthropic":
+      return config.anthropicModel;
+    case "mock":
+      return config.mockLlmScript ?? "built-in script";
+  }
+}
+
+/** Run one golden case through the agent on a fresh thread and score it. */
+export async function runEvalCase(
+  testCase: EvalCase,
+  options: EvalOptions = {}
+): Promise<EvalCaseResult> {
+  const started = Date.now();
+  try {
+    const turn = await runAgentTurn({
+      query: testCase.question,
+      threadId: generateThreadId(),
+      prompt: options.prompt,
+    });
+    const latencyMs = Date.now() - started;
+
+    const { content } = splitThinking(turn.response);
+    const answer = resolveCitations(content, turn.turnMessages)
+      .content.replace(/\[\d+\]/g, "")
+      .trim();
+    const chunks = [...collectRetrievedChunks(turn.turnMessages).values()];
+    const toolCalls = turn.turnMessages
+      .filter((m) => m._getType() === "ai")
+      .reduce((n, m) => n + ((m as AIMessage).tool_calls?.length ?? 0), 0);
+
+    const recall = scoreRetrievalRecall(testCase, chunks);
+    const figures = scoreFigures(testCase, answer);
+    const faithfulness = scoreFaithfulness(answer, chunks);
+
+    return {
+      id: testCase.id,
+      question: testCase.question,
+      promptVersion: turn.state.promptVersion,
+      answer,
+      latencyMs,
+      toolCalls,
+      retrievedSources: [
+        ...new Set(chunks.map((c) => c.source?.uri ?? c.source?.title ?? "")),
+      ].filter(Boolean),
+      retrievalRecall: recall.score === null ? null : round(recall.score),
+      figureAccuracy: figures.score === null ? null : round(figures.score),
+      faithfulness: round(faithfulness.score),
+      missingSources: recall.missing,
+      missingFigures: figures.missing,
+      unsupportedClaims: faithfulness.unsupported,
+    };
+  } catch (err) {
+    const message = err instanceof Error ? err.message : String(err);
+    logger.error(`Eval case ${testCase.id} failed`, { error: message });
+    return {
+      id: testCase.id,
+      question: testCase.question,
+      promptVersion: null,
+      answer: "",
+      latencyMs: Date.now() - started,
+      toolCalls: 0,
+      retrievedSources: [],
+      retrievalRecall: testCase.expectedSources.length ? 0 : null,
+      figureAccuracy: testCase.expectedFigures.length ? 0 : null,
+      faithfulness: 0,
+      missingSources: testCase.expectedSources,
+      missingFigures: testCase.expectedFigures,
+      unsupportedClaims: [],
+      error: message,
+    };
+  }
+}
+
+export function summarize(results: EvalCaseResult[]): EvalSummary {
+  const scored = (pick: (r: EvalCaseResult) => number | null) => {
+    const values = results
+      .map(pick)
+      .filter((v): v is number => v !== null);
+    return values.length ? round(mean(values)) : null;
+  };
+  const latencies = results.map((r) => r.latencyMs);
+
+  return {
+    cases: results.length,
+    errors: results.filter((r) => r.error).length,
+    retrievalRecall: scored((r) => r.retrievalRecall),
+    figureAccuracy: scored((r) => r.figureAccuracy),
+    faithfulness: round(mean(results.map((r) => r.faithfulness))),
+    latencyMsMean: Math.round(mean(latencies)),
+    latencyMsP50: percentile(latencies, 0.5),
+    latencyMsP95: percentile(latencies, 0.95),
+    toolCallsMean: round(mean(results.map((r) => r.toolCalls))),
+  };
+}
+
+/** Summaries of the cases run with each prompt version. */
+export function summarizeByPromptVersion(
+  results: EvalCaseResult[]
+): Record<string, EvalSummary> {
+  const groups = new Map<string, EvalCaseResult[]>();
+  for (const result of results) {
+    if (!result.promptVersion) continue;
+    const group = groups.get(result.promptVersion) ?? [];
+    group.push(result);
+    groups.set(result.promptVersion, group);
+  }
+  return Object.fromEntries(
+    [...groups.entries()]
+      .sort(([a], [b]) => a.localeCompare(b))
+      .map(([version, group]) => [version, summarize(group)])
+  );
+}
+
+/** The prompt selection of the tenant eval cases run as. */
+function defaultPrompt(): string {
+  return (
+    getTenant(defaultTenantId())?.persona.prompt ?? getConfig().promptTemplate
+  );
+}
+
+/**
+ * Run every case sequentially (so latency numbers aren't skewed by
+ * contention) and build a report. Cases are sorted by id so reports
+ * diff cleanly between runs.
+ */
+export async function runEval(
+  dataset: string,
+  cases: EvalCase[],
+  onResult?: (result: EvalCaseResult) => void,
+  options: EvalOptions = {}
+): Promise<EvalReport> {
+  const config = getConfig();
+  const results: EvalCaseResult[] = [];
+  for (const testCase of cases) {
+    const result = await runEvalCase(testCase, options);
+    results.push(result);
+    onResult?.(result);
+  }
+  results.sort((a, b) => a.id.localeCompare(b.id));
+
+  return {
+    dataset,
+    generatedAt: new Date().toISOString(),
+    settings: {
+      llmProvider: config.llmProvider,
+      model: modelName(),
+      retrieverType: config.retrieverType,
+      retrievalTopK: config.retrievalTopK,
+      prompt: options.prompt ?? defaultPrompt(),
+    },
+    summary: summarize(results),
+    promptVersions: summarizeByPromptVersion(results),
+    cases: results,
+  };
+}
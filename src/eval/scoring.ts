@@ -0,0 +1,102 @@
+import type { RetrievedChunk } from "../types/index.js";
+import { tokenize } from "../retrievers/index.js";
+import {
+  extractFigures,
+  parseFigure,
+  sameFigure,
+  supportsFigure,
+} from "../utils/index.js";
+import type { EvalCase } from "./dataset.js";
+
+/** Share of answer tokens that must appear in retrieved text for a claim to count as supported. */
+const SUPPORT_TOKEN_RATIO = 0.6;
+
+/** Claims shorter than this (in content tokens) are connective text and not scored. */
+const MIN_CLAIM_TOKENS = 3;
+
+// ── Retrieval ───────────────────────────────────────────────────────
+
+/**
+ * Fraction of expected sources that appear among the retrieved chunks,
+ * matched case-insensitively against each chunk's source URI and
+ * title. Null when the case lists no expected sources.
+ */
+export function scoreRetrievalRecall(
+  testCase: EvalCase,
+  chunks: RetrievedChunk[]
+): { score: number | null; missing: string[] } {
+  if (testCase.expectedSources.length === 0) return { score: null, missing: [] };
+
+  const haystacks = chunks.map((chunk) =>
+    `${chunk.source?.uri ?? ""}\n${chunk.source?.title ?? ""}`.toLowerCase()
+  );
+  const missing = testCase.expectedSources.filter(
+    (source) => !haystacks.some((h) => h.includes(source.toLowerCase()))
+  );
+  return {
+    score: 1 - missing.length / testCase.expectedSources.length,
+    missing,
+  };
+}
+
+// ── Figures ─────────────────────────────────────────────────────────
+
+/**
+ * Fraction of expected figures stated exactly in the answer (after
+ * normalizing currency, separators and scale words). Null when the case
+ * lists no expected figures.
+ */
+export function scoreFigures(
+  testCase: EvalCase,
+  answer: string
+): { score: number | null; missing: string[] } {
+  if (testCase.expectedFigures.length === 0) return { score: null, missing: [] };
+
+  const stated = extractFigures(answer);
+  const missing = testCase.expectedFigures.filter((expected) => {
+    const figure = parseFigure(expected);
+    return !figure || !stated.some((f) => sameFigure(f, figure));
+  });
+  return {
+    score: 1 - missing.length / testCase.expectedFigures.length,
+    missing,
+  };
+}
+
+// ── Faithfulness ────────────────────────────────────────────────────
+
+function splitClaims(answer: string): string[] {
+  return answer
+    .split(/\n+|(?<=[.!?])\s+(?=[A-Z*#-])/)
+    .map((claim) => claim.trim())
+    .filter((claim) => tokenize(claim).length >= MIN_CLAIM_TOKENS);
+}
+
+/**
+ * Share of the answer's claims (sentences and list items) supported by
+ * the retrieved chunks. A claim is supported when every figure in it
+ * appears in the chunks and most of its words do too. An answer with no
+ * scorable claims scores 1; claims made with nothing retrieved score 0.
+ */
+export function scoreFaithfulness(
+  answer: string,
+  chunks: RetrievedChunk[]
+): { score: number; unsupported: string[] } {
+  const claims = splitClaims(answer);
+  if (claims.length === 0) return { score: 1, unsupported: [] };
+
+  const context = chunks.map((chunk) => chunk.text).join("\n");
+  const vocabulary = new Set(tokenize(context));
+  const contextFigures = extractFigures(context);
+
+  const unsupported = claims.filter((claim) => {
+    const figuresOk = extractFigures(claim).every((figure) =>
+      contextFigures.some((f) => supportsFigure(f, figure))
+    );
+    const tokens = tokenize(claim);
+    const covered = tokens.filter((t) => vocabulary.has(t)).length;
+    return !figuresOk || covered / tokens.length < SUPPORT_TOKEN_RATIO;
+  });
+
+  return { score: 1 - unsupported.length / claims.length, unsupported };
+}
@@ -0,0 +1,62 @@
+import { extractFigures } from "../utils/index.js";
+import type { EvalCase } from "../eval/index.js";
+import type { FeedbackEntry } from "./store.js";
+
+// ── Golden Set Export ───────────────────────────────────────────────
+
+/**
+ * A golden set case built from negative feedback. The extra `feedback`
+ * field is ignored by the eval runner; it keeps what a curator needs to
+ * finish the case (e.g. add `expectedSources`).
+ */
+export interface FeedbackEvalCase extends EvalCase {
+  feedback: {
+    feedbackId: string;
+    tenantId: string;
+    threadId: string;
+    messageId: string;
+    comment?: string;
+    answer: string;
+    correctedAnswer?: string;
+    /** URI or title of the citation the user flagged as wrong. */
+    flaggedSource?: string;
+    /** URIs or titles the rated answer cited. */
+    citedSources: string[];
+    promptVersion: string | null;
+  };
+}
+
+/**
+ * Turn a thumbs-down into a golden set case. `expectedFigures` are the
+ * currency amounts and percentages of the corrected answer, if the user
+ * gave one; `expectedSources` is left for the curator, since the
+ * sources the wrong answer cited may be part of the problem.
+ */
+export function feedbackToEvalCase(entry: FeedbackEntry): FeedbackEvalCase {
+  const figures = extractFigures(entry.correctedAnswer ?? "")
+    .filter((f) => f.kind !== "number")
+    .map((f) => f.raw.trim());
+  const source = (c: { uri?: string; title?: string }) => c.uri ?? c.title;
+
+  return {
+    id: `feedback-${entry.id.replace(/^fb_/, "")}`,
+    question: entry.question,
+    expectedFigures: [...new Set(figures)],
+    expectedSources: [],
+    tags: ["feedback", entry.mode],
+    feedback: {
+      feedbackId: entry.id,
+      tenantId: entry.tenantId,
+      threadId: entry.threadId,
+      messageId: entry.messageId,
+      comment: entry.comment,
+      answer: entry.answer,
+      correctedAnswer: entry.correctedAnswer,
+      flaggedSource: entry.flaggedCitation && source(entry.flaggedCitation),
+      citedSources: entry.citations
+        .map(source)
+        .filter((s): s is string => Boolean(s)),
+      promptVersion: entry.promptVersion,
+    },
+  };
+}
@@ -0,0 +1,16 @@
+export {
+  FEEDBACK_RATINGS,
+  FeedbackStore,
+  feedbackId,
+  feedbackRequestSchema,
+  getFeedbackStore,
+} from "./store.js";
+export type {
+  FeedbackEntry,
+  FeedbackQuery,
+  FeedbackRating,
+  FeedbackRequest,
+} from "./store.js";
+export { feedbackToEvalCase } from "./golden.js";
+export type { FeedbackEvalCase } from "./golden.js";
+export { annotateFeedback } from "./tracing.js";
@@ -0,0 +1,151 @@
+import { readFileSync, promises as fs } from "fs";
+import { createHash } from "crypto";
+import path from "path";
+import { z } from "zod";
+import { getConfig } from "../config/index.js";
+import { logger } from "../utils/index.js";
+import type { AgentMode, Citation } from "../types/index.js";
+
+// ── Feedback Entries ────────────────────────────────────────────────
+
+export const FEEDBACK_RATINGS = ["up", "down"] as const;
+
+export type FeedbackRating = (typeof FEEDBACK_RATINGS)[number];
+
+/**
+ * Body of `POST /api/feedback`. `flaggedCitation` names a citation of
+ * the answer the user says is wrong: its marker (`c:1a2b3c4d`) or its
+ * footnote number.
+ */
+export const feedbackRequestSchema = z.object({
+  threadId: z.string().min(1),
+  messageId: z.string().min(1).max(200),
+  rating: z.enum(FEEDBACK_RATINGS),
+  comment: z.string().max(2000).optional(),
+  correctedAnswer: z.string().max(10000).optional(),
+  flaggedCitation: z
+    .union([
+      z.string().regex(/^c:[0-9a-f]{8}$/, "must be a marker like c:1a2b3c4d"),
+      z.number().int().positive(),
+    ])
+    .optional(),
+});
+
+export type FeedbackRequest = z.infer<typeof feedbackRequestSchema>;
+
+/** A user's rating of one answer, with the answer it rated. */
+export interface FeedbackEntry {
+  /** Stable per tenant, thread and message: rating again replaces it. */
+  id: string;
+  tenantId: string;
+  threadId: string;
+  /** Id of the rated answer message. */
+  messageId: string;
+  /** Id of the question's message, recorded as `turnId` on the run's traces. */
+  turnId?: string;
+  rating: FeedbackRating;
+  comment?: string;
+  correctedAnswer?: string;
+  flaggedCitation?: Citation;
+  question: string;
+  /** The answer as the user saw it, with numbered footnotes. */
+  answer: string;
+  citations: Citation[];
+  promptVersion: string | null;
+  mode: AgentMode;
+  /** Principal id (`key:<id>` / `jwt:<sub>`); absent when auth is off. */
+  clientId?: string;
+  /** ISO timestamps. */
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface FeedbackQuery {
+  tenantId?: string;
+  rating?: FeedbackRating;
+  /** First UTC day included (YYYY-MM-DD). */
+  from?: string;
+  /** Last UTC day included (YYYY-MM-DD). */
+  to?: string;
+}
+
+export function feedbackId(
+  tenantId: string,
+  threadId: string,
+  messageId: string
+): string {
+  const hash = createHash("sha256")
+    .update(`${tenantId}/${threadId}/${messageId}`)
+    .digest("hex");
+  return `fb_${hash.slice(0, 12)}`;
+}
+
+// ── Feedback Store ──────────────────────────────────────────────────
+
+/**
+ * Feedback kept in a JSON file, one entry per rated answer. Writes are
+ * serialized and go through a temp file, so a crash never leaves a
+ * half-written store.
+ */
+export class FeedbackStore {
+  private entries = new Map<string, FeedbackEntry>();
+  private saving: Promise<void> = Promise.resolve();
+
+  constructor(readonly filePath: string) {
+    try {
+      const saved = JSON.parse(readFileSync(filePath, "utf8")) as FeedbackEntry[];
+      for (const entry of saved) this.entries.set(entry.id, entry);
+    } catch {
+      // No feedback yet
+    }
+  }
+
+  /** Add feedback, or replace the earlier feedback on the same answer. */
+  async upsert(
+    entry: Omit<FeedbackEntry, "id" | "createdAt" | "updatedAt">
+  ): Promise<FeedbackEntry> {
+    const id = feedbackId(entry.tenantId, entry.threadId, entry.messageId);
+    const now = new Date().toISOString();
+    const saved: FeedbackEntry = {
+      id,
+      ...entry,
+      createdAt: this.entries.get(id)?.createdAt ?? now,
+      updatedAt: now,
+    };
+    this.entries.set(id, saved);
+    this.saving = this.saving
+      .then(() => this.save())
+      .catch((error) => logger.warn(`Failed to save feedback: ${error}`));
+    await this.saving;
+    return saved;
+  }
+
+  /** Matching entries, oldest first. */
+  list(query: FeedbackQuery = {}): FeedbackEntry[] {
+    return [...this.entries.values()]
+      .filter(
+        (e) =>
+          (!query.tenantId || e.tenantId === query.tenantId) &&
+          (!query.rating || e.rating === query.rating) &&
+          (!query.from || e.updatedAt.slice(0, 10) >= query.from) &&
+          (!query.to || e.updatedAt.slice(0, 10) <= query.to)
+      )
+      .sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+  }
+
+  private async save(): Promise<void> {
+    await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+    const temp = `${this.filePath}.${process.pid}.tmp`;
+    const entries = [...this.entries.values()];
+    await fs.writeFile(temp, JSON.stringify(entries, null, 2), "utf8");
+    await fs.rename(temp, this.filePath);
+  }
+}
+
+let _store: FeedbackStore | null = null;
+
+/** The feedback store at `FEEDBACK_FILE`. */
+export function getFeedbackStore(): FeedbackStore {
+  _store ??= new FeedbackStore(getConfig().feedbackFile);
+  return _store;
+}
@@ -0,0 +1,46 @@
+import { trace } from "@opentelemetry/api";
+import { getConfig } from "../config/index.js";
+import { tenantThreadId } from "../tenants/index.js";
+import type { FeedbackEntry } from "./store.js";
+
+// ── Trace Annotation ────────────────────────────────────────────────
+
+const TRACER_NAME = "openbook-feedback";
+
+/**
+ * Record feedback as an OpenInference `EVALUATOR` span when Arize
+ * tracing is on. It carries the rated run's `session.id` (the thread)
+ * and `turnId`, the key in the run's trace metadata, so the feedback
+ * can be joined to the trace it rates.
+ */
+export function annotateFeedback(entry: FeedbackEntry): void {
+  if (!getConfig().arizeEnabled) return;
+
+  const span = trace.getTracer(TRACER_NAME).startSpan("feedback");
+  span.setAttributes({
+    "openinference.span.kind": "EVALUATOR",
+    "session.id": tenantThreadId(entry.tenantId, entry.threadId),
+    "input.value": entry.question,
+    "output.value": entry.answer,
+    "feedback.id": entry.id,
+    "feedback.rating": entry.rating,
+    "feedback.score": entry.rating === "up" ? 1 : 0,
+    "feedback.message_id": entry.messageId,
+    ...(entry.turnId && { "feedback.turn_id": entry.turnId }),
+    ...(entry.comment && { "feedback.comment": entry.comment }),
+    ...(entry.correctedAnswer && {
+      "feedback.corrected_answer": entry.correctedAnswer,
+    }),
+    ...(entry.flaggedCitation && {
+      "feedback.flagged_citation": entry.flaggedCitation.citation,
+    }),
+    metadata: JSON.stringify({
+      tenantId: entry.tenantId,
+      turnId: entry.turnId,
+      messageId: entry.messageId,
+      promptVersion: entry.promptVersion,
+      mode: entry.mode,
+    }),
+  });
+  span.end();
+}
@@ -4,12 +4,34 @@ export {
   buildRagAgentGraph,
   compileRagAgent,
   invokeAgent,
+  runAgentTurn,
   streamAgent,
   streamAgentEvents,
   continueConversation,
   getThreadState,
   getThreadHistory,
+  resumeAgentTurn,
+  getPendingReview,
+  listPendingReviews,
 } from "../agents/rag-agent.js";
+export type { AgentTurnResult } from "../agents/rag-agent.js";
+export { resolveCitations, collectRetrievedChunks } from "../agents/citations.js";
+export { streamChatEvents } from "../agents/chat-stream.js";
+export {
+  REVIEW_INTERRUPTS,
+  pendingReview,
+  resolveReview,
+  decisionError,
+} from "../agents/reviews.js";
+export {
+  getThreadConversation,
+  getThreadCheckpoints,
+  toConversationTurn,
+} from "../agents/threads.js";
+export type {
+  ThreadConversation,
+  ThreadCheckpoint,
+} from "../agents/threads.js";
 
 // ── State ───────────────────────────────────────────────────────────
 export { AgentStateAnnotation } from "../state/index.js";
@@ -18,13 +40,25 @@ export type { AgentState, AgentStateUpdate } from "../state/index.js";
 // ── Checkpointer ────────────────────────────────────────────────────
 export {
   getCheckpointer,
+  verifyCheckpointer,
+  closeCheckpointer,
   createThreadConfig,
   generateThreadId,
 } from "../checkpointers/index.js";
 
+// ── Retrievers ──────────────────────────────────────────────────────
+export { getRetriever, setRetriever } from "../retrievers/index.js";
+
+// ── LLM ─────────────────────────────────────────────────────────────
+export { ScriptedChatModel, loadChatScript } from "../llm/index.js";
+export type { ChatScript } from "../llm/index.js";
+
 // ── Config ──────────────────────────────────────────────────────────
 export {
   getConfig,
   validateLlmConfig,
-  logConfigSummary,
+  validateRetrieverConfig,
+  validateAuthConfig,
+  configSummary,
 } from "../config/index.js";
+export { logConfigSummary } from "../utils/index.js";
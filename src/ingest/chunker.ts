@@ -0,0 +1,158 @@
+import type { DocumentBlock, TableBlock } from "./parsers.js";
+import { inferDepartment, inferFund } from "./metadata.js";
+
+export interface ChunkOptions {
+  /** Target maximum characters per text chunk. */
+  maxChars: number;
+  /**
+   * Tables up to this many characters are kept whole even if they
+   * exceed `maxChars`; larger tables are split by rows with the header
+   * repeated in every part.
+   */
+  maxTableChars: number;
+}
+
+export const DEFAULT_CHUNK_OPTIONS: ChunkOptions = {
+  maxChars: 1500,
+  maxTableChars: 4000,
+};
+
+export interface DraftChunk {
+  text: string;
+  page?: number;
+  metadata: Record<string, unknown>;
+}
+
+/**
+ * Split a table into parts of at most `maxChars`, never breaking a row
+ * and repeating the header lines in each part.
+ */
+function splitTable(table: TableBlock, maxChars: number): string[][] {
+  const headerLength = table.header.join("\n").length;
+  const parts: string[][] = [];
+  let current: string[] = [];
+  let length = headerLength;
+
+  for (const row of table.rows) {
+    if (current.length > 0 && length + row.length + 1 > maxChars) {
+      parts.push(current);
+      current = [];
+      length = headerLength;
+    }
+    current.push(row);
+    length += row.length + 1;
+  }
+  if (current.length > 0) parts.push(current);
+  return parts;
+}
+
+/**
+ * Table-aware chunker. Prose is packed into chunks up to `maxChars`
+ * (never across a page boundary, so citations keep an exact page).
+ * Financial tables are emitted as their own chunks with their header
+ * row(s) and the section heading they sit under, so figures are never
+ * separated from their column labels.
+ */
+export function chunkBlocks(
+  blocks: DocumentBlock[],
+  options: ChunkOptions = DEFAULT_CHUNK_OPTIONS
+): DraftChunk[] {
+  const chunks: DraftChunk[] = [];
+  const headings: string[] = [];
+  let buffer: string[] = [];
+  let bufferLength = 0;
+  let bufferPage: number | undefined;
+
+  const sectionMetadata = () => {
+    const metadata: Record<string, unknown> = {};
+    const path = headings.filter(Boolean);
+    if (path.length > 0) metadata.section = path.join(" > ");
+    const department = inferDepartment(path);
+    if (department) metadata.department = department;
+    const fund = inferFund(path);
+    if (fund) metadata.fund = fund;
+    return metadata;
+  };
+
+  const flush = () => {
+    const text = buffer.join("\n\n").trim();
+    if (text) {
+      chunks.push({
+        text,
+        page: bufferPage,
+        metadata: { ...sectionMetadata(), contentType: "text" },
+      });
+    }
+    buffer = [];
+    bufferLength = 0;
+    bufferPage = undefined;
+  };
+
+  const pushText = (text: string, page?: number) => {
+    const pageChanged = page !== bufferPage;
+    const overflow = bufferLength + text.length > options.maxChars;
+    if (buffer.length > 0 && (pageChanged || overflow)) flush();
+    if (buffer.length === 0) bufferPage = page;
+
+    // Hard-wrap oversized paragraphs on sentence boundaries
+    if (text.length > options.maxChars) {
+      const sentences = text.match(/[^.!?]+[.!?]+(\s+|$)|[^.!?]+$/g) ?? [text];
+      for (const sentence of sentences) {
+        if (bufferLength + sentence.length > options.maxChars && buffer.length > 0) {
+          flush();
+          bufferPage = page;
+        }
+        buffer.push(sentence.trim());
+        bufferLength += sentence.length;
+      }
+      return;
+    }
+
+    buffer.push(text);
+    bufferLength += text.length + 2;
+  };
+
+  for (const block of blocks) {
+    switch (block.kind) {
+      case "heading": {
+        flush();
+        headings.length = Math.min(headings.length, block.level - 1);
+        while (headings.length < block.level - 1) headings.push("");
+        headings.push(block.text);
+        break;
+      }
+
+      case "text":
+        pushText(block.text, block.page);
+        break;
+
+      case "table": {
+        flush();
+        const caption = headings.filter(Boolean).at(-1);
+        const prefix = caption ? [caption] : [];
+        const whole = [...prefix, ...block.header, ...block.rows].join("\n");
+
+        const parts =
+          whole.length <= options.maxTableChars
+            ? [block.rows]
+            : splitTable(block, options.maxChars);
+
+        parts.forEach((rows, i) => {
+          chunks.push({
+            text: [...prefix, ...block.header, ...rows].join("\n"),
+            page: block.page,
+            metadata: {
+              ...sectionMetadata(),
+              contentType: "table",
+              ...(parts.length > 1 ? { tablePart: `${i + 1}/${parts.length}` } : {}),
+            },
+          });
+        });
+        break;
+      }
+    }
+  }
+  flush();
+
+  return chunks;
+}
@@ -0,0 +1,266 @@
+import { createHash } from "crypto";
+import { promises as fs } from "fs";
+import path from "path";
+import { LocalIndex, titleFromUri } from "../retrievers/index.js";
+import type { IndexedChunk } from "../retrievers/index.js";
+import { logger } from "../utils/index.js";
+import { chunkBlocks, DEFAULT_CHUNK_OPTIONS } from "./chunker.js";
+import type { ChunkOptions } from "./chunker.js";
+import {
+  inferDocumentType,
+  inferFiscalYear,
+  inferJurisdiction,
+} from "./metadata.js";
+import { detectFormat, parseDocument } from "./parsers.js";
+
+/**
+ * Bump when parsing or chunking changes in a way that should force
+ * previously ingested documents to be rebuilt.
+ */
+const INGEST_VERSION = 2;
+
+export interface IngestOptions {
+  /** Path of the local index file to write. */
+  indexPath: string;
+  /** Directory document ids are relative to; every target must be inside it. */
+  root: string;
+  /** Metadata that overrides anything found in or inferred from the files. */
+  jurisdiction?: string;
+  fiscalYear?: number;
+  department?: string;
+  fund?: string;
+  documentType?: string;
+  /** Re-ingest documents even when their content is unchanged. */
+  force?: boolean;
+  chunkOptions?: Partial<ChunkOptions>;
+}
+
+export interface IngestSummary {
+  added: string[];
+  updated: string[];
+  unchanged: string[];
+  removed: string[];
+  failed: Array<{ path: string; error: string }>;
+  /** Total chunks in the index after ingestion. */
+  chunkCount: number;
+}
+
+// ── File Discovery ──────────────────────────────────────────────────
+
+async function collectFiles(target: string): Promise<string[]> {
+  const stat = await fs.stat(target);
+  if (!stat.isDirectory()) return [target];
+
+  const files: string[] = [];
+  const entries = await fs.readdir(target, { withFileTypes: true });
+  for (const entry of entries) {
+    if (entry.name.startsWith(".")) continue;
+    const full = path.join(target, entry.name);
+    if (entry.isDirectory()) {
+      files.push(...(await collectFiles(full)));
+    } else if (detectFormat(full)) {
+      files.push(full);
+    }
+  }
+  return files.sort();
+}
+
+/**
+ * Stable document id: the path relative to the ingest root, e.g.
+ * `budget-books/fy2025.pdf`, however the file or its directory was named
+ * on the command line. The root itself is `""`.
+ */
+function documentIdFor(filePath: string, root: string): string {
+  const relative = path.relative(path.resolve(root), path.resolve(filePath));
+  if (
+    relative === ".." ||
+    relative.startsWith(`..${path.sep}`) ||
+    path.isAbsolute(relative)
+  ) {
+    throw new Error(`${filePath} is outside the ingest root ${root}`);
+  }
+  return relative.split(path.sep).join("/");
+}
+
+function frontMatterYear(metadata: Record<string, string>): number | undefined {
+  const raw = metadata.fiscal_year ?? metadata.fiscalYear;
+  return raw ? inferFiscalYear(`FY${raw}`) : undefined;
+}
+
+// ── Ingestion ───────────────────────────────────────────────────────
+
+/**
+ * Parse, chunk and index the given files and directories into the local
+ * index. Documents whose content (and ingest settings) are unchanged
+ * since the last run are skipped, and documents that disappeared from an
+ * ingested directory are removed from the index.
+ */
+export async function ingestPaths(
+  targets: string[],
+  options: IngestOptions
+): Promise<IngestSummary> {
+  const chunkOptions: ChunkOptions = {
+    ...DEFAULT_CHUNK_OPTIONS,
+    ...options.chunkOptions,
+  };
+  const overrides = {
+    jurisdiction: options.jurisdiction,
+    fiscalYear: options.fiscalYear,
+    department: options.department,
+    fund: options.fund,
+    documentType: options.documentType,
+  };
+  const settingsKey = JSON.stringify({
+    version: INGEST_VERSION,
+    chunkOptions,
+    overrides,
+  });
+
+  const index = await LocalIndex.load(options.indexPath);
+  const summary: IngestSummary = {
+    added: [],
+    updated: [],
+    unchanged: [],
+    removed: [],
+    failed: [],
+    chunkCount: 0,
+  };
+
+  const seen = new Set<string>();
+  const directories: string[] = [];
+
+  for (const target of targets) {
+    const stat = await fs.stat(target);
+    if (stat.isDirectory()) directories.push(documentIdFor(target, options.root));
+
+    for (const filePath of await collectFiles(target)) {
+      const id = documentIdFor(filePath, options.root);
+      seen.add(id);
+
+      try {
+        const data = await fs.readFile(filePath);
+        const contentHash = createHash("sha256")
+          .update(data)
+          .update(settingsKey)
+          .digest("hex");
+
+        const existing = index.getDocument(id);
+        if (existing?.contentHash === contentHash && !options.force) {
+          summary.unchanged.push(id);
+          continue;
+        }
+
+        const parsed = await parseDocument(filePath, data);
+        const fileName = path.basename(filePath);
+        const title = parsed.metadata.title ?? titleFromUri(fileName);
+
+        const metadata: Record<string, unknown> = {
+          format: detectFormat(filePath),
+          sourcePath: id,
+        };
+        const jurisdiction =
+          overrides.jurisdiction ??
+          parsed.metadata.jurisdiction ??
+          inferJurisdiction(parsed.preview);
+        const fiscalYear =
+          overrides.fiscalYear ??
+          frontMatterYear(parsed.metadata) ??
+          inferFiscalYear(fileName) ??
+          inferFiscalYear(parsed.preview);
+        const department =
+          overrides.department ?? parsed.metadata.department;
+        const fund = overrides.fund ?? parsed.metadata.fund;
+        const documentType =
+          overrides.documentType ??
+          parsed.metadata.document_type ??
+          parsed.metadata.documentType ??
+          inferDocumentType(`${fileName} ${title}`);
+
+        if (jurisdiction) metadata.jurisdiction = jurisdiction;
+        if (fiscalYear) metadata.fiscalYear = fiscalYear;
+        if (department) metadata.department = department;
+        if (fund) metadata.fund = fund;
+        metadata.documentType = documentType;
+
+        const chunks: IndexedChunk[] = chunkBlocks(
+          parsed.blocks,
+          chunkOptions
+        ).map((draft, i) => ({
+          id: `${id}#${i}`,
+          documentId: id,
+          text: draft.text,
+          page: draft.page,
+          // Document-level overrides win over per-section inference
+          metadata: {
+            ...draft.metadata,
+            ...(overrides.department && { department: overrides.department }),
+            ...(overrides.fund && { fund: overrides.fund }),
+          },
+        }));
+
+        index.upsertDocument(
+          {
+            id,
+            uri: id,
+            title,
+            contentHash,
+            metadata,
+            updatedAt: new Date().toISOString(),
+          },
+          chunks
+        );
+        (existing ? summary.updated : summary.added).push(id);
+        logger.debug(`Ingested ${id}`, { chunks: chunks.length });
+      } catch (err) {
+        const message = err instanceof Error ? err.message : String(err);
+        summary.failed.push({ path: id, error: message });
+        logger.error(`Failed to ingest ${id}`, { error: message });
+      }
+    }
+  }
+
+  // Prune documents whose files were deleted from an ingested directory
+  for (const document of index.listDocuments()) {
+    if (seen.has(document.id)) continue;
+    const inDirectory = directories.some(
+      (dir) => dir === "" || document.id.startsWith(`${dir}/`)
+    );
+    if (inDirectory) {
+      index.removeDocument(document.id);
+      summary.removed.push(document.id);
+    }
+  }
+
+  if (
+    summary.added.length ||
+    summary.updated.length ||
+    summary.removed.length
+  ) {
+    await index.save();
+  }
+  summary.chunkCount = index.chunkCount;
+
+  return summary;
+}
+
+export { chunkBlocks, DEFAULT_CHUNK_OPTIONS } from "./chunker.js";
+export type { ChunkOptions, DraftChunk } from "./chunker.js";
+export {
+  detectFormat,
+  parseDocument,
+  parseMarkdown,
+  parseCsv,
+  parsePdf,
+} from "./parsers.js";
+export type {
+  DocumentBlock,
+  ParsedDocument,
+  SourceFormat,
+} from "./parsers.js";
+export {
+  inferDepartment,
+  inferDocumentType,
+  inferFund,
+  inferFiscalYear,
+  inferJurisdiction,
+} from "./metadata.js";
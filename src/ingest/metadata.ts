@@ -0,0 +1,87 @@
+// ── Metadata Inference ──────────────────────────────────────────────
+
+/**
+ * Find a fiscal year in text such as "FY2025", "FY 2024-25",
+ * "Fiscal Year 2025" or "2024-2025 Adopted Budget". For ranges the
+ * ending year is used, matching how most budget books label a year.
+ */
+export function inferFiscalYear(text: string): number | undefined {
+  const patterns = [
+    /\bFY\s*-?\s*'?(\d{2,4})(?:\s*[-–/]\s*(\d{2,4}))?\b/i,
+    /\bFiscal\s+Year\s+(\d{4})(?:\s*[-–/]\s*(\d{2,4}))?\b/i,
+    /\b(20\d{2})\s*[-–/]\s*(20\d{2}|\d{2})\s+(?:Adopted|Proposed|Approved|Annual|Operating|Biennial)?\s*Budget\b/i,
+  ];
+
+  for (const pattern of patterns) {
+    const match = pattern.exec(text);
+    if (!match) continue;
+    const raw = match[2] ?? match[1];
+    const year = normalizeYear(raw, match[1]);
+    if (year) return year;
+  }
+  return undefined;
+}
+
+function normalizeYear(raw: string, start: string): number | undefined {
+  let year = Number(raw);
+  if (!Number.isFinite(year)) return undefined;
+  if (raw.length === 2) {
+    const century = start.length === 4 ? Number(start.slice(0, 2)) * 100 : 2000;
+    year = century + year;
+  }
+  return year >= 1990 && year <= 2100 ? year : undefined;
+}
+
+const JURISDICTION_PATTERN =
+  /\b((?:City|County|Town|Township|Village|State|Borough|Parish)\s+of\s+[A-Z][A-Za-z'.-]*(?:\s+[A-Z][A-Za-z'.-]*){0,3})/;
+
+/** Title words that commonly follow the jurisdiction name on a cover page. */
+const TITLE_WORDS =
+  /\s+(?:FY\S*|Fiscal|Adopted|Proposed|Approved|Annual|Operating|Capital|Biennial|Budget)\b.*$/;
+
+/** Find a jurisdiction name such as "City of Springfield". */
+export function inferJurisdiction(text: string): string | undefined {
+  const match = JURISDICTION_PATTERN.exec(text)?.[1];
+  return match?.replace(TITLE_WORDS, "").trim();
+}
+
+const DEPARTMENT_PATTERN =
+  /\b(?:Department|Dept\.?|Division|Office)\b|\b(?:Police|Fire|Parks|Public Works|Library|Utilities|Finance|Planning|Transportation|Health|Human Resources)\b/i;
+
+/**
+ * Pick the department for a chunk from its heading path: the innermost
+ * heading that names a department, division or common service area.
+ */
+export function inferDepartment(headings: string[]): string | undefined {
+  for (let i = headings.length - 1; i >= 0; i--) {
+    if (DEPARTMENT_PATTERN.test(headings[i])) {
+      return headings[i].replace(/\s+/g, " ").trim();
+    }
+  }
+  return undefined;
+}
+
+const FUND_PATTERN = /\b((?:[A-Z][\w&'-]*\s+){1,4}Fund)\b/;
+
+/**
+ * Pick the fund for a chunk from its heading path: the innermost heading
+ * naming one, e.g. "General Fund" or "Water Enterprise Fund".
+ */
+export function inferFund(headings: string[]): string | undefined {
+  for (let i = headings.length - 1; i >= 0; i--) {
+    const match = FUND_PATTERN.exec(headings[i].replace(/\s+/g, " "));
+    if (match) return match[1];
+  }
+  return undefined;
+}
+
+/** Classify a document from its file name and title. */
+export function inferDocumentType(name: string): string {
+  const text = name.toLowerCase();
+  if (/capital|cip\b/.test(text)) return "capital_plan";
+  if (/\bacfr\b|\bcafr\b|annual comprehensive financial|financial report/.test(text)) {
+    return "financial_report";
+  }
+  if (/budget/.test(text)) return "budget_book";
+  return "document";
+}
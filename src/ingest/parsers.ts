@@ -0,0 +1,404 @@
+import path from "path";
+
+// ── Block Types ─────────────────────────────────────────────────────
+
+export interface HeadingBlock {
+  kind: "heading";
+  level: number;
+  text: string;
+  page?: number;
+}
+
+export interface TextBlock {
+  kind: "text";
+  text: string;
+  page?: number;
+}
+
+/**
+ * A financial table. `header` holds the rendered header line(s) so the
+ * chunker can repeat them when a long table has to be split.
+ */
+export interface TableBlock {
+  kind: "table";
+  header: string[];
+  rows: string[];
+  page?: number;
+}
+
+export type DocumentBlock = HeadingBlock | TextBlock | TableBlock;
+
+export interface ParsedDocument {
+  blocks: DocumentBlock[];
+  /** Document-level metadata found in the file itself (e.g. front matter). */
+  metadata: Record<string, string>;
+  /**
+   * Leading prose used to infer fiscal year / jurisdiction. Tables are
+   * left out: their column headers usually list several years.
+   */
+  preview: string;
+}
+
+export type SourceFormat = "pdf" | "markdown" | "csv";
+
+const EXTENSIONS: Record<string, SourceFormat> = {
+  ".pdf": "pdf",
+  ".md": "markdown",
+  ".markdown": "markdown",
+  ".csv": "csv",
+  ".tsv": "csv",
+};
+
+export function detectFormat(filePath: string): SourceFormat | null {
+  return EXTENSIONS[path.extname(filePath).toLowerCase()] ?? null;
+}
+
+function previewOf(blocks: DocumentBlock[]): string {
+  return blocks
+    .slice(0, 40)
+    .flatMap((b) => (b.kind === "table" ? [] : [b.text]))
+    .join("\n")
+    .substring(0, 4000);
+}
+
+// ── Markdown ────────────────────────────────────────────────────────
+
+function parseFrontMatter(text: string): {
+  body: string;
+  metadata: Record<string, string>;
+} {
+  const match = /^---\r?\n([\s\S]*?)\r?\n---\r?\n?/.exec(text);
+  if (!match) return { body: text, metadata: {} };
+
+  const metadata: Record<string, string> = {};
+  for (const line of match[1].split(/\r?\n/)) {
+    const kv = /^\s*([\w-]+)\s*:\s*(.*?)\s*$/.exec(line);
+    if (kv) metadata[kv[1]] = kv[2].replace(/^["']|["']$/g, "");
+  }
+  return { body: text.slice(match[0].length), metadata };
+}
+
+const TABLE_SEPARATOR = /^\s*\|?\s*:?-{3,}:?\s*(\|\s*:?-{3,}:?\s*)*\|?\s*$/;
+
+/**
+ * Markdown → blocks. Pipe tables become TableBlocks (header row plus
+ * separator), headings are kept for section context, and everything
+ * else is grouped into paragraphs.
+ */
+export function parseMarkdown(text: string): ParsedDocument {
+  const { body, metadata } = parseFrontMatter(text);
+  const lines = body.split(/\r?\n/);
+  const blocks: DocumentBlock[] = [];
+  let paragraph: string[] = [];
+
+  const flush = () => {
+    const joined = paragraph.join("\n").trim();
+    if (joined) blocks.push({ kind: "text", text: joined });
+    paragraph = [];
+  };
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i];
+    const heading = /^(#{1,6})\s+(.*?)\s*#*\s*$/.exec(line);
+
+    if (heading) {
+      flush();
+      blocks.push({ kind: "heading", level: heading[1].length, text: heading[2] });
+    } else if (
+      line.trim().startsWith("|") &&
+      i + 1 < lines.length &&
+      TABLE_SEPARATOR.test(lines[i + 1])
+    ) {
+      flush();
+      const header = [line.trim(), lines[i + 1].trim()];
+      const rows: string[] = [];
+      i += 2;
+      while (i < lines.length && lines[i].trim().startsWith("|")) {
+        rows.push(lines[i].trim());
+        i++;
+      }
+      i--;
+      blocks.push({ kind: "table", header, rows });
+    } else if (!line.trim()) {
+      flush();
+    } else {
+      paragraph.push(line);
+    }
+  }
+  flush();
+
+  return { blocks, metadata, preview: previewOf(blocks) };
+}
+
+// ── CSV / TSV ───────────────────────────────────────────────────────
+
+/** RFC 4180-style parser (quoted fields, escaped quotes, embedded newlines). */
+export function parseDelimited(text: string, delimiter: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i];
+    if (quoted) {
+      if (ch === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (ch === '"') {
+        quoted = false;
+      } else {
+        field += ch;
+      }
+    } else if (ch === '"' && field === "") {
+      quoted = true;
+    } else if (ch === delimiter) {
+      row.push(field);
+      field = "";
+    } else if (ch === "\n" || ch === "\r") {
+      if (ch === "\r" && text[i + 1] === "\n") i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = "";
+    } else {
+      field += ch;
+    }
+  }
+  if (field !== "" || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+  return rows.filter((r) => r.some((cell) => cell.trim() !== ""));
+}
+
+function markdownRow(cells: string[]): string {
+  return `| ${cells.map((c) => c.trim().replace(/\|/g, "\\|")).join(" | ")} |`;
+}
+
+/**
+ * Spreadsheet export → a single table whose first row is the header.
+ */
+export function parseCsv(text: string, delimiter: string): ParsedDocument {
+  const [headerCells, ...dataRows] = parseDelimited(text, delimiter);
+  if (!headerCells) return { blocks: [], metadata: {}, preview: "" };
+
+  const width = headerCells.length;
+  const header = [
+    markdownRow(headerCells),
+    markdownRow(headerCells.map(() => "---")),
+  ];
+  const rows = dataRows.map((cells) =>
+    markdownRow([...cells, ...Array(Math.max(0, width - cells.length)).fill("")])
+  );
+
+  const blocks: DocumentBlock[] = [{ kind: "table", header, rows }];
+  return { blocks, metadata: {}, preview: previewOf(blocks) };
+}
+
+// ── PDF ─────────────────────────────────────────────────────────────
+
+interface PositionedText {
+  str: string;
+  x: number;
+  y: number;
+  width: number;
+  /** Font size, taken from the text matrix. */
+  size: number;
+}
+
+interface PdfLine {
+  text: string;
+  size: number;
+}
+
+/** Horizontal gap (in PDF units) that separates two table columns. */
+const COLUMN_GAP = 12;
+
+/** Lines set this much larger than the page's body text are headings. */
+const HEADING_SIZE_RATIO = 1.2;
+
+/**
+ * Rebuild text lines from positioned PDF text items. Items on the same
+ * baseline are joined; wide horizontal gaps become a tab so column
+ * layouts survive.
+ */
+function itemsToLines(items: PositionedText[]): PdfLine[] {
+  const rows = new Map<number, PositionedText[]>();
+  for (const item of items) {
+    if (!item.str.trim()) continue;
+    const key = Math.round(item.y / 2) * 2;
+    const row = rows.get(key) ?? [];
+    row.push(item);
+    rows.set(key, row);
+  }
+
+  return [...rows.entries()]
+    .sort((a, b) => b[0] - a[0])
+    .map(([, row]) => {
+      row.sort((a, b) => a.x - b.x);
+      let text = "";
+      let end = -Infinity;
+      for (const item of row) {
+        if (text) text += item.x - end > COLUMN_GAP ? "\t" : " ";
+        text += item.str.trim();
+        end = item.x + item.width;
+      }
+      return { text, size: Math.max(...row.map((item) => item.size)) };
+    });
+}
+
+/** Most common font size on a page, i.e. the body text size. */
+function bodySize(lines: PdfLine[]): number {
+  const counts = new Map<number, number>();
+  for (const line of lines) {
+    const size = Math.round(line.size);
+    counts.set(size, (counts.get(size) ?? 0) + line.text.length);
+  }
+  let best = 0;
+  let bestCount = -1;
+  for (const [size, count] of counts) {
+    if (count > bestCount) [best, bestCount] = [size, count];
+  }
+  return best;
+}
+
+const NUMERIC_CELL = /^\(?-?\$?\s?[\d,]+(\.\d+)?%?\)?$/;
+
+/** A line looks like a table row when it has ≥2 columns and a number. */
+function isTableLine(line: string): boolean {
+  const cells = line.split("\t");
+  return cells.length >= 2 && cells.some((c) => NUMERIC_CELL.test(c.trim()));
+}
+
+function tabsToRow(line: string): string {
+  return markdownRow(line.split("\t"));
+}
+
+/**
+ * Split a page's lines into text, heading and table blocks. Lines set
+ * noticeably larger than the body text are headings. Runs of
+ * column-aligned numeric lines become a table; the column-aligned line
+ * immediately above them (if any) is used as its header.
+ */
+function pageBlocks(pdfLines: PdfLine[], page: number): DocumentBlock[] {
+  const blocks: DocumentBlock[] = [];
+  const lines = pdfLines.map((line) => line.text);
+  const headingSize = bodySize(pdfLines) * HEADING_SIZE_RATIO;
+  let paragraph: string[] = [];
+
+  const flush = () => {
+    const joined = paragraph.join("\n").trim();
+    if (joined) blocks.push({ kind: "text", text: joined, page });
+    paragraph = [];
+  };
+
+  for (let i = 0; i < lines.length; i++) {
+    if (pdfLines[i].size >= headingSize && !lines[i].includes("\t")) {
+      flush();
+      blocks.push({ kind: "heading", level: 1, text: lines[i], page });
+      continue;
+    }
+    if (!isTableLine(lines[i])) {
+      paragraph.push(lines[i]);
+      continue;
+    }
+
+    let end = i;
+    while (end + 1 < lines.length && isTableLine(lines[end + 1])) end++;
+    if (end === i) {
+      paragraph.push(lines[i]);
+      continue;
+    }
+
+    // Column-aligned line with no numbers right above = header row
+    let header: string[] = [];
+    const previous = paragraph[paragraph.length - 1];
+    if (previous && previous.includes("\t")) {
+      paragraph.pop();
+      const headerCells = previous.split("\t");
+      header = [
+        markdownRow(headerCells),
+        markdownRow(headerCells.map(() => "---")),
+      ];
+    }
+
+    flush();
+    blocks.push({
+      kind: "table",
+      header,
+      rows: lines.slice(i, end + 1).map(tabsToRow),
+      page,
+    });
+    i = end;
+  }
+  flush();
+
+  return blocks;
+}
+
+/**
+ * PDF → blocks, one page at a time, so every chunk keeps its page
+ * number. Uses pdf.js' Node-compatible legacy build.
+ */
+export async function parsePdf(data: Uint8Array): Promise<ParsedDocument> {
+  const pdfjs = await import("pdfjs-dist/legacy/build/pdf.mjs");
+  const pdf = await pdfjs.getDocument({
+    data,
+    useSystemFonts: true,
+    isEvalSupported: false,
+  }).promise;
+
+  const blocks: DocumentBlock[] = [];
+  const metadata: Record<string, string> = {};
+
+  try {
+    const info = await pdf.getMetadata().catch(() => null);
+    const title = (info?.info as { Title?: string } | undefined)?.Title;
+    if (title?.trim()) metadata.title = title.trim();
+
+    for (let pageNumber = 1; pageNumber <= pdf.numPages; pageNumber++) {
+      const page = await pdf.getPage(pageNumber);
+      const content = await page.getTextContent();
+      const items: PositionedText[] = [];
+      for (const item of content.items) {
+        if (!("str" in item)) continue;
+        items.push({
+          str: item.str,
+          x: item.transform[4],
+          y: item.transform[5],
+          width: item.width,
+          size: Math.hypot(item.transform[2], item.transform[3]),
+        });
+      }
+      blocks.push(...pageBlocks(itemsToLines(items), pageNumber));
+      page.cleanup();
+    }
+  } finally {
+    await pdf.destroy();
+  }
+
+  return { blocks, metadata, preview: previewOf(blocks) };
+}
+
+// ── Dispatcher ──────────────────────────────────────────────────────
+
+export async function parseDocument(
+  filePath: string,
+  data: Buffer
+): Promise<ParsedDocument> {
+  const format = detectFormat(filePath);
+  switch (format) {
+    case "pdf":
+      return parsePdf(new Uint8Array(data));
+    case "markdown":
+      return parseMarkdown(data.toString("utf8"));
+    case "csv":
+      return parseCsv(
+        data.toString("utf8"),
+        path.extname(filePath).toLowerCase() === ".tsv" ? "\t" : ","
+      );
+    default:
+      throw new Error(`Unsupported file type: ${filePath}`);
+  }
+}
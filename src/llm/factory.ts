@@ -0,0 +1,104 @@
+import { ChatBedrockConverse } from "@langchain/aws";
+import { ChatOpenAI } from "@langchain/openai";
+import { ChatAnthropic } from "@langchain/anthropic";
+import type { BaseChatModel } from "@langchain/core/language_models/chat_models";
+import { getConfig, llmProviderChain } from "../config/index.js";
+import { retryPolicy } from "../utils/index.js";
+import type { LLMProvider } from "../types/index.js";
+import { FailoverChatModel } from "./failover.js";
+import {
+  DEFAULT_CHAT_SCRIPT,
+  loadChatScript,
+  ScriptedChatModel,
+} from "./scripted-chat-model.js";
+
+// ── LLM Factory ─────────────────────────────────────────────────────
+
+/** The model configured for `provider`, e.g. `claude-sonnet-4-20250514`. */
+export function providerModel(provider: LLMProvider): string {
+  const config = getConfig();
+  switch (provider) {
+    case "bedrock":
+      return config.bedrockLlmModel;
+    case "openai":
+      return config.openaiModel;
+    case "anthropic":
+      return config.anthropicModel;
+    default:
+      return "scripted";
+  }
+}
+
+/**
+ * The primary provider and model, e.g. `anthropic` and
+ * `claude-sonnet-4-20250514`. Used to price token usage when a reply
+ * doesn't say which provider produced it.
+ */
+export function getLLMModel(): { provider: string; model: string } {
+  const { llmProvider } = getConfig();
+  return { provider: llmProvider, model: providerModel(llmProvider) };
+}
+
+/**
+ * Chat model of one provider. Its client doesn't retry on its own;
+ * retries and failover are handled by the chain in `getLLM`.
+ */
+function createProviderModel(provider: LLMProvider): BaseChatModel {
+  const config = getConfig();
+
+  switch (provider) {
+    case "bedrock":
+      return new ChatBedrockConverse({
+        model: config.bedrockLlmModel,
+        region: config.awsRegion,
+        temperature: config.llmTemperature,
+        maxTokens: config.llmMaxTokens,
+        maxRetries: 0,
+      });
+
+    case "openai":
+      return new ChatOpenAI({
+        modelName: config.openaiModel,
+        openAIApiKey: config.openaiApiKey,
+        temperature: config.llmTemperature,
+        maxTokens: config.llmMaxTokens,
+        maxRetries: 0,
+      });
+
+    case "anthropic":
+      return new ChatAnthropic({
+        modelName: config.anthropicModel,
+        anthropicApiKey: config.anthropicApiKey,
+        temperature: config.llmTemperature,
+        maxTokens: config.llmMaxTokens,
+        maxRetries: 0,
+      });
+
+    case "mock":
+      return new ScriptedChatModel({
+        script: config.mockLlmScript
+          ? loadChatScript(config.mockLlmScript)
+          : DEFAULT_CHAT_SCRIPT,
+      });
+
+    default:
+      throw new Error(`Unsupported LLM provider: ${provider}`);
+  }
+}
+
+/**
+ * Chat model over the configured provider chain (`LLM_PROVIDER`, then
+ * `LLM_FALLBACK_PROVIDERS`), with retries and failover. Shared by the
+ * agent node and by helpers that need a model outside the graph (e.g.
+ * multi-query reformulation).
+ */
+export function getLLM(): BaseChatModel {
+  return new FailoverChatModel(
+    llmProviderChain().map((provider) => ({
+      provider,
+      model: providerModel(provider),
+      create: () => createProviderModel(provider),
+    })),
+    retryPolicy()
+  );
+}
@@ -0,0 +1,293 @@
+import {
+  BaseChatModel,
+  type BaseChatModelCallOptions,
+  type BindToolsInput,
+} from "@langchain/core/language_models/chat_models";
+import type { BaseLanguageModelInput } from "@langchain/core/language_models/base";
+import type { CallbackManagerForLLMRun } from "@langchain/core/callbacks/manager";
+import { AIMessageChunk, type BaseMessage } from "@langchain/core/messages";
+import { ChatGenerationChunk, type ChatResult } from "@langchain/core/outputs";
+import type { Runnable } from "@langchain/core/runnables";
+import { getConfig } from "../config/index.js";
+import { isRetryableError, logger, withRetry } from "../utils/index.js";
+import type { RetryOptions } from "../utils/index.js";
+import type { LlmAttribution, LLMProvider } from "../types/index.js";
+
+// ── Circuit Breaker ─────────────────────────────────────────────────
+
+export type CircuitStatus = "closed" | "open" | "half_open";
+
+/**
+ * Opens after `threshold` consecutive failed calls and stays open for
+ * `cooldownMs`. After the cooldown one call at a time is let through
+ * (half open): success closes the circuit, failure opens it again.
+ */
+export class CircuitBreaker {
+  private failures = 0;
+  private openUntil = 0;
+  private probing = false;
+
+  constructor(
+    private readonly threshold: number,
+    private readonly cooldownMs: number
+  ) {}
+
+  isOpen(now = Date.now()): boolean {
+    return now < this.openUntil;
+  }
+
+  status(now = Date.now()): CircuitStatus {
+    if (this.isOpen(now)) return "open";
+    return this.failures >= this.threshold ? "half_open" : "closed";
+  }
+
+  /** Whether a call would be let through now, without claiming it. */
+  isAvailable(now = Date.now()): boolean {
+    const status = this.status(now);
+    return status === "closed" || (status === "half_open" && !this.probing);
+  }
+
+  /**
+   * Claim a call. When half open this takes the single probe, which
+   * `recordSuccess`, `recordFailure` or `releaseProbe` hands back.
+   */
+  tryAcquire(now = Date.now()): boolean {
+    if (!this.isAvailable(now)) return false;
+    if (this.status(now) === "half_open") this.probing = true;
+    return true;
+  }
+
+  /** End a call that says nothing about the provider's health. */
+  releaseProbe(): void {
+    this.probing = false;
+  }
+
+  recordSuccess(): void {
+    this.failures = 0;
+    this.openUntil = 0;
+    this.probing = false;
+  }
+
+  recordFailure(now = Date.now()): void {
+    this.failures++;
+    if (this.failures >= this.threshold) this.openUntil = now + this.cooldownMs;
+    this.probing = false;
+  }
+
+  get consecutiveFailures(): number {
+    return this.failures;
+  }
+}
+
+const _breakers = new Map<LLMProvider, CircuitBreaker>();
+
+/** The process-wide circuit breaker of a provider. */
+export function circuitBreaker(provider: LLMProvider): CircuitBreaker {
+  let breaker = _breakers.get(provider);
+  if (!breaker) {
+    const config = getConfig();
+    breaker = new CircuitBreaker(
+      config.circuitFailureThreshold,
+      config.circuitCooldownMs
+    );
+    _breakers.set(provider, breaker);
+  }
+  return breaker;
+}
+
+// ── Failover Chat Model ─────────────────────────────────────────────
+
+/** One provider of the chain; its chat model is created on first use. */
+export interface FailoverMember {
+  provider: LLMProvider;
+  model: string;
+  create: () => BaseChatModel;
+}
+
+export interface FailoverCallOptions extends BaseChatModelCallOptions {
+  /** Tools bound with `bindTools`, passed on to the provider. */
+  tools?: BindToolsInput[];
+}
+
+/**
+ * Chat model over an ordered chain of providers. Each call goes to the
+ * first provider whose circuit is closed, retrying transient errors
+ * (throttling, overload, 5xx) with jittered backoff; once retries run
+ * out it fails over to the next provider. Other errors are thrown
+ * straight away. Streamed calls only fail over before the first chunk.
+ *
+ * Providers are called through their own `_generate` /
+ * `_streamResponseChunks` under this model's run, so callbacks see a
+ * single LLM call. The reply's `response_metadata.llm` records which
+ * provider answered.
+ */
+export class FailoverChatModel extends BaseChatModel<FailoverCallOptions> {
+  private readonly models = new Map<LLMProvider, BaseChatModel>();
+
+  constructor(
+    private readonly members: FailoverMember[],
+    private readonly retry: RetryOptions
+  ) {
+    super({});
+    if (members.length === 0) throw new Error("No LLM providers configured");
+  }
+
+  _llmType(): string {
+    return "failover";
+  }
+
+  /** Tools are passed in the call options, which every provider accepts. */
+  override bindTools(
+    tools: BindToolsInput[],
+    kwargs?: Partial<FailoverCallOptions>
+  ): Runnable<BaseLanguageModelInput, AIMessageChunk, FailoverCallOptions> {
+    return this.withConfig({ ...kwargs, tools });
+  }
+
+  async _generate(
+    messages: BaseMessage[],
+    options: this["ParsedCallOptions"],
+    runManager?: CallbackManagerForLLMRun
+  ): Promise<ChatResult> {
+    const { result, attribution } = await this.withFailover(options, (chat) =>
+      chat._generate(messages, options, runManager)
+    );
+    for (const generation of result.generations) {
+      generation.message.response_metadata = {
+        ...generation.message.response_metadata,
+        llm: attribution,
+      };
+    }
+    return result;
+  }
+
+  async *_streamResponseChunks(
+    messages: BaseMessage[],
+    options: this["ParsedCallOptions"],
+    runManager?: CallbackManagerForLLMRun
+  ): AsyncGenerator<ChatGenerationChunk> {
+    // A provider counts as up once it produced its first chunk
+    const { result, attribution } = await this.withFailover(
+      options,
+      async (chat) => {
+        const stream = chat._streamResponseChunks(messages, options, runManager);
+        return { stream, first: await stream.next() };
+      }
+    );
+
+    let next = result.first;
+    while (!next.done) {
+      yield next.value;
+      next = await result.stream.next();
+    }
+    yield new ChatGenerationChunk({
+      message: new AIMessageChunk({
+        content: "",
+        response_metadata: { llm: attribution },
+      }),
+      text: "",
+    });
+  }
+
+  private chatModel(member: FailoverMember): BaseChatModel {
+    let chat = this.models.get(member.provider);
+    if (!chat) {
+      chat = member.create();
+      this.models.set(member.provider, chat);
+    }
+    return chat;
+  }
+
+  private async withFailover<T>(
+    options: this["ParsedCallOptions"],
+    call: (chat: BaseChatModel) => Promise<T>
+  ): Promise<{ result: T; attribution: LlmAttribution }> {
+    const noneAvailable = this.members.every(
+      (m) => !circuitBreaker(m.provider).isAvailable()
+    );
+    if (noneAvailable) {
+      logger.warn("Every LLM provider's circuit is open, trying all of them");
+    }
+    const skipped: LLMProvider[] = [];
+    const failedOver: LLMProvider[] = [];
+    const errors: string[] = [];
+    let lastError: unknown;
+
+    for (const member of this.members) {
+      const breaker = circuitBreaker(member.provider);
+      if (!noneAvailable && !breaker.tryAcquire()) {
+        skipped.push(member.provider);
+        errors.push(`${member.provider}: circuit ${breaker.status()}`);
+        continue;
+      }
+      let attempts = 0;
+      try {
+        const result = await withRetry(
+          () => {
+            attempts++;
+            return call(this.chatModel(member));
+          },
+          {
+            ...this.retry,
+            signal: options.signal,
+            label: `LLM call to ${member.provider}`,
+          }
+        );
+        breaker.recordSuccess();
+        if (failedOver.length > 0 || skipped.length > 0) {
+          logger.info(
+            `LLM call answered by fallback provider ${member.provider}`
+          );
+        }
+        return {
+          result,
+          attribution: {
+            provider: member.provider,
+            model: member.model,
+            attempts,
+            failedOver: [...skipped, ...failedOver],
+          },
+        };
+      } catch (error) {
+        if (options.signal?.aborted || !isRetryableError(error)) {
+          breaker.releaseProbe();
+          throw error;
+        }
+        breaker.recordFailure();
+        const message = error instanceof Error ? error.message : String(error);
+        logger.warn(
+          `LLM provider ${member.provider} failed after ${attempts} attempts: ${message}`
+        );
+        failedOver.push(member.provider);
+        errors.push(`${member.provider}: ${message}`);
+        lastError = error;
+      }
+    }
+    throw new Error(`All LLM providers failed (${errors.join("; ")})`, {
+      cause: lastError,
+    });
+  }
+}
+
+/** Which provider produced a model reply, if it came through the chain. */
+export function llmAttribution(message: BaseMessage): LlmAttribution | null {
+  return (
+    (message.response_metadata?.llm as LlmAttribution | undefined) ?? null
+  );
+}
+
+/** Circuit state of each provider in the chain, for health checks. */
+export function llmProviderHealth(providers: LLMProvider[]): Array<{
+  provider: LLMProvider;
+  circuit: CircuitStatus;
+  consecutiveFailures: number;
+}> {
+  return providers.map((provider) => {
+    const breaker = circuitBreaker(provider);
+    return {
+      provider,
+      circuit: breaker.status(),
+      consecutiveFailures: breaker.consecutiveFailures,
+    };
+  });
+}
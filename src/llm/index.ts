@@ -0,0 +1,25 @@
+export { getLLM, getLLMModel, providerModel } from "./factory.js";
+export {
+  CircuitBreaker,
+  FailoverChatModel,
+  circuitBreaker,
+  llmAttribution,
+  llmProviderHealth,
+} from "./failover.js";
+export type {
+  CircuitStatus,
+  FailoverCallOptions,
+  FailoverMember,
+} from "./failover.js";
+export {
+  ScriptedChatModel,
+  DEFAULT_CHAT_SCRIPT,
+  loadChatScript,
+} from "./scripted-chat-model.js";
+export type {
+  ChatScript,
+  ScriptRule,
+  ScriptedResponse,
+  ScriptedToolCall,
+  ScriptedChatModelFields,
+} from "./scripted-chat-model.js";
@@ -0,0 +1,343 @@
+import { readFileSync } from "fs";
+import {
+  BaseChatModel,
+  type BaseChatModelCallOptions,
+  type BindToolsInput,
+} from "@langchain/core/language_models/chat_models";
+import type { BaseLanguageModelInput } from "@langchain/core/language_models/base";
+import type { CallbackManagerForLLMRun } from "@langchain/core/callbacks/manager";
+import {
+  AIMessage,
+  AIMessageChunk,
+  type BaseMessage,
+} from "@langchain/core/messages";
+import { ChatGenerationChunk, type ChatResult } from "@langchain/core/outputs";
+import type { Runnable } from "@langchain/core/runnables";
+import {
+  estimateTokens,
+  getMessageText,
+  safeJsonParse,
+} from "../utils/index.js";
+
+// ── Script Format ───────────────────────────────────────────────────
+
+export interface ScriptedToolCall {
+  name: string;
+  args: Record<string, unknown>;
+  id?: string;
+}
+
+export interface ScriptedResponse {
+  content?: string;
+  toolCalls?: ScriptedToolCall[];
+}
+
+/**
+ * A scripted reply sequence. `match` is tested against the latest user
+ * message: a plain string matches case-insensitively as a substring,
+ * `/pattern/flags` is a regular expression, and a rule without `match`
+ * matches everything. `responses[n]` answers the n-th model call of the
+ * turn; the last response repeats once the list runs out.
+ */
+export interface ScriptRule {
+  match?: string;
+  responses: ScriptedResponse[];
+}
+
+/**
+ * Fixture format for `LLM_PROVIDER=mock`. Rules are tried in order and
+ * the first match wins.
+ *
+ * Strings in responses (content and tool-call args) may use templates:
+ * - `{{question}}`: the latest user message
+ * - `{{cite:N}}`: `[c:xxxxxxxx]` marker of the N-th chunk in the latest
+ *   tool result that returned chunks, even one from before the latest human message
+ * - `{{text:N}}`: text of that chunk
+ */
+export interface ChatScript {
+  rules: ScriptRule[];
+}
+
+/**
+ * Built-in script for offline demos: search for the question, then
+ * quote the best chunk with its citation.
+ */
+export const DEFAULT_CHAT_SCRIPT: ChatScript = {
+  rules: [
+    {
+      responses: [
+        {
+          toolCalls: [
+            {
+              name: "knowledge_base_retrieval",
+              args: { query: "{{question}}" },
+            },
+          ],
+        },
+        {
+          content:
+            "Here is the most relevant passage I found:\n\n{{text:1}} {{cite:1}}",
+        },
+      ],
+    },
+  ],
+};
+
+const _scripts = new Map<string, ChatScript>();
+
+/** Load (and cache) a chat script fixture from a JSON file. */
+export function loadChatScript(filePath: string): ChatScript {
+  const cached = _scripts.get(filePath);
+  if (cached) return cached;
+
+  const script = JSON.parse(readFileSync(filePath, "utf8")) as ChatScript;
+  if (!Array.isArray(script.rules)) {
+    throw new Error(`Invalid chat script ${filePath}: "rules" must be an array`);
+  }
+  for (const [i, rule] of script.rules.entries()) {
+    if (!Array.isArray(rule.responses) || rule.responses.length === 0) {
+      throw new Error(
+        `Invalid chat script ${filePath}: rule ${i} has no responses`
+      );
+    }
+  }
+  _scripts.set(filePath, script);
+  return script;
+}
+
+// ── Script Evaluation ───────────────────────────────────────────────
+
+interface TurnContext {
+  question: string;
+  /** Number of model calls already made in this turn. */
+  step: number;
+  chunks: Array<{ citation?: string; text?: string }>;
+}
+
+function readTurn(messages: BaseMessage[]): TurnContext {
+  let lastHuman = -1;
+  for (let i = messages.length - 1; i >= 0; i--) {
+    if (messages[i]._getType() === "human") {
+      lastHuman = i;
+      break;
+    }
+  }
+
+  const turn = messages.slice(lastHuman + 1);
+  // Search the whole conversation: revision and partial-answer prompts
+  // arrive as human messages after the turn's tool results. Skip results
+  // without chunks (e.g. the calculator) so markers still resolve.
+  const chunks =
+    messages
+      .filter((m) => m._getType() === "tool")
+      .map(
+        (m) =>
+          safeJsonParse<{ chunks?: TurnContext["chunks"] }>(
+            getMessageText(m),
+            {}
+          ).chunks
+      )
+      .reverse()
+      .find((c) => Array.isArray(c)) ?? [];
+
+  return {
+    question: lastHuman >= 0 ? getMessageText(messages[lastHuman]) : "",
+    step: turn.filter((m) => m._getType() === "ai").length,
+    chunks,
+  };
+}
+
+function matches(rule: ScriptRule, question: string): boolean {
+  if (rule.match === undefined) return true;
+  const regex = /^\/(.*)\/([a-z]*)$/s.exec(rule.match);
+  if (regex) return new RegExp(regex[1], regex[2]).test(question);
+  return question.toLowerCase().includes(rule.match.toLowerCase());
+}
+
+function render(template: string, context: TurnContext): string {
+  return template.replace(
+    /\{\{\s*(question|cite|text)(?::(\d+))?\s*\}\}/g,
+    (_match, name: string, n?: string) => {
+      if (name === "question") return context.question;
+      const chunk = context.chunks[Number(n ?? 1) - 1];
+      if (!chunk) return "";
+      if (name === "cite") return chunk.citation ? `[${chunk.citation}]` : "";
+      return chunk.text ?? "";
+    }
+  );
+}
+
+function renderValue(value: unknown, context: TurnContext): unknown {
+  if (typeof value === "string") return render(value, context);
+  if (Array.isArray(value)) return value.map((v) => renderValue(v, context));
+  if (value && typeof value === "object") {
+    return Object.fromEntries(
+      Object.entries(value).map(([k, v]) => [k, renderValue(v, context)])
+    );
+  }
+  return value;
+}
+
+/** Tools passed in the call options, if any. */
+function callTools(options: object): BindToolsInput[] | undefined {
+  return (options as { tools?: BindToolsInput[] }).tools;
+}
+
+// ── Scripted Chat Model ─────────────────────────────────────────────
+
+export interface ScriptedChatModelFields {
+  script: ChatScript;
+}
+
+/**
+ * Deterministic chat model that replays a `ChatScript`. Replies depend
+ * only on the messages passed in, so the same conversation always
+ * produces the same answers, tool calls included. Used for
+ * `LLM_PROVIDER=mock`: offline demos and graph-level tests of routing,
+ * tool execution and the iteration guard without a paid API.
+ */
+export class ScriptedChatModel extends BaseChatModel {
+  readonly script: ChatScript;
+  private boundTools: string[] | null = null;
+
+  constructor(fields: ScriptedChatModelFields) {
+    super({});
+    this.script = fields.script;
+  }
+
+  _llmType(): string {
+    return "scripted";
+  }
+
+  /**
+   * Returns a copy that only allows scripted calls to the given tools,
+   * so a script that names an unknown tool fails loudly.
+   */
+  override bindTools(
+    tools: BindToolsInput[],
+    kwargs?: Partial<BaseChatModelCallOptions>
+  ): Runnable<BaseLanguageModelInput, AIMessageChunk, BaseChatModelCallOptions> {
+    const next = new ScriptedChatModel({ script: this.script });
+    next.boundTools = [
+      ...(this.boundTools ?? []),
+      ...tools.map((tool) => toolName(tool)),
+    ];
+    return next.withConfig({ ...kwargs });
+  }
+
+  /**
+   * Pick and render the scripted reply for `messages`. `tools` are ones
+   * passed in the call options (as the failover chain does) rather than
+   * bound with `bindTools`.
+   */
+  respond(messages: BaseMessage[], tools?: BindToolsInput[]): AIMessage {
+    const allowed = tools ? tools.map((tool) => toolName(tool)) : this.boundTools;
+    const context = readTurn(messages);
+    const rule = this.script.rules.find((r) => matches(r, context.question));
+    if (!rule) {
+      throw new Error(
+        `No chat script rule matches: "${context.question.substring(0, 80)}"`
+      );
+    }
+
+    const scripted =
+      rule.responses[Math.min(context.step, rule.responses.length - 1)];
+    const toolCalls = (scripted.toolCalls ?? []).map((call, i) => {
+      if (allowed && !allowed.includes(call.name)) {
+        throw new Error(`Chat script calls unbound tool: ${call.name}`);
+      }
+      return {
+        id: call.id ?? `call_${context.step + 1}_${i + 1}`,
+        name: call.name,
+        args: renderValue(call.args, context) as Record<string, unknown>,
+        type: "tool_call" as const,
+      };
+    });
+
+    const content = render(scripted.content ?? "", context);
+    const inputTokens = messages.reduce(
+      (sum, m) => sum + estimateTokens(getMessageText(m)),
+      0
+    );
+    const outputTokens = estimateTokens(content + JSON.stringify(toolCalls));
+    return new AIMessage({
+      content,
+      tool_calls: toolCalls,
+      usage_metadata: {
+        input_tokens: inputTokens,
+        output_tokens: outputTokens,
+        total_tokens: inputTokens + outputTokens,
+      },
+    });
+  }
+
+  async _generate(
+    messages: BaseMessage[],
+    options: this["ParsedCallOptions"]
+  ): Promise<ChatResult> {
+    const message = this.respond(messages, callTools(options));
+    return {
+      generations: [{ text: getMessageText(message), message }],
+    };
+  }
+
+  async *_streamResponseChunks(
+    messages: BaseMessage[],
+    options: this["ParsedCallOptions"],
+    runManager?: CallbackManagerForLLMRun
+  ): AsyncGenerator<ChatGenerationChunk> {
+    const message = this.respond(messages, callTools(options));
+    const text = getMessageText(message);
+
+    // Stream word by word so SSE clients see incremental tokens
+    for (const piece of text.match(/\S+\s*|\s+/g) ?? []) {
+      const chunk = new ChatGenerationChunk({
+        message: new AIMessageChunk({ content: piece }),
+        text: piece,
+      });
+      yield chunk;
+      await runManager?.handleLLMNewToken(
+        piece,
+        undefined,
+        undefined,
+        undefined,
+        undefined,
+        { chunk }
+      );
+    }
+
+    if (message.tool_calls?.length) {
+      yield new ChatGenerationChunk({
+        message: new AIMessageChunk({
+          content: "",
+          tool_call_chunks: message.tool_calls.map((call, index) => ({
+            id: call.id,
+            name: call.name,
+            args: JSON.stringify(call.args),
+            index,
+            type: "tool_call_chunk" as const,
+          })),
+        }),
+        text: "",
+      });
+    }
+
+    yield new ChatGenerationChunk({
+      message: new AIMessageChunk({
+        content: "",
+        usage_metadata: message.usage_metadata,
+      }),
+      text: "",
+    });
+  }
+}
+
+function toolName(tool: BindToolsInput): string {
+  const candidate = tool as {
+    name?: string;
+    function?: { name?: string };
+  };
+  const name = candidate.name ?? candidate.function?.name;
+  if (!name) throw new Error("Cannot bind a tool without a name");
+  return name;
+}
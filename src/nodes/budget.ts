@@ -0,0 +1,112 @@
+import { z } from "zod";
+import type { AIMessage } from "@langchain/core/messages";
+import { getConfig } from "../config/index.js";
+import { getCurrentTurn, getMessageText, safeJsonParse } from "../utils/index.js";
+import type { AgentState } from "../state/schemas.js";
+import type { BudgetLimit, BudgetReport, RunBudget } from "../types/index.js";
+
+// ── Run Budgets ─────────────────────────────────────────────────────
+
+export const runBudgetSchema = z
+  .object({
+    maxIterations: z.number().int().min(0).optional(),
+    maxTokens: z.number().int().min(0).optional(),
+    maxToolCalls: z.number().int().min(0).optional(),
+    timeoutMs: z.number().int().min(0).optional(),
+  })
+  .strict();
+
+/** The server's default budget from the `RUN_*` settings. */
+function configBudget(): Required<RunBudget> {
+  const config = getConfig();
+  return {
+    maxIterations: config.runMaxIterations,
+    maxTokens: config.runMaxTokens,
+    maxToolCalls: config.runMaxToolCalls,
+    timeoutMs: config.runTimeoutMs,
+  };
+}
+
+/**
+ * The effective budget for a run: each requested limit, capped by the
+ * server's. `0` means unlimited on either side.
+ */
+export function resolveRunBudget(requested: RunBudget = {}): Required<RunBudget> {
+  const defaults = configBudget();
+  const cap = (limit: number | undefined, max: number) =>
+    !limit ? max : !max ? limit : Math.min(limit, max);
+  return {
+    maxIterations: cap(requested.maxIterations, defaults.maxIterations),
+    maxTokens: cap(requested.maxTokens, defaults.maxTokens),
+    maxToolCalls: cap(requested.maxToolCalls, defaults.maxToolCalls),
+    timeoutMs: cap(requested.timeoutMs, defaults.timeoutMs),
+  };
+}
+
+/** When a run with `budget` starting at `now` must finish, or null. */
+export function runDeadline(
+  budget: Required<RunBudget>,
+  now = Date.now()
+): number | null {
+  return budget.timeoutMs > 0 ? now + budget.timeoutMs : null;
+}
+
+/** Status of the tool results written for calls a run had no budget left for. */
+export const SKIPPED_TOOL_STATUS = "skipped";
+
+/** Tool calls run in the current turn (skipped ones don't count). */
+function toolCallsUsed(state: AgentState): number {
+  return getCurrentTurn(state.messages).filter(
+    (m) =>
+      m._getType() === "tool" &&
+      safeJsonParse<{ status?: string }>(getMessageText(m), {}).status !==
+        SKIPPED_TOOL_STATUS
+  ).length;
+}
+
+function pendingToolCalls(state: AgentState): number {
+  const last = state.messages[state.messages.length - 1] as
+    | AIMessage
+    | undefined;
+  return last?._getType() === "ai" ? (last.tool_calls?.length ?? 0) : 0;
+}
+
+/**
+ * The limit the run has hit, or null if it may go on. Checked before
+ * each tool step, so the pending tool calls must fit in what is left.
+ */
+export function budgetLimitReached(
+  state: AgentState,
+  now = Date.now()
+): BudgetLimit | null {
+  if (state.budgetExhausted) return state.budgetExhausted;
+  const budget = state.budget ?? configBudget();
+
+  if (state.deadline !== null && now >= state.deadline) return "deadline";
+  if (budget.maxTokens > 0 && state.usage.totalTokens >= budget.maxTokens) {
+    return "tokens";
+  }
+  if (budget.maxIterations > 0 && state.iterations >= budget.maxIterations) {
+    return "iterations";
+  }
+  if (
+    budget.maxToolCalls > 0 &&
+    toolCallsUsed(state) + pendingToolCalls(state) > budget.maxToolCalls
+  ) {
+    return "tool_calls";
+  }
+  return null;
+}
+
+/** The turn's effective budget, what it used and what cut it short. */
+export function budgetReport(state: AgentState): BudgetReport {
+  return {
+    limits: state.budget ?? configBudget(),
+    used: {
+      iterations: state.iterations,
+      tokens: state.usage.totalTokens,
+      toolCalls: toolCallsUsed(state),
+    },
+    exhausted: state.budgetExhausted,
+  };
+}
@@ -0,0 +1,162 @@
+import type { BaseMessage } from "@langchain/core/messages";
+import { getConfig } from "../config/index.js";
+import {
+  extractFigures,
+  extractFiscalYears,
+  getCurrentTurn,
+  getMessageText,
+  logger,
+  safeJsonParse,
+  splitThinking,
+  supportsFigure,
+  yearsMentioned,
+} from "../utils/index.js";
+import type { AgentState, AgentStateUpdate } from "../state/schemas.js";
+import type { GroundingReport, UnsupportedFigure } from "../types/index.js";
+import { agentMode, documentAnswer } from "./modes.js";
+
+// ── Grounding Check ─────────────────────────────────────────────────
+
+const CITATION_MARKER_PATTERN = /\[\s*c:[0-9a-f]{8}[^\]]*\]/g;
+
+/**
+ * Text the answer may draw figures from: the chunk texts of every tool
+ * result in the turn (or the raw result when it isn't a chunk list).
+ */
+function groundingContext(turn: BaseMessage[]): string {
+  return turn
+    .filter((m) => m._getType() === "tool")
+    .map((m) => {
+      const text = getMessageText(m);
+      const payload = safeJsonParse<{ chunks?: Array<{ text?: string }> }>(
+        text,
+        {}
+      );
+      return Array.isArray(payload.chunks)
+        ? payload.chunks.map((c) => c.text ?? "").join("\n")
+        : text;
+    })
+    .join("\n");
+}
+
+/**
+ * Check every dollar amount, percentage and fiscal year in `answer`
+ * against the tool results of the turn. A figure stated with less
+ * precision than the source ("$12.3 million" for 12,312,000) counts as
+ * supported; anything absent from the sources does not.
+ */
+export function checkGrounding(
+  answer: string,
+  turn: BaseMessage[]
+): { checkedFigures: number; unsupported: UnsupportedFigure[] } {
+  const text = answer.replace(CITATION_MARKER_PATTERN, "");
+  const context = groundingContext(turn);
+  const contextFigures = extractFigures(context);
+  const contextYears = yearsMentioned(context);
+
+  const unsupported: UnsupportedFigure[] = [];
+  let checkedFigures = 0;
+
+  for (const figure of extractFigures(text)) {
+    if (figure.kind === "number") continue;
+    checkedFigures++;
+    const supported = contextFigures.some((source) =>
+      supportsFigure(source, figure)
+    );
+    if (!supported) unsupported.push({ text: figure.raw, kind: figure.kind });
+  }
+
+  for (const mention of extractFiscalYears(text)) {
+    checkedFigures++;
+    if (!contextYears.has(mention.year)) {
+      unsupported.push({ text: mention.raw, kind: "fiscal_year" });
+    }
+  }
+
+  // The same figure may be repeated in an answer; report it once
+  const seen = new Set<string>();
+  return {
+    checkedFigures,
+    unsupported: unsupported.filter((f) => {
+      const key = `${f.kind}:${f.text}`;
+      if (seen.has(key)) return false;
+      seen.add(key);
+      return true;
+    }),
+  };
+}
+
+/**
+ * Instruction sent with the draft answer when it is returned to the
+ * agent for its single revision pass.
+ */
+export function revisionPrompt(unsupported: UnsupportedFigure[]): string {
+  const list = unsupported.map((f) => `- ${f.text}`).join("\n");
+  return `Your answer states figures that do not appear in the retrieved chunks:
+
+${list}
+
+Rewrite your answer using only figures that appear verbatim in the tool results above. Correct or remove each figure listed; if the documents do not contain the figure, say that the information was not found. Do not call any tools. Reply with the complete revised answer only.`;
+}
+
+// ── Verify Node ─────────────────────────────────────────────────────
+
+/**
+ * Runs after the agent's final answer. Unsupported figures send the
+ * answer back to the agent for one revision pass (`GROUNDING_MODE=revise`)
+ * or are flagged in `state.grounding` for the API to return. In AI mode
+ * the labelled general knowledge section isn't checked.
+ */
+export async function verifyNode(
+  state: AgentState
+): Promise<Partial<AgentStateUpdate>> {
+  const mode = getConfig().groundingMode;
+  if (mode === "off") return { grounding: null, currentStep: "verify" };
+
+  const turn = getCurrentTurn(state.messages);
+  const last = turn[turn.length - 1];
+  const { content } = splitThinking(last ? getMessageText(last) : "");
+  const { checkedFigures, unsupported } = checkGrounding(
+    agentMode(state) === "ai" ? documentAnswer(content) : content,
+    turn
+  );
+  const previous = state.grounding;
+
+  let grounding: GroundingReport;
+  if (previous?.status === "revising") {
+    grounding = {
+      status: unsupported.length ? "flagged" : "revised",
+      checkedFigures,
+      unsupported,
+      revisedFrom: previous.unsupported,
+    };
+  } else if (unsupported.length === 0) {
+    grounding = { status: "verified", checkedFigures, unsupported };
+  } else {
+    // A run out of budget has nothing left for a revision pass
+    grounding = {
+      status:
+        mode === "revise" && !state.budgetExhausted ? "revising" : "flagged",
+      checkedFigures,
+      unsupported,
+    };
+  }
+
+  if (unsupported.length) {
+    logger.warn(
+      `Unsupported figures in answer (${grounding.status}): ${unsupported
+        .map((f) => f.text)
+        .join(", ")}`
+    );
+  }
+
+  return { grounding, currentStep: "verify" };
+}
+
+/**
+ * Routes after verification: back to the agent for a revision pass,
+ * otherwise end the turn.
+ */
+export function routeVerification(state: AgentState): "agent" | "__end__" {
+  return state.grounding?.status === "revising" ? "agent" : "__end__";
+}
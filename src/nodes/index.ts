@@ -1 +1,28 @@
-export { agentNode, toolNode, routeAgentResponse, getLLM } from "./rag-nodes.js";
+export {
+  agentNode,
+  createToolNode,
+  finalizeNode,
+  routeAgentResponse,
+} from "./rag-nodes.js";
+export { getLLM } from "../llm/index.js";
+export {
+  verifyNode,
+  routeVerification,
+  checkGrounding,
+  revisionPrompt,
+} from "./grounding.js";
+export { reviewNode } from "./review.js";
+export {
+  agentMode,
+  documentAnswer,
+  requireSourcesNode,
+  INTERNAL_MODE_REFUSAL,
+} from "./modes.js";
+export { memoryNode } from "./memory.js";
+export {
+  runBudgetSchema,
+  resolveRunBudget,
+  runDeadline,
+  budgetLimitReached,
+  budgetReport,
+} from "./budget.js";
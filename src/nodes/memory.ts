@@ -0,0 +1,227 @@
+import type { AIMessage, BaseMessage } from "@langchain/core/messages";
+import {
+  HumanMessage,
+  RemoveMessage,
+  SystemMessage,
+  ToolMessage,
+} from "@langchain/core/messages";
+import type { RunnableConfig } from "@langchain/core/runnables";
+import { getConfig } from "../config/index.js";
+import { getLLM } from "../llm/index.js";
+import { addUsage, messageUsage } from "../accounting/index.js";
+import { collectRetrievedChunks } from "../agents/citations.js";
+import {
+  estimateTokens,
+  getCurrentTurn,
+  getMessageText,
+  logger,
+  safeJsonParse,
+  splitThinking,
+  truncateText,
+} from "../utils/index.js";
+import type { AgentState, AgentStateUpdate } from "../state/schemas.js";
+import type { RetrievedChunk } from "../types/index.js";
+
+// ── Tool Output Compaction ──────────────────────────────────────────
+
+const COMPACTED_STATUS = "compacted";
+const EXCERPT_LENGTH = 200;
+
+/** Estimated tokens a message takes up in the model's context. */
+function messageTokens(message: BaseMessage): number {
+  const toolCalls = (message as AIMessage).tool_calls ?? [];
+  return estimateTokens(
+    getMessageText(message) +
+      (toolCalls.length > 0 ? JSON.stringify(toolCalls) : "")
+  );
+}
+
+/**
+ * A retrieval result from an earlier turn with each chunk cut down to
+ * its citation, source and a short excerpt. Keeps the message id and
+ * tool call id, so it replaces the original in place. Returns null for
+ * other tool results and ones already compacted.
+ */
+function compactToolOutput(message: BaseMessage): ToolMessage | null {
+  if (message._getType() !== "tool" || !message.id) return null;
+  const payload = safeJsonParse<{
+    status?: string;
+    query?: string;
+    chunks?: RetrievedChunk[];
+  }>(getMessageText(message), {});
+  if (payload.status === COMPACTED_STATUS || !payload.chunks?.length) {
+    return null;
+  }
+
+  const toolMessage = message as ToolMessage;
+  return new ToolMessage({
+    id: message.id,
+    tool_call_id: toolMessage.tool_call_id,
+    name: toolMessage.name,
+    content: JSON.stringify({
+      status: COMPACTED_STATUS,
+      query: payload.query,
+      chunks: payload.chunks.map((chunk) => ({
+        rank: chunk.rank,
+        citation: chunk.citation,
+        source: chunk.source,
+        text: truncateText(chunk.text ?? "", EXCERPT_LENGTH),
+      })),
+    }),
+  });
+}
+
+// ── Summarization ───────────────────────────────────────────────────
+
+const SUMMARY_PROMPT = `You maintain the running summary of a conversation between a user and a budget-document assistant. The assistant will continue the conversation from your summary instead of the full transcript.
+
+Keep:
+- Each question the user asked and the answer given, in order
+- Every figure, fiscal year, department, fund and jurisdiction exactly as written
+- The citation marker (e.g. [c:1a2b3c4d]) and source document and page after each fact it supports
+- Filters or preferences the user set, and anything left unanswered
+
+Write concise markdown bullets. Merge the new turns into the existing summary rather than repeating it. Reply with the summary only.`;
+
+function sourceLabel(chunk: RetrievedChunk): string {
+  const title = chunk.source?.title ?? chunk.source?.uri ?? "unknown source";
+  return chunk.source?.page ? `${title}, p. ${chunk.source.page}` : title;
+}
+
+/**
+ * Plain-text transcript of `messages` for the summarizer. Tool results
+ * are left out; instead the sources behind every cited marker are
+ * listed, so the summary can name them.
+ */
+function transcript(messages: BaseMessage[]): string {
+  const lines: string[] = [];
+  const cited = new Set<string>();
+  for (const message of messages) {
+    const type = message._getType();
+    if (type === "human") {
+      lines.push(`User: ${getMessageText(message)}`);
+    } else if (type === "ai") {
+      for (const call of (message as AIMessage).tool_calls ?? []) {
+        lines.push(`Assistant called ${call.name}: ${JSON.stringify(call.args)}`);
+      }
+      const text = splitThinking(getMessageText(message)).content;
+      if (text) lines.push(`Assistant: ${text}`);
+      for (const [marker] of text.matchAll(/c:[0-9a-f]{8}/g)) cited.add(marker);
+    }
+  }
+
+  const chunks = collectRetrievedChunks(messages);
+  const sources = [...cited]
+    .filter((marker) => chunks.has(marker))
+    .map((marker) => `- [${marker}] ${sourceLabel(chunks.get(marker)!)}`);
+  if (sources.length > 0) lines.push("", "Sources cited:", ...sources);
+  return lines.join("\n");
+}
+
+/** Split messages into turns, each starting at a user message. */
+function splitTurns(messages: BaseMessage[]): BaseMessage[][] {
+  const turns: BaseMessage[][] = [];
+  for (const message of messages) {
+    if (message._getType() === "human" || turns.length === 0) turns.push([]);
+    turns[turns.length - 1].push(message);
+  }
+  return turns;
+}
+
+// ── Memory Node ─────────────────────────────────────────────────────
+
+/**
+ * Keeps the thread's history within the context window before each
+ * turn (`MEMORY_MODE`). History within `MEMORY_MAX_TOKENS` is left as
+ * is, so follow-up questions still see every retrieved figure; over it:
+ * - compact: retrieval results of earlier turns are cut down to
+ *   citations, sources and short excerpts
+ * - trim: as compact, and when the history is still over
+ *   `MEMORY_MAX_TOKENS` all but the last `MEMORY_KEEP_TURNS` turns are
+ *   dropped
+ * - summarize: as trim, but the dropped turns are first folded into
+ *   the running `summary`, which the agent sees in its system prompt
+ *
+ * A failed summarization leaves the turns in place.
+ */
+export async function memoryNode(
+  state: AgentState,
+  config?: RunnableConfig
+): Promise<Partial<AgentStateUpdate>> {
+  const { memoryMode, memoryMaxTokens, memoryKeepTurns } = getConfig();
+  const update = { currentStep: "memory" };
+  const history = state.messages.slice(
+    0,
+    state.messages.length - getCurrentTurn(state.messages).length
+  );
+  if (memoryMode === "off" || history.length === 0) return update;
+  const fullTokens = history.reduce((sum, m) => sum + messageTokens(m), 0);
+  if (fullTokens <= memoryMaxTokens) return update;
+
+  const compacted = new Map<string, ToolMessage>();
+  for (const message of history) {
+    const replacement = compactToolOutput(message);
+    if (replacement) compacted.set(message.id!, replacement);
+  }
+  const kept = history.map((m) => (m.id && compacted.get(m.id)) || m);
+  const tokens = kept.reduce((sum, m) => sum + messageTokens(m), 0);
+
+  const turns = splitTurns(kept);
+  const folded = turns.slice(0, Math.max(0, turns.length - memoryKeepTurns)).flat();
+  if (
+    memoryMode === "compact" ||
+    tokens <= memoryMaxTokens ||
+    folded.length === 0 ||
+    folded.some((m) => !m.id)
+  ) {
+    return compacted.size > 0
+      ? { ...update, messages: [...compacted.values()] }
+      : update;
+  }
+
+  const removed = folded.map((m) => new RemoveMessage({ id: m.id! }));
+  const remaining = [...compacted.values()].filter(
+    (m) => !folded.some((f) => f.id === m.id)
+  );
+  if (memoryMode === "trim") {
+    logger.info(`Memory: dropping ${folded.length} messages (${tokens} tokens of history)`);
+    return { ...update, messages: [...remaining, ...removed] };
+  }
+
+  const request = [
+    new SystemMessage(SUMMARY_PROMPT),
+    new HumanMessage(
+      `## Existing summary\n\n${state.summary ?? "(none)"}\n\n` +
+        `## Conversation to add\n\n${transcript(folded)}`
+    ),
+  ];
+  let response: BaseMessage;
+  try {
+    response = await getLLM().invoke(request, { signal: config?.signal });
+  } catch (error) {
+    if (config?.signal?.aborted) throw error;
+    logger.warn(`Memory: summarization failed, keeping history: ${error}`);
+    return { ...update, messages: [...compacted.values()] };
+  }
+
+  const spent = messageUsage(response);
+  const usage = {
+    usage: addUsage(state.usage, spent),
+    threadUsage: addUsage(state.threadUsage, spent),
+  };
+  const summary = splitThinking(getMessageText(response)).content;
+  if (!summary) {
+    logger.warn("Memory: summarization returned nothing, keeping history");
+    return { ...update, ...usage, messages: [...compacted.values()] };
+  }
+
+  logger.info(
+    `Memory: summarized ${folded.length} messages (${tokens} tokens of history)`
+  );
+  return {
+    ...update,
+    ...usage,
+    summary,
+    messages: [...remaining, ...removed],
+  };
+}
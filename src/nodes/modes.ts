@@ -0,0 +1,63 @@
+import { AIMessage, RemoveMessage } from "@langchain/core/messages";
+import { getConfig } from "../config/index.js";
+import { resolveCitations } from "../agents/citations.js";
+import {
+  getCurrentTurn,
+  getMessageText,
+  logger,
+  splitThinking,
+} from "../utils/index.js";
+import type { AgentState, AgentStateUpdate } from "../state/schemas.js";
+import type { AgentMode } from "../types/index.js";
+
+// ── Agent Modes ─────────────────────────────────────────────────────
+
+/** The mode a run answers in: the turn's, else `AGENT_MODE`. */
+export function agentMode(state: Pick<AgentState, "mode">): AgentMode {
+  return state.mode ?? getConfig().agentMode;
+}
+
+/** A heading starting with "General knowledge", however it ends. */
+const GENERAL_KNOWLEDGE_PATTERN = /^#{1,6}\s*\**general knowledge\b/im;
+
+/**
+ * The part of an AI mode answer drawn from the documents: everything
+ * before its `GENERAL_KNOWLEDGE_HEADING`, which is what grounding
+ * checks.
+ */
+export function documentAnswer(answer: string): string {
+  const match = GENERAL_KNOWLEDGE_PATTERN.exec(answer);
+  return match ? answer.slice(0, match.index) : answer;
+}
+
+// ── Require Sources Node ────────────────────────────────────────────
+
+export const INTERNAL_MODE_REFUSAL =
+  "I couldn't find an answer to this in the budget documents, so I can't answer it in Internal mode. Try rephrasing the question or naming the department, fund or fiscal year, or switch to AI mode for general public-finance information.";
+
+/**
+ * Internal mode only releases answers backed by the knowledge base:
+ * when the turn retrieved nothing, or the answer cites none of the
+ * retrieved chunks, the answer is replaced with a refusal.
+ */
+export async function requireSourcesNode(
+  state: AgentState
+): Promise<Partial<AgentStateUpdate>> {
+  const turn = getCurrentTurn(state.messages);
+  const last = turn[turn.length - 1];
+  if (last?._getType() !== "ai") return { currentStep: "require_sources" };
+
+  const { content } = splitThinking(getMessageText(last));
+  const { citations } = resolveCitations(content, turn);
+  if (citations.length > 0) return { currentStep: "require_sources" };
+
+  logger.warn("Internal mode answer cites no retrieved chunks, refusing");
+  const refusal = new AIMessage({
+    content: INTERNAL_MODE_REFUSAL,
+    response_metadata: last.response_metadata,
+  });
+  return {
+    messages: last.id ? [new RemoveMessage({ id: last.id }), refusal] : [refusal],
+    currentStep: "require_sources",
+  };
+}
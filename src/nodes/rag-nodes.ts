@@ -1,133 +1,325 @@
 import { ToolNode } from "@langchain/langgraph/prebuilt";
-import { ChatBedrockConverse } from "@langchain/aws";
-import { ChatOpenAI } from "@langchain/openai";
-import { ChatAnthropic } from "@langchain/anthropic";
 import type { BaseChatModel } from "@langchain/core/language_models/chat_models";
-import type { AIMessage } from "@langchain/core/messages";
-import { SystemMessage } from "@langchain/core/messages";
+import type { BaseMessage } from "@langchain/core/messages";
+import {
+  AIMessage,
+  HumanMessage,
+  RemoveMessage,
+  SystemMessage,
+  ToolMessage,
+} from "@langchain/core/messages";
 import type { RunnableConfig } from "@langchain/core/runnables";
-import { getConfig } from "../config/index.js";
-import { ragTools } from "../tools/index.js";
-import { logger } from "../utils/index.js";
+import { getLLM } from "../llm/index.js";
+import {
+  assignPrompt,
+  getPromptTemplate,
+  personaPrompt,
+  renderPrompt,
+} from "../prompts/index.js";
+import type { PromptTemplate } from "../prompts/index.js";
+import { getTenant, tenantIdFromConfig } from "../tenants/index.js";
+import { addUsage, messageUsage } from "../accounting/index.js";
+import { modeTools } from "../tools/index.js";
+import { getMessageText, logger } from "../utils/index.js";
 import type { AgentState, AgentStateUpdate } from "../state/schemas.js";
+import type { AgentMode, BudgetLimit, Tenant } from "../types/index.js";
+import { revisionPrompt } from "./grounding.js";
+import { SKIPPED_TOOL_STATUS, budgetLimitReached } from "./budget.js";
+import { agentMode } from "./modes.js";
 
 // ── System Prompt ───────────────────────────────────────────────────
 
-const SYSTEM_PROMPT = `You are a Budget Book RAG Assistant — an expert at answering questions about government and organizational budget documents.
-
-You have access to a retrieval tool that searches an AWS Bedrock Knowledge Base containing budget book documents.
-
-## How You Work
-
-1. When a user asks a question, use the \`knowledge_base_retrieval\` tool to search for relevant budget document chunks.
-2. Analyze the retrieved chunks carefully and synthesize a clear, accurate answer.
-3. If the retrieved context doesn't fully answer the question, you may:
-   - Rephrase your query and search again for better results
-   - Search for related terms or concepts
-   - Clearly state what information you found vs. what is missing
-4. Always cite which document(s) your answer is based on when possible.
-
-## Guidelines
-
-- **Accuracy**: Only state facts that are supported by the retrieved chunks. Do not hallucinate or infer budget figures.
-- **Transparency**: If the retrieved context is insufficient, say so clearly rather than guessing.
-- **Specificity**: When discussing budget figures, include exact numbers, line items, and fiscal years from the source documents.
-- **Format**: Structure your responses with markdown formatting — use headings, bold, numbered lists, and bullet points for clarity.
-
-## Response Format
-
-Structure your answers with:
-- A direct answer to the question
-- Supporting details from the retrieved chunks
-- Any caveats about information completeness`;
-
-// ── LLM Factory ─────────────────────────────────────────────────────
-
-export function getLLM(): BaseChatModel {
-  const config = getConfig();
-
-  switch (config.llmProvider) {
-    case "bedrock":
-      return new ChatBedrockConverse({
-        model: config.bedrockLlmModel,
-        region: config.awsRegion,
-        temperature: config.llmTemperature,
-        maxTokens: config.llmMaxTokens,
-      });
-
-    case "openai":
-      return new ChatOpenAI({
-        modelName: config.openaiModel,
-        openAIApiKey: config.openaiApiKey,
-        temperature: config.llmTemperature,
-        maxTokens: config.llmMaxTokens,
-      });
-
-    case "anthropic":
-      return new ChatAnthropic({
-        modelName: config.anthropicModel,
-        anthropicApiKey: config.anthropicApiKey,
-        temperature: config.llmTemperature,
-        maxTokens: config.llmMaxTokens,
-      });
-
-    default:
-      throw new Error(`Unsupported LLM provider: ${config.llmProvider}`);
-  }
+/**
+ * The thread's prompt template: the version pinned in state, else one
+ * picked from the tenant's persona for the run's mode (runs that bypass
+ * the agent API, e.g. LangGraph Studio).
+ */
+function threadPrompt(
+  state: AgentState,
+  tenant: Tenant | undefined,
+  config?: RunnableConfig
+): PromptTemplate {
+  const pinned = state.promptVersion && getPromptTemplate(state.promptVersion);
+  if (pinned) return pinned;
+  return assignPrompt(
+    personaPrompt(tenant?.persona, agentMode(state)),
+    String(config?.configurable?.thread_id ?? "")
+  );
+}
+
+/**
+ * The thread's system prompt rendered for the tenant's persona,
+ * followed by the running summary of turns that memory management
+ * folded out of the history.
+ */
+function systemMessage(
+  state: AgentState,
+  config?: RunnableConfig
+): SystemMessage {
+  const tenant = getTenant(tenantIdFromConfig(config));
+  const prompt = renderPrompt(
+    threadPrompt(state, tenant, config),
+    tenant,
+    state.answerStyle
+  );
+  if (!state.summary) return new SystemMessage(prompt);
+  return new SystemMessage(
+    `${prompt}
+
+## Earlier in This Conversation
+
+Earlier turns are no longer shown in full; this is a summary of them. Its citation markers refer to earlier searches and can't be cited again: search again before relying on a figure from it.
+
+${state.summary}`
+  );
 }
 
 // ── Agent Node ──────────────────────────────────────────────────────
 
+type ToolBoundModel = ReturnType<NonNullable<BaseChatModel["bindTools"]>>;
+
 /**
- * The agent node invokes the LLM with tools bound.
- * It prepends the system prompt and passes the full message history.
+ * Invoke the model, cutting the call off at the run's deadline.
+ * Returns null when the deadline (not the caller's signal) stopped it.
+ */
+async function invokeBeforeDeadline(
+  llm: ToolBoundModel,
+  messages: BaseMessage[],
+  deadline: number | null,
+  signal?: AbortSignal
+): Promise<AIMessage | null> {
+  if (deadline === null) return llm.invoke(messages);
+
+  const controller = new AbortController();
+  const abort = () => controller.abort();
+  const timer = setTimeout(abort, Math.max(0, deadline - Date.now()));
+  signal?.addEventListener("abort", abort, { once: true });
+  try {
+    return await llm.invoke(messages, { signal: controller.signal });
+  } catch (error) {
+    if (controller.signal.aborted && !signal?.aborted) return null;
+    throw error;
+  } finally {
+    clearTimeout(timer);
+    signal?.removeEventListener("abort", abort);
+  }
+}
+
+/** A model reply's tokens and cost, added to the turn and thread totals. */
+function withUsage(
+  state: AgentState,
+  response: BaseMessage
+): Pick<AgentStateUpdate, "usage" | "threadUsage"> {
+  const spent = messageUsage(response);
+  return {
+    usage: addUsage(state.usage, spent),
+    threadUsage: addUsage(state.threadUsage, spent),
+  };
+}
+
+/** The model with the tools of the run's mode bound. */
+function modeModel(state: AgentState): ToolBoundModel {
+  return getLLM().bindTools!([...modeTools[agentMode(state)]]);
+}
+
+/**
+ * The agent node invokes the LLM with the mode's tools bound.
+ * It prepends the system prompt (with the conversation summary, if
+ * any) and passes the message history kept by the memory node.
+ *
+ * When verification sent the answer back (`grounding.status ===
+ * "revising"`), it instead runs a single rewrite pass: the draft stays
+ * in context, followed by a transient instruction listing the
+ * unsupported figures, and the revised answer replaces the draft.
  */
 export async function agentNode(
   state: AgentState,
-  _config?: RunnableConfig
+  config?: RunnableConfig
 ): Promise<Partial<AgentStateUpdate>> {
   logger.debug(`Agent node called, iteration=${state.iterations}`);
 
-  const llm = getLLM();
-  const llmWithTools = llm.bindTools!([...ragTools]);
+  // Out of time or tokens: don't start another call, let the router finalize
+  const limit = budgetLimitReached(state);
+  if (limit === "deadline" || limit === "tokens") {
+    return { budgetExhausted: limit, currentStep: "agent" };
+  }
+
+  const llmWithTools = modeModel(state);
 
-  const systemMessage = new SystemMessage(SYSTEM_PROMPT);
-  const messages = [systemMessage, ...state.messages];
+  const messages = [systemMessage(state, config), ...state.messages];
 
-  const response = await llmWithTools.invoke(messages);
+  if (state.grounding?.status === "revising") {
+    return reviseAnswer(state, llmWithTools, messages, config);
+  }
+
+  const response = await invokeBeforeDeadline(
+    llmWithTools,
+    messages,
+    state.deadline,
+    config?.signal
+  );
+  if (!response) {
+    return { budgetExhausted: "deadline", currentStep: "agent" };
+  }
 
   return {
     messages: [response],
     currentStep: "agent",
     iterations: state.iterations + 1,
+    ...withUsage(state, response),
+  };
+}
+
+async function reviseAnswer(
+  state: AgentState,
+  llmWithTools: ToolBoundModel,
+  messages: BaseMessage[],
+  config?: RunnableConfig
+): Promise<Partial<AgentStateUpdate>> {
+  const draft = state.messages[state.messages.length - 1];
+  const instruction = new HumanMessage(
+    revisionPrompt(state.grounding?.unsupported ?? [])
+  );
+  const response = await invokeBeforeDeadline(
+    llmWithTools,
+    [...messages, instruction],
+    state.deadline,
+    config?.signal
+  );
+  if (!response) {
+    return { budgetExhausted: "deadline", currentStep: "agent" };
+  }
+  const update = {
+    currentStep: "agent",
+    iterations: state.iterations + 1,
+    ...withUsage(state, response),
+  };
+
+  // Tools are still bound (providers reject tool history without them),
+  // but a revision must not start another search: keep only the text.
+  if (!getMessageText(response).trim() || !draft?.id) {
+    logger.warn("Revision pass returned no answer, keeping the draft");
+    return update;
+  }
+
+  const revised = new AIMessage({
+    content: response.content,
+    response_metadata: response.response_metadata,
+    usage_metadata: (response as AIMessage).usage_metadata,
+  });
+  return {
+    ...update,
+    messages: [new RemoveMessage({ id: draft.id }), revised],
+  };
+}
+
+// ── Finalize Node ───────────────────────────────────────────────────
+
+const BUDGET_LABELS: Record<BudgetLimit, string> = {
+  iterations: "research steps",
+  tokens: "token budget",
+  tool_calls: "tool calls",
+  deadline: "time",
+};
+
+function partialAnswerPrompt(limit: BudgetLimit): string {
+  return `You have run out of ${BUDGET_LABELS[limit]} for this question and cannot search or calculate any further. Answer now using only the tool results above. Start by saying that the answer may be incomplete, then give what the retrieved documents do support, with citations, and name what you could not find. Do not call any tools.`;
+}
+
+/**
+ * Runs when the run budget is used up before the agent produced an
+ * answer. Pending tool calls get a "skipped" result (so the thread
+ * history stays valid), then the agent writes a partial answer from
+ * what it has retrieved so far. When the limit is time or tokens no
+ * further model call is made, and a fixed notice is returned instead.
+ */
+export async function finalizeNode(
+  state: AgentState,
+  config?: RunnableConfig
+): Promise<Partial<AgentStateUpdate>> {
+  const limit = budgetLimitReached(state) ?? "iterations";
+  const last = state.messages[state.messages.length - 1] as
+    | AIMessage
+    | undefined;
+  const pending = last?._getType() === "ai" ? (last.tool_calls ?? []) : [];
+  const update = { budgetExhausted: limit, currentStep: "finalize" };
+  logger.warn(`Run budget exhausted (${limit}), finalizing a partial answer`);
+
+  // Cut off mid-revision: the draft already answers the question
+  if (pending.length === 0 && last?._getType() === "ai") return update;
+
+  const skipped = pending.map(
+    (tc) =>
+      new ToolMessage({
+        tool_call_id: tc.id ?? "",
+        name: tc.name,
+        content: JSON.stringify({
+          status: SKIPPED_TOOL_STATUS,
+          message: `Not run: the run's ${BUDGET_LABELS[limit]} ran out.`,
+        }),
+      })
+  );
+  const notice = new AIMessage(
+    `I ran out of ${BUDGET_LABELS[limit]} before I could finish researching this question, so I can't give a complete answer. Please try again, or ask a narrower question.`
+  );
+  if (limit === "deadline" || limit === "tokens") {
+    return { ...update, messages: [...skipped, notice] };
+  }
+
+  // Tools stay bound (providers reject tool history without them), but
+  // only the text of the reply is kept
+  const llmWithTools = modeModel(state);
+  const response = await invokeBeforeDeadline(
+    llmWithTools,
+    [
+      systemMessage(state, config),
+      ...state.messages,
+      ...skipped,
+      new HumanMessage(partialAnswerPrompt(limit)),
+    ],
+    state.deadline,
+    config?.signal
+  );
+  const text = response ? getMessageText(response).trim() : "";
+  const answer = text
+    ? new AIMessage({
+        content: response!.content,
+        response_metadata: response!.response_metadata,
+        usage_metadata: response!.usage_metadata,
+      })
+    : notice;
+  return {
+    ...update,
+    messages: [...skipped, answer],
+    ...(response && withUsage(state, response)),
   };
 }
 
 // ── Tool Node ───────────────────────────────────────────────────────
 
 /**
- * Prebuilt tool executor node. Handles calling the retrieval tool
- * and returning results back into the message history.
+ * Prebuilt tool executor node for a mode's tools. Handles calling the
+ * retrieval tool and returning results back into the message history.
  */
-export const toolNode = new ToolNode([...ragTools]);
+export function createToolNode(mode: AgentMode): ToolNode {
+  return new ToolNode([...modeTools[mode]]);
+}
 
 // ── Router ──────────────────────────────────────────────────────────
 
 /**
  * Routes the agent's response:
+ * - If the run budget is used up before an answer → route to "finalize"
  * - If the LLM produced tool calls → route to "tools" node
  * - Otherwise → route to "__end__" (final answer)
  */
 export function routeAgentResponse(
   state: AgentState
-): "tools" | "__end__" {
-  const { messages, iterations } = state;
+): "tools" | "finalize" | "__end__" {
+  const { messages } = state;
 
-  // Safety: max iterations guard
-  if (iterations >= 10) {
-    logger.warn("Max iterations reached, forcing end");
-    return "__end__";
-  }
+  // The agent node stopped without calling the model
+  if (state.budgetExhausted) return "finalize";
 
   const lastMessage = messages[messages.length - 1];
   if (!lastMessage) return "__end__";
@@ -138,6 +330,8 @@ export function routeAgentResponse(
     Array.isArray(aiMessage.tool_calls) &&
     aiMessage.tool_calls.length > 0
   ) {
+    // Safety: the pending calls must fit in the run budget
+    if (budgetLimitReached(state)) return "finalize";
     logger.debug(
       `Routing to tools: ${aiMessage.tool_calls.map((tc) => tc.name).join(", ")}`
     );
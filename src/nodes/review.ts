@@ -0,0 +1,13 @@
+import type { AgentStateUpdate } from "../state/schemas.js";
+
+// ── Review Node ─────────────────────────────────────────────────────
+
+/**
+ * Pass-through node between verification and the end of the run. It is
+ * the interrupt point for answer review: in review mode the graph pauses
+ * before it with the verified draft as the last message, and a rejected
+ * or edited answer is written as if this node had produced it.
+ */
+export function reviewNode(): Partial<AgentStateUpdate> {
+  return { currentStep: "review" };
+}
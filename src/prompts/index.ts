@@ -0,0 +1,28 @@
+export {
+  ANSWER_STYLE_INSTRUCTIONS,
+  BUILTIN_TEMPLATES,
+  DEFAULT_FISCAL_YEAR,
+  DEFAULT_ORGANIZATION_NAME,
+  GENERAL_KNOWLEDGE_HEADING,
+  PROMPT_ID_PATTERN,
+  PROMPT_VARIABLES,
+  renderTemplate,
+  templateVariables,
+} from "./templates.js";
+export type {
+  PromptTemplate,
+  PromptVariable,
+  PromptVariables,
+} from "./templates.js";
+export {
+  assignPrompt,
+  getPromptTemplate,
+  listPromptTemplates,
+  parsePromptSpec,
+  personaPrompt,
+  promptVariables,
+  renderPrompt,
+  resetPromptRegistry,
+  validatePromptConfig,
+} from "./registry.js";
+export type { PromptVariant } from "./registry.js";
@@ -0,0 +1,228 @@
+import { readdirSync, readFileSync } from "fs";
+import { createHash } from "crypto";
+import path from "path";
+import { getConfig } from "../config/index.js";
+import { listTenants } from "../tenants/index.js";
+import { logger } from "../utils/index.js";
+import type {
+  AgentMode,
+  AnswerStyle,
+  Tenant,
+  TenantPersona,
+} from "../types/index.js";
+import {
+  ANSWER_STYLE_INSTRUCTIONS,
+  BUILTIN_TEMPLATES,
+  DEFAULT_FISCAL_YEAR,
+  DEFAULT_ORGANIZATION_NAME,
+  PROMPT_ID_PATTERN,
+  PROMPT_VARIABLES,
+  renderTemplate,
+  templateVariables,
+} from "./templates.js";
+import type { PromptTemplate, PromptVariables } from "./templates.js";
+
+// ── Registry ────────────────────────────────────────────────────────
+
+let _registry: Map<string, PromptTemplate> | null = null;
+
+function loadTemplateFile(file: string): PromptTemplate {
+  const id = path.basename(file, ".md");
+  const match = PROMPT_ID_PATTERN.exec(id);
+  if (!match) {
+    throw new Error(
+      `Invalid prompt file ${file}: name it <name>@<version>.md, e.g. budget-assistant@2.md`
+    );
+  }
+  const text = readFileSync(file, "utf8").trim();
+  if (!text) throw new Error(`Invalid prompt file ${file}: template is empty`);
+
+  const unknown = templateVariables(text).filter(
+    (name) => !(PROMPT_VARIABLES as readonly string[]).includes(name)
+  );
+  if (unknown.length > 0) {
+    throw new Error(
+      `Invalid prompt file ${file}: unknown variable {{${unknown[0]}}} ` +
+        `(allowed: ${PROMPT_VARIABLES.join(", ")})`
+    );
+  }
+  return { id, name: match[1], version: match[2], text, source: file };
+}
+
+/**
+ * The built-in templates plus every `<name>@<version>.md` file in
+ * `PROMPTS_DIR`. A missing directory just means no extra templates.
+ */
+function loadRegistry(): Map<string, PromptTemplate> {
+  if (_registry) return _registry;
+  const dir = getConfig().promptsDir;
+  const templates = new Map(BUILTIN_TEMPLATES.map((t) => [t.id, t]));
+
+  let files: string[] = [];
+  try {
+    files = readdirSync(dir).filter((f) => f.endsWith(".md")).sort();
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== "ENOENT") throw error;
+  }
+  for (const file of files) {
+    const template = loadTemplateFile(path.join(dir, file));
+    const existing = templates.get(template.id);
+    if (existing) {
+      throw new Error(
+        `Invalid prompt file ${template.source}: ${template.id} is already defined by ${existing.source}`
+      );
+    }
+    templates.set(template.id, template);
+  }
+  if (files.length > 0) {
+    logger.info(`Loaded ${files.length} prompt templates from ${dir}`);
+  }
+
+  _registry = templates;
+  return _registry;
+}
+
+/** Forget the loaded templates (e.g. in tests or scripts). */
+export function resetPromptRegistry(): void {
+  _registry = null;
+}
+
+/** Every template, by name and then version. */
+export function listPromptTemplates(): PromptTemplate[] {
+  return [...loadRegistry().values()].sort(
+    (a, b) =>
+      a.name.localeCompare(b.name) ||
+      a.version.localeCompare(b.version, undefined, { numeric: true })
+  );
+}
+
+/**
+ * The template `ref` names: `name@version` exactly, or the latest
+ * version of `name` (versions compare numerically, so 10 follows 9).
+ */
+export function getPromptTemplate(ref: string): PromptTemplate | undefined {
+  const templates = loadRegistry();
+  if (ref.includes("@")) return templates.get(ref);
+  return listPromptTemplates()
+    .filter((t) => t.name === ref)
+    .at(-1);
+}
+
+// ── Selection ───────────────────────────────────────────────────────
+
+export interface PromptVariant {
+  template: PromptTemplate;
+  weight: number;
+}
+
+/**
+ * Parse a prompt selection: a single template reference, or a weighted
+ * A/B split like `budget-assistant@1:80,budget-assistant@2:20`
+ * (omitted weights count as 1). Throws on unknown templates.
+ */
+export function parsePromptSpec(spec: string): PromptVariant[] {
+  const variants = spec
+    .split(",")
+    .map((part) => part.trim())
+    .filter(Boolean)
+    .map((part) => {
+      const [ref, rawWeight] = part.split(":");
+      const weight = rawWeight === undefined ? 1 : Number(rawWeight);
+      if (!Number.isFinite(weight) || weight <= 0) {
+        throw new Error(`Invalid weight for prompt ${ref}: ${rawWeight}`);
+      }
+      const template = getPromptTemplate(ref.trim());
+      if (!template) throw new Error(`Unknown prompt template: ${ref}`);
+      return { template, weight };
+    });
+  if (variants.length === 0) throw new Error("Empty prompt selection");
+  return variants;
+}
+
+/**
+ * Pick a template from a selection. Weighted splits hash `seed` (e.g.
+ * the thread id) into a bucket, so the same seed always gets the same
+ * variant and assignments follow the weights across seeds.
+ */
+export function assignPrompt(spec: string, seed: string): PromptTemplate {
+  const variants = parsePromptSpec(spec);
+  if (variants.length === 1) return variants[0].template;
+
+  const total = variants.reduce((sum, v) => sum + v.weight, 0);
+  const hash = createHash("sha256").update(seed).digest().readUInt32BE(0);
+  let bucket = (hash / 0x1_0000_0000) * total;
+  for (const variant of variants) {
+    bucket -= variant.weight;
+    if (bucket < 0) return variant.template;
+  }
+  return variants[variants.length - 1].template;
+}
+
+/**
+ * The prompt selection of a persona in an agent mode: `prompt` for
+ * internal mode, `aiPrompt` for AI mode (the `PROMPT_TEMPLATE` /
+ * `AI_PROMPT_TEMPLATE` defaults without a persona).
+ */
+export function personaPrompt(
+  persona: TenantPersona | undefined,
+  mode: AgentMode
+): string {
+  const config = getConfig();
+  return mode === "ai"
+    ? (persona?.aiPrompt ?? config.aiPromptTemplate)
+    : (persona?.prompt ?? config.promptTemplate);
+}
+
+/**
+ * Load the templates and check `PROMPT_TEMPLATE`, `AI_PROMPT_TEMPLATE`
+ * and every tenant's persona against them (call at startup to fail
+ * fast).
+ */
+export function validatePromptConfig(): void {
+  loadRegistry();
+  const config = getConfig();
+  const selections = [
+    { owner: "PROMPT_TEMPLATE", spec: config.promptTemplate },
+    { owner: "AI_PROMPT_TEMPLATE", spec: config.aiPromptTemplate },
+    ...listTenants().flatMap((t) => [
+      { owner: `Tenant "${t.id}" persona.prompt`, spec: t.persona.prompt },
+      { owner: `Tenant "${t.id}" persona.aiPrompt`, spec: t.persona.aiPrompt },
+    ]),
+  ];
+  for (const { owner, spec } of selections) {
+    try {
+      parsePromptSpec(spec);
+    } catch (error) {
+      throw new Error(
+        `${owner}: ${error instanceof Error ? error.message : error}`
+      );
+    }
+  }
+}
+
+// ── Rendering ───────────────────────────────────────────────────────
+
+/** Template variables for a tenant's persona on `now`'s date. */
+export function promptVariables(
+  tenant: Tenant | undefined,
+  answerStyle: AnswerStyle | null,
+  now = new Date()
+): PromptVariables {
+  const persona = tenant?.persona;
+  const style = answerStyle ?? persona?.answerStyle ?? getConfig().answerStyle;
+  return {
+    organizationName: persona?.organizationName ?? DEFAULT_ORGANIZATION_NAME,
+    fiscalYear: persona?.fiscalYear ?? DEFAULT_FISCAL_YEAR,
+    currentDate: now.toISOString().slice(0, 10),
+    answerStyle: ANSWER_STYLE_INSTRUCTIONS[style],
+  };
+}
+
+/** Render a template for a tenant's persona. */
+export function renderPrompt(
+  template: PromptTemplate,
+  tenant: Tenant | undefined,
+  answerStyle: AnswerStyle | null = null
+): string {
+  return renderTemplate(template, promptVariables(tenant, answerStyle));
+}
@@ -0,0 +1,131 @@
+import {
+  BedrockAgentRuntimeClient,
+  RetrieveCommand,
+} from "@aws-sdk/client-bedrock-agent-runtime";
+import type {
+  KnowledgeBaseRetrievalResult,
+  RetrievalResultLocation,
+} from "@aws-sdk/client-bedrock-agent-runtime";
+import { logger, retryPolicy, withRetry } from "../utils/index.js";
+import { citationKey, titleFromUri } from "./chunk-utils.js";
+import { toBedrockFilter } from "./filters.js";
+import type {
+  ChunkSource,
+  RetrievalRequest,
+  RetrievedChunk,
+  Retriever,
+} from "../types/index.js";
+
+// ── Result Mapping ──────────────────────────────────────────────────
+
+const SOURCE_URI_KEY = "x-amz-bedrock-kb-source-uri";
+const PAGE_NUMBER_KEY = "x-amz-bedrock-kb-document-page-number";
+const TITLE_KEYS = ["title", "document_title", "documentTitle"];
+
+function locationUri(location?: RetrievalResultLocation): string | undefined {
+  if (!location) return undefined;
+  return (
+    location.s3Location?.uri ??
+    location.webLocation?.url ??
+    location.confluenceLocation?.url ??
+    location.salesforceLocation?.url ??
+    location.sharePointLocation?.url ??
+    location.customDocumentLocation?.id ??
+    location.kendraDocumentLocation?.uri
+  );
+}
+
+function toRetrievedChunk(
+  result: KnowledgeBaseRetrievalResult,
+  index: number
+): RetrievedChunk {
+  const text = result.content?.text ?? "";
+  const metadata = (result.metadata ?? {}) as Record<string, unknown>;
+
+  const uri =
+    locationUri(result.location) ??
+    (typeof metadata[SOURCE_URI_KEY] === "string"
+      ? (metadata[SOURCE_URI_KEY] as string)
+      : undefined);
+  const rawPage = Number(metadata[PAGE_NUMBER_KEY]);
+  const page = Number.isFinite(rawPage) && rawPage > 0 ? rawPage : undefined;
+  const titleKey = TITLE_KEYS.find((k) => typeof metadata[k] === "string");
+  const title = titleKey
+    ? (metadata[titleKey] as string)
+    : uri
+      ? titleFromUri(uri)
+      : undefined;
+
+  const source: ChunkSource = {
+    uri,
+    type: result.location?.type,
+    title,
+    page,
+  };
+
+  return {
+    rank: index + 1,
+    citation: citationKey(uri, page, text),
+    text,
+    score: result.score,
+    source,
+    metadata,
+  };
+}
+
+// ── Retriever ───────────────────────────────────────────────────────
+
+/**
+ * One client per region, shared by every tenant's Knowledge Base there.
+ * The SDK's own retries are off; `retrieve` retries with the shared
+ * `RETRY_*` policy instead.
+ */
+const _clients = new Map<string, BedrockAgentRuntimeClient>();
+
+function getClient(region: string): BedrockAgentRuntimeClient {
+  let client = _clients.get(region);
+  if (!client) {
+    client = new BedrockAgentRuntimeClient({ region, maxAttempts: 1 });
+    _clients.set(region, client);
+    logger.info(`Bedrock Agent Runtime client initialized in region ${region}`);
+  }
+  return client;
+}
+
+/**
+ * Retriever backed by an AWS Bedrock Knowledge Base (RetrieveCommand).
+ * It replicates the retrieval pattern from the original Python Strands agent.
+ */
+export class BedrockRetriever implements Retriever {
+  readonly name = "bedrock";
+
+  constructor(
+    private readonly knowledgeBaseId: string,
+    private readonly region: string
+  ) {}
+
+  async retrieve({
+    query,
+    topK,
+    filters,
+  }: RetrievalRequest): Promise<RetrievedChunk[]> {
+    const command = new RetrieveCommand({
+      knowledgeBaseId: this.knowledgeBaseId,
+      retrievalQuery: { text: query },
+      retrievalConfiguration: {
+        vectorSearchConfiguration: {
+          numberOfResults: topK,
+          filter: filters ? toBedrockFilter(filters) : undefined,
+        },
+      },
+    });
+
+    const response = await withRetry(
+      () => getClient(this.region).send(command),
+      { ...retryPolicy(), label: "Bedrock retrieval" }
+    );
+    return (response.retrievalResults ?? [])
+      .filter((r) => (r.content?.text ?? "").length > 0)
+      .map(toRetrievedChunk);
+  }
+}
@@ -0,0 +1,57 @@
+import { cacheKey } from "../cache/index.js";
+import type { CacheTags, TtlCache } from "../cache/index.js";
+import { logger } from "../utils/index.js";
+import { normalizeFilters } from "./filters.js";
+import type {
+  RetrievalRequest,
+  RetrievedChunk,
+  Retriever,
+} from "../types/index.js";
+
+// ── Caching Retriever ───────────────────────────────────────────────
+
+/** Case- and whitespace-insensitive form of a query, for cache keys. */
+export function normalizeQuery(query: string): string {
+  return query.trim().toLowerCase().replace(/\s+/g, " ");
+}
+
+/**
+ * Serves repeated searches from a cache. Entries are keyed by the
+ * tenant, the Knowledge Base, the wrapped retriever's name (so a change
+ * of retrieval or rerank mode misses), the normalized query, `topK` and
+ * the filters, and tagged with the tenant and Knowledge Base for
+ * invalidation. Tenants sharing a Knowledge Base don't share entries,
+ * so invalidating one tenant leaves none of its searches behind.
+ * Failed searches are not cached.
+ */
+export class CachingRetriever implements Retriever {
+  readonly name: string;
+
+  constructor(
+    private readonly base: Retriever,
+    private readonly cache: TtlCache<RetrievedChunk[]>,
+    private readonly tags: CacheTags
+  ) {
+    this.name = base.name;
+  }
+
+  async retrieve(request: RetrievalRequest): Promise<RetrievedChunk[]> {
+    const key = cacheKey([
+      this.tags.tenantId,
+      this.tags.knowledgeBaseId,
+      this.base.name,
+      normalizeQuery(request.query),
+      request.topK,
+      normalizeFilters(request.filters) ?? null,
+    ]);
+    const cached = await this.cache.get(key);
+    if (cached) {
+      logger.debug("Retrieval cache hit", { query: request.query });
+      return cached;
+    }
+
+    const chunks = await this.base.retrieve(request);
+    await this.cache.set(key, chunks, this.tags);
+    return chunks;
+  }
+}
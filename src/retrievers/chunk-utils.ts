@@ -0,0 +1,22 @@
+import { createHash } from "crypto";
+
+/**
+ * Short, stable key for a chunk so that the same passage gets the same
+ * citation marker across repeated searches and retriever backends.
+ */
+export function citationKey(
+  uri: string | undefined,
+  page: number | undefined,
+  text: string
+): string {
+  const hash = createHash("sha1")
+    .update(`${uri ?? ""}|${page ?? ""}|${text}`)
+    .digest("hex");
+  return `c:${hash.substring(0, 8)}`;
+}
+
+/** Derive a readable title from a URI or path when no title metadata exists. */
+export function titleFromUri(uri: string): string {
+  const file = decodeURIComponent(uri.split(/[/\\]/).pop() ?? uri);
+  return file.replace(/\.[a-z0-9]+$/i, "").replace(/[_-]+/g, " ").trim() || uri;
+}
@@ -0,0 +1,172 @@
+import { z } from "zod";
+import type { RetrievalFilter } from "@aws-sdk/client-bedrock-agent-runtime";
+import type { RetrievalFilters } from "../types/index.js";
+
+// ── Schema ──────────────────────────────────────────────────────────
+
+/**
+ * Metadata keys the filters apply to. Local ingestion writes these, and
+ * Bedrock Knowledge Base documents should use the same keys in their
+ * `.metadata.json` sidecar files.
+ */
+export const FILTER_METADATA_KEYS = {
+  fiscalYear: "fiscalYear",
+  jurisdiction: "jurisdiction",
+  department: "department",
+  fund: "fund",
+  documentType: "documentType",
+} as const;
+
+/** Zod schema for RetrievalFilters, shared by the retrieval tool and the HTTP API. */
+export const retrievalFiltersSchema = z
+  .object({
+    fiscalYear: z
+      .number()
+      .int()
+      .optional()
+      .describe("Exact fiscal year, by ending year (FY 2024-25 → 2025)."),
+    fiscalYearFrom: z
+      .number()
+      .int()
+      .optional()
+      .describe("Earliest fiscal year of a range (inclusive)."),
+    fiscalYearTo: z
+      .number()
+      .int()
+      .optional()
+      .describe("Latest fiscal year of a range (inclusive)."),
+    jurisdiction: z
+      .string()
+      .optional()
+      .describe('City, county or agency, e.g. "City of Springfield".'),
+    department: z
+      .string()
+      .optional()
+      .describe('Department or division, e.g. "Fire Department".'),
+    fund: z.string().optional().describe('Fund, e.g. "General Fund".'),
+    documentType: z
+      .string()
+      .optional()
+      .describe('Document type, e.g. "adopted_budget" or "cip".'),
+  })
+  .strict();
+
+// ── Helpers ─────────────────────────────────────────────────────────
+
+const YEAR_FIELDS = ["fiscalYear", "fiscalYearFrom", "fiscalYearTo"] as const;
+const TEXT_FIELDS = ["jurisdiction", "department", "fund", "documentType"] as const;
+
+/** Drop unset and blank fields; returns undefined when nothing is left. */
+export function normalizeFilters(
+  filters?: RetrievalFilters | null
+): RetrievalFilters | undefined {
+  if (!filters) return undefined;
+  const normalized: RetrievalFilters = {};
+  for (const key of YEAR_FIELDS) {
+    if (typeof filters[key] === "number") normalized[key] = filters[key];
+  }
+  for (const key of TEXT_FIELDS) {
+    const value = filters[key]?.trim();
+    if (value) normalized[key] = value;
+  }
+  return Object.keys(normalized).length > 0 ? normalized : undefined;
+}
+
+/**
+ * Combine filters the model chose with filters pinned to the thread.
+ * Pinned fields always win; a pinned fiscal year or range replaces any
+ * fiscal-year fields the model set, so a search can't leave the scope.
+ */
+export function mergeFilters(
+  requested?: RetrievalFilters | null,
+  pinned?: RetrievalFilters | null
+): RetrievalFilters | undefined {
+  const base = normalizeFilters(requested);
+  const scope = normalizeFilters(pinned);
+  if (!scope) return base;
+  if (!base) return scope;
+
+  const merged: RetrievalFilters = { ...base };
+  if (YEAR_FIELDS.some((key) => scope[key] !== undefined)) {
+    for (const key of YEAR_FIELDS) delete merged[key];
+  }
+  return { ...merged, ...scope };
+}
+
+function sameText(actual: unknown, expected: string): boolean {
+  return (
+    typeof actual === "string" &&
+    actual.toLowerCase().includes(expected.toLowerCase())
+  );
+}
+
+/**
+ * Whether chunk metadata satisfies the filters (local retriever). Text
+ * fields match case-insensitively on containment, so "Fire" matches
+ * "Fire Department"; chunks missing a filtered field never match.
+ */
+export function matchesFilters(
+  metadata: Record<string, unknown>,
+  filters: RetrievalFilters
+): boolean {
+  const year = Number(metadata[FILTER_METADATA_KEYS.fiscalYear]);
+  const hasYear = Number.isFinite(year) && year > 0;
+  if (filters.fiscalYear !== undefined && year !== filters.fiscalYear) {
+    return false;
+  }
+  if (
+    filters.fiscalYearFrom !== undefined &&
+    !(hasYear && year >= filters.fiscalYearFrom)
+  ) {
+    return false;
+  }
+  if (
+    filters.fiscalYearTo !== undefined &&
+    !(hasYear && year <= filters.fiscalYearTo)
+  ) {
+    return false;
+  }
+  return TEXT_FIELDS.every(
+    (key) =>
+      filters[key] === undefined ||
+      sameText(metadata[FILTER_METADATA_KEYS[key]], filters[key])
+  );
+}
+
+/**
+ * Translate filters into a Bedrock `vectorSearchConfiguration.filter`.
+ * Bedrock compares strings exactly, so text values must match the
+ * document metadata as written.
+ */
+export function toBedrockFilter(
+  filters: RetrievalFilters
+): RetrievalFilter | undefined {
+  const conditions: RetrievalFilter[] = [];
+  const key = FILTER_METADATA_KEYS;
+
+  if (filters.fiscalYear !== undefined) {
+    conditions.push({
+      equals: { key: key.fiscalYear, value: filters.fiscalYear },
+    });
+  }
+  if (filters.fiscalYearFrom !== undefined) {
+    conditions.push({
+      greaterThanOrEquals: { key: key.fiscalYear, value: filters.fiscalYearFrom },
+    });
+  }
+  if (filters.fiscalYearTo !== undefined) {
+    conditions.push({
+      lessThanOrEquals: { key: key.fiscalYear, value: filters.fiscalYearTo },
+    });
+  }
+  for (const field of TEXT_FIELDS) {
+    const value = filters[field];
+    if (value !== undefined) {
+      conditions.push({ equals: { key: key[field], value } });
+    }
+  }
+
+  if (conditions.length === 0) return undefined;
+  // andAll requires at least two members
+  return conditions.length === 1 ? conditions[0] : { andAll: conditions };
+}
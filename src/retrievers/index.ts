@@ -0,0 +1,129 @@
+import { getConfig, validateRetrieverConfig } from "../config/index.js";
+import { BedrockRetriever } from "./bedrock-retriever.js";
+import { LocalRetriever } from "./local-retriever.js";
+import { MultiQueryRetriever } from "./multi-query.js";
+import { generateQueryVariants } from "./query-expansion.js";
+import {
+  LexicalScorer,
+  LlmJudgeScorer,
+  RerankingRetriever,
+} from "./rerank.js";
+import { CachingRetriever } from "./caching.js";
+import { getCache } from "../cache/index.js";
+import {
+  defaultTenantId,
+  getTenant,
+  tenantKnowledgeBase,
+} from "../tenants/index.js";
+import type { Retriever, RetrievedChunk } from "../types/index.js";
+
+const _retrievers = new Map<string, Retriever>();
+let _override: Retriever | null = null;
+
+/**
+ * Returns the retriever for a tenant's documents (the default tenant
+ * when `tenantId` is omitted), built once per tenant.
+ *
+ * The backend is selected by `RETRIEVER_TYPE`:
+ * - bedrock: the tenant's AWS Bedrock Knowledge Base (default)
+ * - local: the tenant's file-persisted BM25 index, works fully offline
+ *
+ * With `RETRIEVAL_MODE=multi_query` the backend is wrapped in a
+ * MultiQueryRetriever that fuses several query reformulations, and
+ * with `RERANK_MODE` set the result is reranked as a second stage.
+ * With `RETRIEVAL_CACHE_TTL_SECONDS` set, repeated searches are served
+ * from the retrieval cache.
+ */
+export function getRetriever(tenantId?: string): Retriever {
+  if (_override) return _override;
+
+  const id = tenantId ?? defaultTenantId();
+  const cached = _retrievers.get(id);
+  if (cached) return cached;
+
+  const tenant = getTenant(id);
+  if (!tenant) throw new Error(`Unknown tenant: ${id}`);
+
+  const config = getConfig();
+  validateRetrieverConfig();
+
+  let retriever: Retriever;
+  switch (config.retrieverType) {
+    case "local":
+      retriever = new LocalRetriever(tenant.localIndexPath!);
+      break;
+
+    case "bedrock":
+    default:
+      retriever = new BedrockRetriever(tenant.knowledgeBaseId!, tenant.region);
+      break;
+  }
+
+  if (config.retrievalMode === "multi_query") {
+    retriever = new MultiQueryRetriever(
+      retriever,
+      generateQueryVariants,
+      config.multiQueryVariants
+    );
+  }
+
+  if (config.rerankMode !== "off") {
+    retriever = new RerankingRetriever(
+      retriever,
+      config.rerankMode === "llm" ? new LlmJudgeScorer() : new LexicalScorer(),
+      config.rerankCandidates
+    );
+  }
+
+  const cache = getCache<RetrievedChunk[]>("retrieval");
+  if (cache) {
+    retriever = new CachingRetriever(retriever, cache, {
+      tenantId: tenant.id,
+      knowledgeBaseId: tenantKnowledgeBase(tenant),
+    });
+  }
+
+  _retrievers.set(id, retriever);
+  return retriever;
+}
+
+/**
+ * Replace the retriever for every tenant (e.g. in tests or scripts);
+ * pass null to go back to the configured ones.
+ */
+export function setRetriever(retriever: Retriever | null): void {
+  _override = retriever;
+  _retrievers.clear();
+}
+
+export { BedrockRetriever } from "./bedrock-retriever.js";
+export { LocalRetriever } from "./local-retriever.js";
+export { LocalIndex, tokenize } from "./local-index.js";
+export { MultiQueryRetriever, reciprocalRankFusion } from "./multi-query.js";
+export { CachingRetriever, normalizeQuery } from "./caching.js";
+export type { QueryVariantGenerator } from "./multi-query.js";
+export {
+  RerankingRetriever,
+  LexicalScorer,
+  LlmJudgeScorer,
+} from "./rerank.js";
+export type { RerankScorer } from "./rerank.js";
+export {
+  generateQueryVariants,
+  glossaryVariants,
+  llmVariants,
+} from "./query-expansion.js";
+export type {
+  IndexedDocument,
+  IndexedChunk,
+  IndexHit,
+} from "./local-index.js";
+export { citationKey, titleFromUri } from "./chunk-utils.js";
+export {
+  FILTER_METADATA_KEYS,
+  retrievalFiltersSchema,
+  normalizeFilters,
+  mergeFilters,
+  matchesFilters,
+  toBedrockFilter,
+} from "./filters.js";
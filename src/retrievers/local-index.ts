@@ -0,0 +1,212 @@
+import { promises as fs } from "fs";
+import path from "path";
+
+// ── Index Types ─────────────────────────────────────────────────────
+
+export interface IndexedDocument {
+  id: string;
+  /** Source path or URI the document was ingested from. */
+  uri: string;
+  title: string;
+  /** Hash of the source content, used for incremental re-ingestion. */
+  contentHash: string;
+  metadata: Record<string, unknown>;
+  updatedAt: string;
+}
+
+export interface IndexedChunk {
+  id: string;
+  documentId: string;
+  text: string;
+  page?: number;
+  metadata: Record<string, unknown>;
+}
+
+export interface IndexHit {
+  chunk: IndexedChunk;
+  document: IndexedDocument;
+  score: number;
+}
+
+interface IndexFile {
+  version: 1;
+  documents: Record<string, IndexedDocument>;
+  chunks: IndexedChunk[];
+}
+
+// ── Tokenizer ───────────────────────────────────────────────────────
+
+const STOPWORDS = new Set([
+  "a", "an", "and", "are", "as", "at", "be", "by", "for", "from", "has",
+  "have", "how", "in", "is", "it", "its", "of", "on", "or", "that", "the",
+  "this", "to", "was", "were", "what", "when", "which", "who", "will", "with",
+]);
+
+/**
+ * Lowercase word/number tokenizer used for BM25. Thousands separators
+ * are dropped so "1,250,000" and "1250000" match, and simple plurals
+ * are folded ("departments" → "department").
+ */
+export function tokenize(text: string): string[] {
+  const matches = text.toLowerCase().match(/[a-z0-9]+(?:[.,][0-9]+)*/g) ?? [];
+  return matches
+    .map((token) => token.replace(/,/g, ""))
+    .filter((token) => token.length > 1 && !STOPWORDS.has(token))
+    .map((token) =>
+      token.length > 3 && /[a-z]s$/.test(token) && !token.endsWith("ss")
+        ? token.slice(0, -1)
+        : token
+    );
+}
+
+// ── BM25 ────────────────────────────────────────────────────────────
+
+const BM25_K1 = 1.2;
+const BM25_B = 0.75;
+
+interface Bm25Stats {
+  termFrequencies: Map<string, number>[];
+  lengths: number[];
+  documentFrequency: Map<string, number>;
+  averageLength: number;
+}
+
+function buildStats(chunks: IndexedChunk[]): Bm25Stats {
+  const termFrequencies: Map<string, number>[] = [];
+  const lengths: number[] = [];
+  const documentFrequency = new Map<string, number>();
+
+  for (const chunk of chunks) {
+    const tokens = tokenize(chunk.text);
+    const tf = new Map<string, number>();
+    for (const token of tokens) tf.set(token, (tf.get(token) ?? 0) + 1);
+    for (const token of tf.keys()) {
+      documentFrequency.set(token, (documentFrequency.get(token) ?? 0) + 1);
+    }
+    termFrequencies.push(tf);
+    lengths.push(tokens.length);
+  }
+
+  const total = lengths.reduce((sum, n) => sum + n, 0);
+  return {
+    termFrequencies,
+    lengths,
+    documentFrequency,
+    averageLength: chunks.length ? total / chunks.length : 0,
+  };
+}
+
+// ── Local Index ─────────────────────────────────────────────────────
+
+/**
+ * File-persisted chunk index searched with BM25. Written by the
+ * ingestion CLI and read by the local retriever; everything lives in a
+ * single JSON file so the index can be checked into a demo bundle.
+ */
+export class LocalIndex {
+  private stats: Bm25Stats | null = null;
+
+  private constructor(
+    readonly filePath: string,
+    private data: IndexFile
+  ) {}
+
+  /** Load an index from disk, or start an empty one if the file is missing. */
+  static async load(filePath: string): Promise<LocalIndex> {
+    try {
+      const text = await fs.readFile(filePath, "utf8");
+      const data = JSON.parse(text) as IndexFile;
+      if (data.version !== 1) {
+        throw new Error(`Unsupported local index version: ${data.version}`);
+      }
+      return new LocalIndex(filePath, data);
+    } catch (err) {
+      if ((err as NodeJS.ErrnoException).code === "ENOENT") {
+        return new LocalIndex(filePath, { version: 1, documents: {}, chunks: [] });
+      }
+      throw err;
+    }
+  }
+
+  get documentCount(): number {
+    return Object.keys(this.data.documents).length;
+  }
+
+  get chunkCount(): number {
+    return this.data.chunks.length;
+  }
+
+  getDocument(id: string): IndexedDocument | undefined {
+    return this.data.documents[id];
+  }
+
+  listDocuments(): IndexedDocument[] {
+    return Object.values(this.data.documents);
+  }
+
+  /** Insert or replace a document and all of its chunks. */
+  upsertDocument(document: IndexedDocument, chunks: IndexedChunk[]): void {
+    this.data.chunks = this.data.chunks.filter(
+      (c) => c.documentId !== document.id
+    );
+    this.data.documents[document.id] = document;
+    this.data.chunks.push(...chunks);
+    this.stats = null;
+  }
+
+  removeDocument(id: string): void {
+    delete this.data.documents[id];
+    this.data.chunks = this.data.chunks.filter((c) => c.documentId !== id);
+    this.stats = null;
+  }
+
+  /** Atomically write the index back to disk. */
+  async save(): Promise<void> {
+    await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+    const temp = `${this.filePath}.${process.pid}.tmp`;
+    await fs.writeFile(temp, JSON.stringify(this.data), "utf8");
+    await fs.rename(temp, this.filePath);
+  }
+
+  /**
+   * Rank chunks against a query with Okapi BM25, best first. `accept`
+   * narrows the candidates before the top K are taken.
+   */
+  search(
+    query: string,
+    topK: number,
+    accept?: (hit: IndexHit) => boolean
+  ): IndexHit[] {
+    const terms = [...new Set(tokenize(query))];
+    if (terms.length === 0 || this.data.chunks.length === 0) return [];
+
+    this.stats ??= buildStats(this.data.chunks);
+    const { termFrequencies, lengths, documentFrequency, averageLength } =
+      this.stats;
+    const n = this.data.chunks.length;
+
+    const idf = new Map<string, number>();
+    for (const term of terms) {
+      const df = documentFrequency.get(term) ?? 0;
+      idf.set(term, Math.log(1 + (n - df + 0.5) / (df + 0.5)));
+    }
+
+    const hits: IndexHit[] = [];
+    this.data.chunks.forEach((chunk, i) => {
+      const tf = termFrequencies[i];
+      let score = 0;
+      for (const term of terms) {
+        const f = tf.get(term);
+        if (!f) continue;
+        const norm = 1 - BM25_B + BM25_B * (lengths[i] / (averageLength || 1));
+        score += idf.get(term)! * ((f * (BM25_K1 + 1)) / (f + BM25_K1 * norm));
+      }
+      const document = this.data.documents[chunk.documentId];
+      if (score <= 0 || !document) return;
+      const hit = { chunk, document, score };
+      if (!accept || accept(hit)) hits.push(hit);
+    });
+
+    return hits.sort((a, b) => b.score - a.score).slice(0, topK);
+  }
+}
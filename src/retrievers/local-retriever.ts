@@ -0,0 +1,73 @@
+import { promises as fs } from "fs";
+import { logger } from "../utils/index.js";
+import { citationKey } from "./chunk-utils.js";
+import { matchesFilters } from "./filters.js";
+import { LocalIndex } from "./local-index.js";
+import type { IndexHit } from "./local-index.js";
+import type {
+  RetrievalRequest,
+  RetrievedChunk,
+  Retriever,
+} from "../types/index.js";
+
+function toRetrievedChunk(hit: IndexHit, index: number): RetrievedChunk {
+  const { chunk, document, score } = hit;
+  return {
+    rank: index + 1,
+    citation: citationKey(document.uri, chunk.page, chunk.text),
+    text: chunk.text,
+    score: Number(score.toFixed(4)),
+    source: {
+      uri: document.uri,
+      type: "LOCAL",
+      title: document.title,
+      page: chunk.page,
+    },
+    metadata: { ...document.metadata, ...chunk.metadata },
+  };
+}
+
+/**
+ * Offline retriever over a file-persisted BM25 index (see LocalIndex).
+ * The index is reloaded automatically when the file changes on disk,
+ * e.g. after `npm run ingest`.
+ */
+export class LocalRetriever implements Retriever {
+  readonly name = "local";
+  private index: LocalIndex | null = null;
+  private loadedMtime = 0;
+
+  constructor(private readonly indexPath: string) {}
+
+  private async getIndex(): Promise<LocalIndex> {
+    const mtime = await fs
+      .stat(this.indexPath)
+      .then((s) => s.mtimeMs)
+      .catch(() => 0);
+
+    if (!this.index || mtime !== this.loadedMtime) {
+      this.index = await LocalIndex.load(this.indexPath);
+      this.loadedMtime = mtime;
+      logger.info(
+        `Local index loaded from ${this.indexPath}: ${this.index.documentCount} documents, ${this.index.chunkCount} chunks`
+      );
+    }
+    return this.index;
+  }
+
+  async retrieve({
+    query,
+    topK,
+    filters,
+  }: RetrievalRequest): Promise<RetrievedChunk[]> {
+    const index = await this.getIndex();
+    const accept = filters
+      ? (hit: IndexHit) =>
+          matchesFilters(
+            { ...hit.document.metadata, ...hit.chunk.metadata },
+            filters
+          )
+      : undefined;
+    return index.search(query, topK, accept).map(toRetrievedChunk);
+  }
+}
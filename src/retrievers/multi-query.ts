@@ -0,0 +1,106 @@
+import { logger } from "../utils/index.js";
+import type {
+  RetrievalRequest,
+  RetrievedChunk,
+  Retriever,
+} from "../types/index.js";
+
+/** Standard RRF damping constant (Cormack et al.); keeps top ranks from dominating. */
+const RRF_K = 60;
+
+export type QueryVariantGenerator = (
+  query: string,
+  count: number
+) => Promise<string[]>;
+
+/**
+ * Merge several ranked lists with reciprocal rank fusion:
+ * `score(chunk) = Σ 1 / (RRF_K + rank)` over every list it appears in.
+ * Chunks are de-duplicated by citation marker (same source, page and
+ * text). Each fused chunk keeps the retriever's own score as
+ * `metadata.retrieverScore` and lists the queries that found it.
+ */
+export function reciprocalRankFusion(
+  lists: Array<{ query: string; chunks: RetrievedChunk[] }>,
+  topK: number
+): RetrievedChunk[] {
+  const fused = new Map<
+    string,
+    { chunk: RetrievedChunk; score: number; queries: string[] }
+  >();
+
+  for (const { query, chunks } of lists) {
+    chunks.forEach((chunk, i) => {
+      const entry = fused.get(chunk.citation);
+      const contribution = 1 / (RRF_K + i + 1);
+      if (entry) {
+        entry.score += contribution;
+        entry.queries.push(query);
+        if ((chunk.score ?? 0) > (entry.chunk.score ?? 0)) entry.chunk = chunk;
+      } else {
+        fused.set(chunk.citation, { chunk, score: contribution, queries: [query] });
+      }
+    });
+  }
+
+  return [...fused.values()]
+    .sort((a, b) => b.score - a.score)
+    .slice(0, topK)
+    .map(({ chunk, score, queries }, i) => ({
+      ...chunk,
+      rank: i + 1,
+      score: Number(score.toFixed(4)),
+      metadata: {
+        ...chunk.metadata,
+        retrieverScore: chunk.score,
+        matchedQueries: queries,
+      },
+    }));
+}
+
+/**
+ * Wraps a retriever to search several reformulations of each query in
+ * parallel and fuse the results with RRF, so line items that budget
+ * books name differently ("public safety" vs "police and fire") are
+ * still found.
+ */
+export class MultiQueryRetriever implements Retriever {
+  readonly name: string;
+
+  constructor(
+    private readonly base: Retriever,
+    private readonly generateVariants: QueryVariantGenerator,
+    private readonly variantCount: number
+  ) {
+    this.name = `multi_query(${base.name})`;
+  }
+
+  async retrieve(request: RetrievalRequest): Promise<RetrievedChunk[]> {
+    const queries = await this.generateVariants(
+      request.query,
+      this.variantCount
+    );
+    logger.debug("Multi-query variants", { queries });
+
+    const settled = await Promise.allSettled(
+      queries.map((query) => this.base.retrieve({ ...request, query }))
+    );
+
+    const lists: Array<{ query: string; chunks: RetrievedChunk[] }> = [];
+    settled.forEach((result, i) => {
+      if (result.status === "fulfilled") {
+        lists.push({ query: queries[i], chunks: result.value });
+      } else {
+        logger.warn(`Multi-query variant failed: ${result.reason}`, {
+          query: queries[i],
+        });
+      }
+    });
+
+    // Only fail when every variant failed; surface the original error
+    if (lists.length === 0) {
+      throw (settled[0] as PromiseRejectedResult).reason;
+    }
+    return reciprocalRankFusion(lists, request.topK);
+  }
+}
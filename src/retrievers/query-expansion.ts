@@ -0,0 +1,108 @@
+import { HumanMessage } from "@langchain/core/messages";
+import { getLLM } from "../llm/index.js";
+import { getMessageText, logger } from "../utils/index.js";
+
+// ── Budget Glossary ─────────────────────────────────────────────────
+
+/**
+ * Terms budget books use interchangeably. Each group lists phrasings of
+ * the same concept; a query mentioning one gets variants with the others.
+ */
+const BUDGET_SYNONYMS: string[][] = [
+  ["public safety", "police and fire", "law enforcement and fire protection"],
+  ["cip", "capital improvement program", "capital improvement plan", "capital projects"],
+  ["fte", "full-time equivalent positions", "staffing levels"],
+  ["personnel", "salaries and benefits", "personal services"],
+  ["debt service", "bond principal and interest payments"],
+  ["parks", "parks and recreation"],
+  ["public works", "streets and infrastructure"],
+  ["fund balance", "reserves"],
+  ["expenditures", "appropriations", "spending"],
+];
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+/**
+ * Deterministic reformulations from the budget glossary: for the first
+ * glossary term found in `query`, one variant per alternative phrasing.
+ */
+export function glossaryVariants(query: string): string[] {
+  for (const group of BUDGET_SYNONYMS) {
+    for (const term of group) {
+      const pattern = new RegExp(`\\b${escapeRegExp(term)}\\b`, "i");
+      if (!pattern.test(query)) continue;
+      return group
+        .filter((alt) => alt !== term)
+        .map((alt) => query.replace(pattern, alt));
+    }
+  }
+  return [];
+}
+
+// ── LLM Reformulation ───────────────────────────────────────────────
+
+function reformulationPrompt(query: string, count: number): string {
+  return `You are helping search municipal budget documents. Write ${count} alternative search queries for the question below. Use the different names budget books give the same line items, programs and funds (e.g. "public safety" vs "police and fire", "CIP" vs "capital improvement program"). Keep fiscal years, departments and figures from the original.
+
+Question: ${query}
+
+Reply with one query per line and nothing else.`;
+}
+
+/**
+ * Ask the configured LLM for `count` reformulations of `query`. Returns
+ * an empty list if the model fails, so retrieval degrades to the
+ * glossary variants and the original query.
+ */
+export async function llmVariants(
+  query: string,
+  count: number
+): Promise<string[]> {
+  try {
+    const response = await getLLM().invoke([
+      new HumanMessage(reformulationPrompt(query, count)),
+    ]);
+    return getMessageText(response)
+      .split("\n")
+      .map((line) =>
+        line
+          .replace(/^\s*(?:\d+[.)]|[-*•])\s*/, "")
+          .replace(/^["']|["']$/g, "")
+          .trim()
+      )
+      .filter((line) => line.length > 0)
+      .slice(0, count);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    logger.warn(`Query reformulation failed, using glossary only: ${message}`);
+    return [];
+  }
+}
+
+function dedupe(queries: string[]): string[] {
+  const seen = new Set<string>();
+  return queries.filter((query) => {
+    const key = query.toLowerCase().replace(/\s+/g, " ").trim();
+    if (!key || seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+}
+
+/**
+ * The original query followed by up to `count` distinct reformulations.
+ * Glossary variants come first; the LLM is only asked when they don't
+ * fill the quota.
+ */
+export async function generateQueryVariants(
+  query: string,
+  count: number
+): Promise<string[]> {
+  let variants = dedupe([query, ...glossaryVariants(query)]);
+  if (variants.length <= count) {
+    variants = dedupe([...variants, ...(await llmVariants(query, count))]);
+  }
+  return variants.slice(0, count + 1);
+}
@@ -0,0 +1,182 @@
+import { HumanMessage } from "@langchain/core/messages";
+import { getLLM } from "../llm/index.js";
+import {
+  getMessageText,
+  logger,
+  truncateText,
+  yearsMentioned,
+} from "../utils/index.js";
+import { tokenize } from "./local-index.js";
+import type {
+  RetrievalRequest,
+  RetrievedChunk,
+  Retriever,
+} from "../types/index.js";
+
+// ── Scorers ─────────────────────────────────────────────────────────
+
+/**
+ * Re-scores candidate chunks against a query. Returns one score per
+ * chunk (higher is better), or null to keep the original order.
+ */
+export interface RerankScorer {
+  readonly name: string;
+  score(query: string, chunks: RetrievedChunk[]): Promise<number[] | null>;
+}
+
+function bigrams(tokens: string[]): Set<string> {
+  const pairs = new Set<string>();
+  for (let i = 0; i + 1 < tokens.length; i++) {
+    pairs.add(`${tokens[i]} ${tokens[i + 1]}`);
+  }
+  return pairs;
+}
+
+/**
+ * Offline heuristic scorer (0–1). Blends the share of query terms the
+ * chunk contains, the share of query word pairs it contains in order,
+ * and, when the query names fiscal years, whether the chunk covers one
+ * of them.
+ */
+export class LexicalScorer implements RerankScorer {
+  readonly name = "lexical";
+
+  async score(query: string, chunks: RetrievedChunk[]): Promise<number[]> {
+    const queryTokens = tokenize(query);
+    const queryTerms = new Set(queryTokens);
+    const queryPairs = bigrams(queryTokens);
+    const queryYears = yearsMentioned(query);
+
+    return chunks.map((chunk) => {
+      const tokens = tokenize(chunk.text);
+      const terms = new Set(tokens);
+      const pairs = bigrams(tokens);
+
+      const coverage = queryTerms.size
+        ? [...queryTerms].filter((t) => terms.has(t)).length / queryTerms.size
+        : 0;
+      const phrase = queryPairs.size
+        ? [...queryPairs].filter((p) => pairs.has(p)).length / queryPairs.size
+        : coverage;
+
+      if (queryYears.size === 0) return 0.6 * coverage + 0.4 * phrase;
+
+      const chunkYears = yearsMentioned(chunk.text);
+      const yearMatch = [...queryYears].some((y) => chunkYears.has(y)) ? 1 : 0;
+      return 0.5 * coverage + 0.3 * phrase + 0.2 * yearMatch;
+    });
+  }
+}
+
+const JUDGE_EXCERPT_LENGTH = 800;
+
+/**
+ * LLM-as-judge scorer: one call rates every candidate 0–10 for how well
+ * it answers the query. Falls back to the original order when the
+ * model's reply can't be parsed.
+ */
+export class LlmJudgeScorer implements RerankScorer {
+  readonly name = "llm";
+
+  async score(
+    query: string,
+    chunks: RetrievedChunk[]
+  ): Promise<number[] | null> {
+    const passages = chunks
+      .map((chunk, i) => {
+        const text = chunk.text.replace(/\s+/g, " ");
+        return `[${i + 1}] ${truncateText(text, JUDGE_EXCERPT_LENGTH)}`;
+      })
+      .join("\n\n");
+
+    const prompt = `Rate how useful each passage from a municipal budget document is for answering the question. Use 0 (irrelevant) to 10 (directly answers it with the needed figures). Prefer passages for the right fiscal year, department and fund.
+
+Question: ${query}
+
+Passages:
+${passages}
+
+Reply with only a JSON array of ${chunks.length} numbers, one per passage in order.`;
+
+    try {
+      const response = await getLLM().invoke([new HumanMessage(prompt)]);
+      const match = /\[[\s\S]*?\]/.exec(getMessageText(response));
+      const scores = match ? (JSON.parse(match[0]) as unknown[]) : null;
+      if (
+        !scores ||
+        scores.length !== chunks.length ||
+        !scores.every((s) => typeof s === "number" && Number.isFinite(s))
+      ) {
+        logger.warn(
+          "LLM reranker returned unusable scores, keeping original order"
+        );
+        return null;
+      }
+      return (scores as number[]).map((s) => Math.min(10, Math.max(0, s)) / 10);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      logger.warn(`LLM reranker failed, keeping original order: ${message}`);
+      return null;
+    }
+  }
+}
+
+// ── Reranking Retriever ─────────────────────────────────────────────
+
+/**
+ * Second-stage reranking: over-fetches `candidates` chunks from the
+ * wrapped retriever, re-scores them with `scorer` and returns the best
+ * `topK`. Each chunk's `score` becomes the rerank score; the original
+ * rank and score are kept in `metadata.rerank` for tracing.
+ */
+export class RerankingRetriever implements Retriever {
+  readonly name: string;
+
+  constructor(
+    private readonly base: Retriever,
+    private readonly scorer: RerankScorer,
+    private readonly candidates: number
+  ) {
+    this.name = `rerank:${scorer.name}(${base.name})`;
+  }
+
+  async retrieve(request: RetrievalRequest): Promise<RetrievedChunk[]> {
+    const fetched = await this.base.retrieve({
+      ...request,
+      topK: Math.max(request.topK, this.candidates),
+    });
+    if (fetched.length === 0) return fetched;
+
+    const scores = await this.scorer.score(request.query, fetched);
+    const ranked = fetched.map((chunk, i) => ({
+      chunk,
+      originalRank: i + 1,
+      score: scores ? scores[i] : null,
+    }));
+    if (scores) {
+      // Stable: ties keep the retriever's order
+      ranked.sort(
+        (a, b) => b.score! - a.score! || a.originalRank - b.originalRank
+      );
+    }
+
+    return ranked.slice(0, request.topK).map(({ chunk, originalRank, score }, i) => {
+      const rerankScore = score === null ? null : Number(score.toFixed(4));
+      return {
+        ...chunk,
+        rank: i + 1,
+        score: rerankScore ?? chunk.score,
+        metadata: {
+          ...chunk.metadata,
+          rerank: {
+            scorer: this.scorer.name,
+            applied: scores !== null,
+            originalRank,
+            originalScore: chunk.score,
+            score: rerankScore,
+          },
+        },
+      };
+    });
+  }
+}
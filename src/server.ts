@@ -1,83 +1,553 @@
+import { randomUUID } from "crypto";
 import express from "express";
+import { context as otelContext, SpanKind, trace } from "@opentelemetry/api";
 import cors from "cors";
 import path from "path";
 import { fileURLToPath } from "url";
 import {
+  AGENT_MODES,
+  ANSWER_STYLES,
   getConfig,
+  llmProviderChain,
   validateLlmConfig,
-  logConfigSummary,
+  validateRetrieverConfig,
+  validateAuthConfig,
 } from "./config/index.js";
-import { invokeAgent } from "./agents/rag-agent.js";
+import { llmProviderHealth } from "./llm/index.js";
+import {
+  listPromptTemplates,
+  parsePromptSpec,
+  validatePromptConfig,
+} from "./prompts/index.js";
+import {
+  TokenCounter,
+  authMiddleware,
+  corsOptions,
+  flushUsage,
+  hasScope,
+  isAuthEnabled,
+  quotaMiddleware,
+  recordTokenUsage,
+  requestPrincipal,
+  requireScope,
+} from "./auth/index.js";
+import {
+  getPendingReview,
+  listPendingReviews,
+  resumeAgentTurn,
+  runAgentTurn,
+} from "./agents/rag-agent.js";
+import type { AgentTurnResult } from "./agents/rag-agent.js";
+import {
+  decisionError,
+  reviewDecisionSchema,
+  reviewModeSchema,
+} from "./agents/reviews.js";
+import { streamChatEvents } from "./agents/chat-stream.js";
+import { recordFeedback } from "./agents/feedback.js";
+import { resolveCitations } from "./agents/citations.js";
+import {
+  getThreadConversation,
+  getThreadCheckpoints,
+} from "./agents/threads.js";
+import {
+  generateThreadId,
+  verifyCheckpointer,
+  closeCheckpointer,
+} from "./checkpointers/index.js";
 import { shutdownArizeTracing } from "./instrumentation/index.js";
-import { logger } from "./utils/index.js";
+import {
+  EMPTY_USAGE,
+  aggregateUsage,
+  currentModelId,
+  getPriceTable,
+  getUsageLedger,
+} from "./accounting/index.js";
+import type { UsageGroupBy } from "./accounting/index.js";
+import { cacheStats, flushCaches, invalidateCaches } from "./cache/index.js";
+import { feedbackRequestSchema } from "./feedback/index.js";
+import { agentMode, budgetReport, runBudgetSchema } from "./nodes/index.js";
+import { retrievalFiltersSchema } from "./retrievers/index.js";
+import {
+  isMultiTenant,
+  resolveTenant,
+  tenantKnowledgeBase,
+  validateTenantConfig,
+} from "./tenants/index.js";
+import {
+  isRetryableError,
+  logConfigSummary,
+  logger,
+  runWithLogContext,
+  setLogContext,
+  splitThinking,
+} from "./utils/index.js";
+import type { LogContext } from "./utils/index.js";
+import type {
+  AgentInvokeOptions,
+  AgentMode,
+  AnswerStyle,
+  ChatStreamEvent,
+  LlmAttribution,
+  RetrievalFilters,
+  ReviewMode,
+  RunBudget,
+  Tenant,
+  UsageTotals,
+} from "./types/index.js";
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = path.dirname(__filename);
 
 const config = getConfig();
 validateLlmConfig();
+validateRetrieverConfig();
+validateTenantConfig();
+validatePromptConfig();
+validateAuthConfig();
+getPriceTable();
+
+if (isMultiTenant() && !isAuthEnabled()) {
+  logger.warn(
+    "TENANTS_FILE is set but AUTH_MODE=none: any client can pick a tenant with X-Tenant-ID"
+  );
+}
+if (getConfig().reviewMode !== "off" && !isAuthEnabled()) {
+  logger.warn(
+    "REVIEW_MODE is set but AUTH_MODE=none: paused runs can't be resumed without reviewer credentials"
+  );
+}
 
 const app = express();
 
 // Middleware
-app.use(cors());
+app.use(cors(corsOptions()));
 app.use(express.json());
 
 // Serve static files from public/
 const publicPath = path.resolve(__dirname, "..", "public");
 app.use(express.static(publicPath));
 
+// ── Request Context ─────────────────────────────────────────────────
+
+const REQUEST_ID_PATTERN = /^[\w.:-]{1,128}$/;
+const httpTracer = trace.getTracer("openbook-http");
+
+// Every API request except the health check gets a request ID (the
+// caller's X-Request-ID, else a fresh one) and, when tracing is on, a
+// span that parents the run's LangChain spans. Log lines written while
+// handling the request carry the ID, its tenant and thread, and the
+// span's trace ID. Registered after the body parser, whose callbacks run
+// outside this context.
+app.use("/api", (req, res, next) => {
+  if (req.path === "/health") {
+    next();
+    return;
+  }
+  const header = req.get("x-request-id");
+  const requestId =
+    header && REQUEST_ID_PATTERN.test(header) ? header : randomUUID();
+  res.set("X-Request-ID", requestId);
+
+  const started = Date.now();
+  const route = `${req.method} ${req.baseUrl}${req.path}`;
+  const span = httpTracer.startSpan(route, {
+    kind: SpanKind.SERVER,
+    attributes: { "http.method": req.method, "request.id": requestId },
+  });
+
+  // Later middleware and handlers add the tenant and thread to this object
+  const logContext: LogContext = { requestId };
+  res.on("finish", () => {
+    span.setAttribute("http.status_code", res.statusCode);
+    span.end();
+    // "finish" fires outside the request's async context
+    runWithLogContext(logContext, () =>
+      logger.info(`${route} ${res.statusCode}`, {
+        status: res.statusCode,
+        durationMs: Date.now() - started,
+      })
+    );
+  });
+
+  runWithLogContext(logContext, () =>
+    otelContext.with(trace.setSpan(otelContext.active(), span), next)
+  );
+});
+
+// ── Request Helpers ─────────────────────────────────────────────────
+
+const THREAD_ID_PATTERN = /^[\w.:-]{1,128}$/;
+
+/**
+ * Read an optional `threadId` from a request body. Returns a fresh ID
+ * when none is supplied, or null when the supplied value is invalid.
+ */
+function resolveThreadId(raw: unknown): string | null {
+  if (raw === undefined || raw === null || raw === "") {
+    return generateThreadId();
+  }
+  if (typeof raw !== "string" || !THREAD_ID_PATTERN.test(raw)) return null;
+  return raw;
+}
+
+/**
+ * Read optional `filters` from a request body. An object pins them to
+ * the thread, `null` clears them and omitting them keeps the current
+ * ones. Returns an error message when the value is invalid.
+ */
+function resolveFilters(
+  raw: unknown
+): { filters?: RetrievalFilters | null; error?: string } {
+  if (raw === undefined) return {};
+  const parsed = retrievalFiltersSchema.nullable().safeParse(raw);
+  if (!parsed.success) {
+    const issue = parsed.error.issues[0];
+    const field = issue.path.join(".");
+    return { error: field ? `${field}: ${issue.message}` : issue.message };
+  }
+  return { filters: parsed.data };
+}
+
+/** Read an optional `review` mode from a request body. */
+function resolveReviewMode(
+  raw: unknown
+): { review?: ReviewMode; error?: string } {
+  if (raw === undefined) return {};
+  const parsed = reviewModeSchema.safeParse(raw);
+  return parsed.success
+    ? { review: parsed.data }
+    : { error: "review must be one of off, tools, answer, all" };
+}
+
+/** Read an optional agent `mode` from a request body. */
+function resolveAgentMode(
+  raw: unknown
+): { mode?: AgentMode; error?: string } {
+  if (raw === undefined) return {};
+  return (AGENT_MODES as readonly unknown[]).includes(raw)
+    ? { mode: raw as AgentMode }
+    : { error: `mode must be one of ${AGENT_MODES.join(", ")}` };
+}
+
+/**
+ * Read an optional run `budget` from a request body. Limits above the
+ * server's `RUN_*` settings are capped when the run starts.
+ */
+function resolveBudget(raw: unknown): { budget?: RunBudget; error?: string } {
+  if (raw === undefined) return {};
+  const parsed = runBudgetSchema.safeParse(raw);
+  if (!parsed.success) {
+    const issue = parsed.error.issues[0];
+    const field = issue.path.join(".");
+    return { error: field ? `${field}: ${issue.message}` : issue.message };
+  }
+  return { budget: parsed.data };
+}
+
+/**
+ * Read an optional `prompt` selection (template reference or weighted
+ * split) and `answerStyle` from a request body.
+ */
+function resolvePrompt(body: Record<string, unknown>): {
+  prompt?: string;
+  answerStyle?: AnswerStyle;
+  error?: string;
+} {
+  const { prompt, answerStyle } = body;
+  if (prompt !== undefined) {
+    if (typeof prompt !== "string") return { error: "prompt must be a string" };
+    try {
+      parsePromptSpec(prompt);
+    } catch (error) {
+      return { error: error instanceof Error ? error.message : String(error) };
+    }
+  }
+  if (answerStyle !== undefined) {
+    if (!(ANSWER_STYLES as readonly unknown[]).includes(answerStyle)) {
+      return { error: `answerStyle must be one of ${ANSWER_STYLES.join(", ")}` };
+    }
+    return { prompt, answerStyle: answerStyle as AnswerStyle };
+  }
+  return { prompt };
+}
+
+/** Options read from a `/api/chat` or `/api/chat/stream` body. */
+type ChatRequest = Omit<AgentInvokeOptions, "config" | "signal" | "tenantId"> & {
+  threadId: string;
+};
+
+/** 400 body: the error, and a message the chat UI shows in place of an answer. */
+interface ChatRequestError {
+  error: string;
+  response: string;
+}
+
+/**
+ * Read the message and options of a chat request. Both chat routes use
+ * this, so they accept and reject the same bodies.
+ */
+function parseChatRequest(req: express.Request): {
+  options?: ChatRequest;
+  error?: ChatRequestError;
+} {
+  const body: Record<string, unknown> = req.body ?? {};
+  const { message } = body;
+  if (!message || typeof message !== "string" || !message.trim()) {
+    return {
+      error: {
+        error: "No message provided",
+        response: "Please provide a message to process.",
+      },
+    };
+  }
+
+  const threadId = resolveThreadId(body.threadId);
+  if (!threadId) {
+    return {
+      error: {
+        error: "Invalid threadId",
+        response: "The conversation ID is invalid. Please start a new conversation.",
+      },
+    };
+  }
+
+  const { filters, error: filtersError } = resolveFilters(body.filters);
+  if (filtersError) {
+    return {
+      error: {
+        error: `Invalid filters: ${filtersError}`,
+        response: "The search filters are invalid.",
+      },
+    };
+  }
+
+  const { review, error: reviewError } = resolveReviewMode(body.review);
+  if (reviewError) {
+    return {
+      error: { error: reviewError, response: "The review mode is invalid." },
+    };
+  }
+
+  const { mode, error: modeError } = resolveAgentMode(body.mode);
+  if (modeError) {
+    return {
+      error: { error: modeError, response: "The agent mode is invalid." },
+    };
+  }
+
+  const { budget, error: budgetError } = resolveBudget(body.budget);
+  if (budgetError) {
+    return {
+      error: {
+        error: `Invalid budget: ${budgetError}`,
+        response: "The run budget is invalid.",
+      },
+    };
+  }
+
+  const { prompt, answerStyle, error: promptError } = resolvePrompt(body);
+  if (promptError) {
+    return {
+      error: { error: promptError, response: "The prompt selection is invalid." },
+    };
+  }
+
+  return {
+    options: {
+      query: message.trim(),
+      threadId,
+      filters,
+      review,
+      budget,
+      prompt,
+      answerStyle,
+      mode,
+    },
+  };
+}
+
+/**
+ * JSON body for a finished or paused turn. A paused turn has an empty
+ * `response` and the pending `review`.
+ */
+function turnResponse(turn: AgentTurnResult) {
+  // Extract thinking tags (same pattern as original Python app.py)
+  const { content, thinking } = splitThinking(turn.response);
+
+  // Map [c:xxxxxxxx] markers to numbered footnotes + source documents
+  const { content: response, citations } = resolveCitations(
+    content,
+    turn.turnMessages
+  );
+
+  return {
+    success: true,
+    response, // Raw markdown — frontend parses with marked.js
+    thinking,
+    citations,
+    grounding: turn.state.grounding,
+    filters: turn.state.retrievalFilters,
+    review: turn.review,
+    reviews: turn.state.reviews,
+    budget: budgetReport(turn.state),
+    usage: turn.state.usage ?? EMPTY_USAGE,
+    threadUsage: turn.state.threadUsage ?? EMPTY_USAGE,
+    cachedAnswer: turn.state.cachedAnswer ?? null,
+    llm: turn.llm,
+    promptVersion: turn.state.promptVersion,
+    mode: agentMode(turn.state),
+    // The answer's id, for feedback; a paused turn has no answer yet
+    messageId: turn.review
+      ? null
+      : (turn.state.messages.at(-1)?.id ?? null),
+    threadId: turn.threadId,
+  };
+}
+
+const LLM_UNAVAILABLE_MESSAGE =
+  "The language model service is temporarily unavailable. Please try again in a moment.";
+
+/** User-facing message for a failed agent run. */
+function processingErrorMessage(error: unknown): string {
+  if (isRetryableError(error)) return LLM_UNAVAILABLE_MESSAGE;
+  const errMsg = error instanceof Error ? error.message : String(error);
+  return `I apologize, but I encountered an error processing your request: ${errMsg}`;
+}
+
+/**
+ * Respond to a failed agent run: 503 when every LLM provider was
+ * throttled or unavailable, so clients can retry later, else 500.
+ */
+function sendProcessingError(res: express.Response, error: unknown): void {
+  const unavailable = isRetryableError(error);
+  res.status(unavailable ? 503 : 500).json({
+    error: unavailable ? "LLM unavailable" : "Processing error",
+    response: processingErrorMessage(error),
+  });
+}
+
+/** The tenant resolved for this request by the tenant middleware. */
+function requestTenant(res: express.Response): Tenant {
+  return res.locals.tenant as Tenant;
+}
+
+/**
+ * Add a chat request's LLM usage to the usage ledger, under the model
+ * that produced the answer (the primary one when there is none).
+ */
+function recordLedgerUsage(
+  res: express.Response,
+  threadId: string,
+  question: string,
+  usage: UsageTotals,
+  llm: LlmAttribution | null = null
+): void {
+  getUsageLedger().record({
+    tenantId: requestTenant(res).id,
+    clientId: requestPrincipal(res)?.id,
+    threadId,
+    question,
+    model: llm ? `${llm.provider}:${llm.model}` : currentModelId(),
+    ...usage,
+  });
+}
+
+// ── Authentication & Tenant Resolution ──────────────────────────────
+
+// Every API route except the health check is authenticated (per
+// AUTH_MODE), rate limited per caller, and runs as exactly one tenant:
+// the one the caller's credential is bound to, else the X-Tenant-ID
+// header, else the default tenant. Only admins may use an unbound
+// credential when there are several tenants.
+app.use("/api", (req, res, next) => {
+  if (req.path === "/health") {
+    next();
+    return;
+  }
+  void authMiddleware(req, res, next);
+});
+
+app.use("/api", (req, res, next) => {
+  if (req.path === "/health") {
+    next();
+    return;
+  }
+  const principal = requestPrincipal(res);
+  const { tenant, error } = resolveTenant({
+    tenantId: req.get("x-tenant-id") || undefined,
+    boundTenantId: principal?.tenantId,
+    anyTenant: !isAuthEnabled() || hasScope(principal, "admin"),
+  });
+  if (!tenant) {
+    res.status(error!.status).json({ error: error!.message });
+    return;
+  }
+  res.locals.tenant = tenant;
+  setLogContext({ tenantId: tenant.id });
+  next();
+});
+
+// Thread routes log with their thread; each handler still validates it
+app.param("id", (_req, _res, next, id: string) => {
+  if (THREAD_ID_PATTERN.test(id)) setLogContext({ threadId: id });
+  next();
+});
+
 // ── API Routes ──────────────────────────────────────────────────────
 
 // POST /api/chat
-app.post("/api/chat", async (req, res) => {
+app.post("/api/chat", quotaMiddleware, async (req, res) => {
   try {
-    const { message } = req.body;
+    const { options, error } = parseChatRequest(req);
+    if (!options) {
+      res.status(400).json(error);
+      return;
+    }
+    const { threadId } = options;
+    setLogContext({ threadId });
 
-    if (!message || typeof message !== "string" || !message.trim()) {
-      res.status(400).json({
-        error: "No message provided",
-        response: "Please provide a message to process.",
+    const tenantId = requestTenant(res).id;
+    if (await getPendingReview(threadId, tenantId)) {
+      res.status(409).json({
+        error: "Thread is waiting for review",
+        response: "This conversation is waiting for a reviewer's decision.",
+        threadId,
       });
       return;
     }
 
-    const userMessage = message.trim();
-    logger.info(
-      `Processing user message: ${userMessage.substring(0, 100)}...`
-    );
+    const userMessage = options.query;
+    logger.info("Processing user message", { query: userMessage });
 
-    try {
-      const rawResponse = await invokeAgent({ query: userMessage });
-
-      // Extract thinking tags (same pattern as original Python app.py)
-      const thinkingMatches: string[] = [];
-      const thinkingPattern = /<thinking>([\s\S]*?)<\/thinking>/g;
-      let match: RegExpExecArray | null;
-      while ((match = thinkingPattern.exec(rawResponse)) !== null) {
-        thinkingMatches.push(match[1]);
-      }
+    // Cancel the graph run if the client goes away before the answer
+    const controller = new AbortController();
+    res.on("close", () => {
+      if (!res.writableEnded) controller.abort();
+    });
 
-      // Remove thinking tags from content
-      const content = rawResponse
-        .replace(/<thinking>[\s\S]*?<\/thinking>/g, "")
-        .replace(/\n\s*\n/g, "\n\n")
-        .trim();
-
-      res.json({
-        success: true,
-        response: content, // Raw markdown — frontend parses with marked.js
-        thinking: thinkingMatches,
-        message: userMessage,
+    const tokens = new TokenCounter();
+    try {
+      const turn = await runAgentTurn({
+        ...options,
+        tenantId,
+        signal: controller.signal,
+        config: { callbacks: [tokens] },
       });
+
+      recordLedgerUsage(res, threadId, userMessage, turn.usage, turn.llm);
+      res.json({ ...turnResponse(turn), message: userMessage });
     } catch (error) {
+      if (controller.signal.aborted) {
+        logger.info("Client disconnected, agent run cancelled");
+        return;
+      }
       const errMsg =
         error instanceof Error ? error.message : String(error);
       logger.error(`Error processing message with RAG agent: ${errMsg}`);
-      res.status(500).json({
-        error: "Processing error",
-        response: `I apologize, but I encountered an error processing your request: ${errMsg}`,
-      });
+      sendProcessingError(res, error);
+    } finally {
+      recordTokenUsage(res, tokens.total);
     }
   } catch (error) {
     logger.error(`Unexpected error in chat endpoint: ${error}`);
@@ -88,26 +558,402 @@ app.post("/api/chat", async (req, res) => {
   }
 });
 
+// POST /api/chat/stream
+// Server-Sent Events: one `event: <type>` frame per ChatStreamEvent.
+app.post("/api/chat/stream", quotaMiddleware, async (req, res) => {
+  const { options, error } = parseChatRequest(req);
+  if (!options) {
+    res.status(400).json(error);
+    return;
+  }
+  const { threadId } = options;
+  setLogContext({ threadId });
+
+  const tenantId = requestTenant(res).id;
+  try {
+    if (await getPendingReview(threadId, tenantId)) {
+      res.status(409).json({
+        error: "Thread is waiting for review",
+        response: "This conversation is waiting for a reviewer's decision.",
+        threadId,
+      });
+      return;
+    }
+  } catch (error) {
+    logger.error(`Error reading thread ${threadId}: ${error}`);
+    res.status(500).json({
+      error: "Server error",
+      response: "An unexpected server error occurred. Please try again.",
+    });
+    return;
+  }
+
+  const userMessage = options.query;
+  logger.info("Streaming user message", { query: userMessage });
+
+  res.set({
+    "Content-Type": "text/event-stream",
+    "Cache-Control": "no-cache",
+    Connection: "keep-alive",
+  });
+  res.flushHeaders();
+
+  // Cancel the graph run if the client goes away mid-stream
+  const controller = new AbortController();
+  res.on("close", () => {
+    if (!res.writableEnded) controller.abort();
+  });
+
+  const send = (event: ChatStreamEvent) => {
+    res.write(`event: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`);
+  };
+
+  const tokens = new TokenCounter();
+  try {
+    for await (const event of streamChatEvents({
+      ...options,
+      tenantId,
+      signal: controller.signal,
+      config: { callbacks: [tokens] },
+    })) {
+      if (event.type === "final") {
+        recordLedgerUsage(res, threadId, userMessage, event.usage, event.llm);
+      } else if (event.type === "review") {
+        recordLedgerUsage(res, threadId, userMessage, event.usage);
+      }
+      send(event);
+    }
+  } catch (error) {
+    if (controller.signal.aborted) {
+      logger.info("Client disconnected, agent run cancelled");
+      recordTokenUsage(res, tokens.total);
+      return;
+    }
+    const errMsg = error instanceof Error ? error.message : String(error);
+    logger.error(`Error streaming message with RAG agent: ${errMsg}`);
+    send({ type: "error", message: processingErrorMessage(error) });
+  }
+
+  recordTokenUsage(res, tokens.total);
+  res.end();
+});
+
+// GET /api/threads/:id
+app.get("/api/threads/:id", async (req, res) => {
+  const threadId = req.params.id;
+  if (!THREAD_ID_PATTERN.test(threadId)) {
+    res.status(400).json({ error: "Invalid threadId" });
+    return;
+  }
+
+  try {
+    const thread = await getThreadConversation(
+      threadId,
+      requestTenant(res).id
+    );
+    if (!thread) {
+      res.status(404).json({ error: "Thread not found", threadId });
+      return;
+    }
+    res.json(thread);
+  } catch (error) {
+    const errMsg = error instanceof Error ? error.message : String(error);
+    logger.error(`Error reading thread ${threadId}: ${errMsg}`);
+    res.status(500).json({ error: "Server error" });
+  }
+});
+
+// GET /api/threads/:id/history?limit=N
+app.get("/api/threads/:id/history", async (req, res) => {
+  const threadId = req.params.id;
+  if (!THREAD_ID_PATTERN.test(threadId)) {
+    res.status(400).json({ error: "Invalid threadId" });
+    return;
+  }
+
+  const limit = req.query.limit ? Number(req.query.limit) : undefined;
+  if (limit !== undefined && (!Number.isInteger(limit) || limit <= 0)) {
+    res.status(400).json({ error: "limit must be a positive integer" });
+    return;
+  }
+
+  try {
+    const checkpoints = await getThreadCheckpoints(
+      threadId,
+      limit,
+      requestTenant(res).id
+    );
+    if (checkpoints.length === 0) {
+      res.status(404).json({ error: "Thread not found", threadId });
+      return;
+    }
+    res.json({ threadId, checkpoints });
+  } catch (error) {
+    const errMsg = error instanceof Error ? error.message : String(error);
+    logger.error(`Error reading history for thread ${threadId}: ${errMsg}`);
+    res.status(500).json({ error: "Server error" });
+  }
+});
+
+// GET /api/reviews
+// Threads of the tenant paused for review, oldest first. Reviewers only.
+app.get("/api/reviews", requireScope("reviewer"), async (_req, res) => {
+  try {
+    const reviews = await listPendingReviews(requestTenant(res).id);
+    res.json({ reviews });
+  } catch (error) {
+    const errMsg = error instanceof Error ? error.message : String(error);
+    logger.error(`Error listing reviews: ${errMsg}`);
+    res.status(500).json({ error: "Server error" });
+  }
+});
+
+// GET /api/threads/:id/review
+app.get("/api/threads/:id/review", async (req, res) => {
+  const threadId = req.params.id;
+  if (!THREAD_ID_PATTERN.test(threadId)) {
+    res.status(400).json({ error: "Invalid threadId" });
+    return;
+  }
+
+  try {
+    const review = await getPendingReview(threadId, requestTenant(res).id);
+    if (!review) {
+      res.status(404).json({ error: "No pending review", threadId });
+      return;
+    }
+    res.json(review);
+  } catch (error) {
+    const errMsg = error instanceof Error ? error.message : String(error);
+    logger.error(`Error reading review for thread ${threadId}: ${errMsg}`);
+    res.status(500).json({ error: "Server error" });
+  }
+});
+
+// POST /api/threads/:id/resume
+// Body: { action: "approve" | "reject", toolCalls?, answer?, reason? }
+// Reviewers only; the decision records who made it.
+app.post(
+  "/api/threads/:id/resume",
+  requireScope("reviewer"),
+  quotaMiddleware,
+  async (req, res) => {
+    const threadId = req.params.id;
+    if (!THREAD_ID_PATTERN.test(threadId)) {
+      res.status(400).json({ error: "Invalid threadId" });
+      return;
+    }
+
+    const parsed = reviewDecisionSchema.safeParse(req.body);
+    if (!parsed.success) {
+      const issue = parsed.error.issues[0];
+      const field = issue.path.join(".");
+      res.status(400).json({
+        error: `Invalid decision: ${field ? `${field}: ` : ""}${issue.message}`,
+      });
+      return;
+    }
+
+    const tenantId = requestTenant(res).id;
+    const controller = new AbortController();
+    res.on("close", () => {
+      if (!res.writableEnded) controller.abort();
+    });
+
+    const tokens = new TokenCounter();
+    try {
+      const pending = await getPendingReview(threadId, tenantId);
+      if (!pending) {
+        res
+          .status(409)
+          .json({ error: "Thread is not waiting for review", threadId });
+        return;
+      }
+      const mismatch = decisionError(pending, parsed.data);
+      if (mismatch) {
+        res.status(400).json({ error: `Invalid decision: ${mismatch}` });
+        return;
+      }
+
+      const turn = await resumeAgentTurn(threadId, parsed.data, {
+        tenantId,
+        reviewer: requestPrincipal(res),
+        signal: controller.signal,
+        config: { callbacks: [tokens] },
+      });
+      recordLedgerUsage(res, threadId, pending.question, turn.usage, turn.llm);
+      res.json(turnResponse(turn));
+    } catch (error) {
+      if (controller.signal.aborted) {
+        logger.info("Client disconnected, resumed run cancelled");
+        return;
+      }
+      const errMsg = error instanceof Error ? error.message : String(error);
+      logger.error(`Error resuming thread ${threadId}: ${errMsg}`);
+      sendProcessingError(res, error);
+    } finally {
+      recordTokenUsage(res, tokens.total);
+    }
+  }
+);
+
+// POST /api/feedback
+// A user's rating of an answer, keyed by thread and answer message id.
+app.post("/api/feedback", async (req, res) => {
+  const parsed = feedbackRequestSchema.safeParse(req.body);
+  if (!parsed.success) {
+    const issue = parsed.error.issues[0];
+    const field = issue.path.join(".");
+    res.status(400).json({
+      error: `Invalid feedback: ${field ? `${field}: ` : ""}${issue.message}`,
+    });
+    return;
+  }
+  if (!THREAD_ID_PATTERN.test(parsed.data.threadId)) {
+    res.status(400).json({ error: "Invalid threadId" });
+    return;
+  }
+  setLogContext({ threadId: parsed.data.threadId });
+
+  try {
+    const { feedback, error } = await recordFeedback(parsed.data, {
+      tenantId: requestTenant(res).id,
+      clientId: requestPrincipal(res)?.id,
+    });
+    if (error) {
+      res.status(error.status).json({ error: error.message });
+      return;
+    }
+    res.json({ success: true, feedback });
+  } catch (error) {
+    logger.error(`Error recording feedback: ${error}`);
+    res.status(500).json({ error: "Failed to record feedback" });
+  }
+});
+
+// GET /api/usage?groupBy=day|thread|key|question&from=&to=&threadId=
+// LLM usage and estimated cost of the tenant, most expensive group first.
+const USAGE_GROUPS: UsageGroupBy[] = ["day", "thread", "key", "question"];
+const DAY_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+app.get("/api/usage", async (req, res) => {
+  const groupBy = (req.query.groupBy ?? "day") as UsageGroupBy;
+  if (!USAGE_GROUPS.includes(groupBy)) {
+    res
+      .status(400)
+      .json({ error: `groupBy must be one of ${USAGE_GROUPS.join(", ")}` });
+    return;
+  }
+  const { from, to, threadId } = req.query;
+  for (const [name, value] of Object.entries({ from, to })) {
+    if (value !== undefined && !DAY_PATTERN.test(String(value))) {
+      res.status(400).json({ error: `${name} must be a date (YYYY-MM-DD)` });
+      return;
+    }
+  }
+  if (threadId !== undefined && !THREAD_ID_PATTERN.test(String(threadId))) {
+    res.status(400).json({ error: "Invalid threadId" });
+    return;
+  }
+  const limit = req.query.limit ? Number(req.query.limit) : undefined;
+  if (limit !== undefined && (!Number.isInteger(limit) || limit <= 0)) {
+    res.status(400).json({ error: "limit must be a positive integer" });
+    return;
+  }
+
+  try {
+    const tenant = requestTenant(res);
+    const entries = await getUsageLedger().read({
+      tenantId: tenant.id,
+      threadId: threadId as string | undefined,
+      from: from as string | undefined,
+      to: to as string | undefined,
+    });
+    const { totals, groups } = aggregateUsage(entries, groupBy);
+    res.json({
+      tenant: tenant.id,
+      groupBy,
+      totals,
+      groups: limit ? groups.slice(0, limit) : groups,
+    });
+  } catch (error) {
+    const errMsg = error instanceof Error ? error.message : String(error);
+    logger.error(`Error reading usage: ${errMsg}`);
+    res.status(500).json({ error: "Server error" });
+  }
+});
+
+// GET /api/cache
+// Hit/miss metrics of the enabled caches since startup.
+app.get("/api/cache", async (_req, res) => {
+  try {
+    res.json({ caches: await cacheStats() });
+  } catch (error) {
+    logger.error(`Error reading cache stats: ${error}`);
+    res.status(500).json({ error: "Server error" });
+  }
+});
+
+// POST /api/cache/invalidate
+// Drop cached searches and answers after documents are re-ingested:
+// `scope: "tenant"` (default) drops the tenant's entries,
+// `scope: "knowledge_base"` every entry from the tenant's Knowledge Base.
+// Admin credentials only.
+app.post("/api/cache/invalidate", requireScope("admin"), async (req, res) => {
+  const scope = req.body?.scope ?? "tenant";
+  if (scope !== "tenant" && scope !== "knowledge_base") {
+    res.status(400).json({ error: 'scope must be "tenant" or "knowledge_base"' });
+    return;
+  }
+
+  try {
+    const tenant = requestTenant(res);
+    const filter =
+      scope === "tenant"
+        ? { tenantId: tenant.id }
+        : { knowledgeBaseId: tenantKnowledgeBase(tenant) };
+    const dropped = await invalidateCaches(filter);
+    logger.info(
+      `Cache invalidated for ${scope} of tenant "${tenant.id}": ${JSON.stringify(dropped)}`
+    );
+    res.json({ tenant: tenant.id, scope, ...filter, dropped });
+  } catch (error) {
+    logger.error(`Error invalidating caches: ${error}`);
+    res.status(500).json({ error: "Server error" });
+  }
+});
+
 // GET /api/health
 app.get("/api/health", (_req, res) => {
   res.json({
     status: "healthy",
     agentAvailable: true,
+    llmProviders: llmProviderHealth(llmProviderChain()),
     timestamp: new Date().toISOString(),
   });
 });
 
+// GET /api/prompts
+// Prompt templates and the tenant's persona (without template text).
+app.get("/api/prompts", (_req, res) => {
+  const tenant = requestTenant(res);
+  res.json({
+    persona: tenant.persona,
+    templates: listPromptTemplates().map(({ id, name, version, source }) => ({
+      id,
+      name,
+      version,
+      source,
+    })),
+  });
+});
+
 // GET /api/examples
 app.get("/api/examples", (_req, res) => {
+  const tenant = requestTenant(res);
   res.json({
-    examples: [
-      "How much is the total budget?",
-      "What are the main priorities of this year's budget?",
-      "What are the primary sources of revenue for this year's budget?",
-      "Can you tell me about the file in the knowledge base? Summarize it",
-      "Summarize the budgets",
-      "What departments are included in this budget?",
-    ],
+    tenant: { id: tenant.id, name: tenant.name },
+    examples: tenant.examples,
   });
 });
 
@@ -120,20 +966,37 @@ app.get("/", (_req, res) => {
 
 const port = config.port;
 
-app.listen(port, () => {
-  logConfigSummary();
-  logger.info(`Server running on http://localhost:${port}`);
-});
+// Fail fast if the checkpointer backend (Postgres/Redis/file) is unreachable
+verifyCheckpointer()
+  .then(() => {
+    app.listen(port, () => {
+      logConfigSummary();
+      logger.info(`Server running on http://localhost:${port}`);
+    });
+  })
+  .catch((error) => {
+    const errMsg = error instanceof Error ? error.message : String(error);
+    logger.error(`Checkpointer connectivity check failed: ${errMsg}`);
+    process.exit(1);
+  });
 
 // Graceful shutdown
 process.on("SIGINT", async () => {
   logger.info("Shutting down...");
+  await flushUsage();
+  await getUsageLedger().flush();
+  await flushCaches();
+  await closeCheckpointer();
   await shutdownArizeTracing();
   process.exit(0);
 });
 
 process.on("SIGTERM", async () => {
   logger.info("Shutting down...");
+  await flushUsage();
+  await getUsageLedger().flush();
+  await flushCaches();
+  await closeCheckpointer();
   await shutdownArizeTracing();
   process.exit(0);
 });
@@ -1,2 +1,6 @@
-export { AgentStateAnnotation } from "./schemas.js";
+export {
+  AgentStateAnnotation,
+  MESSAGE_TIME_KEY,
+  messageTime,
+} from "./schemas.js";
 export type { AgentState, AgentStateUpdate } from "./schemas.js";
@@ -1,14 +1,67 @@
-import { Annotation, MessagesAnnotation } from "@langchain/langgraph";
+import { Annotation, messagesStateReducer } from "@langchain/langgraph";
+import type { Messages } from "@langchain/langgraph";
+import type { BaseMessage } from "@langchain/core/messages";
+import type {
+  AgentMode,
+  AnswerStyle,
+  BudgetLimit,
+  CachedAnswerHit,
+  GroundingReport,
+  RetrievalFilters,
+  ReviewMode,
+  ReviewRecord,
+  RunBudget,
+  UsageTotals,
+} from "../types/index.js";
+import { EMPTY_USAGE } from "../accounting/pricing.js";
+
+/** `additional_kwargs` key holding when a message joined the thread (epoch ms). */
+export const MESSAGE_TIME_KEY = "createdAt";
+
+/** When `message` joined its thread, if it was added with a timestamp. */
+export function messageTime(message: BaseMessage): number | undefined {
+  const time = message.additional_kwargs?.[MESSAGE_TIME_KEY];
+  return typeof time === "number" ? time : undefined;
+}
+
+/**
+ * The LangGraph messages reducer, stamping each new message with the
+ * time it was added. A message that replaces another (same id) keeps
+ * the time of the one it replaces.
+ */
+function timestampedMessages(
+  left: BaseMessage[],
+  right: Messages
+): BaseMessage[] {
+  const merged = messagesStateReducer(left, right);
+  const existing = new Map(left.map((m) => [m.id, m]));
+  const now = Date.now();
+  for (const message of merged) {
+    const previous = message.id ? existing.get(message.id) : undefined;
+    if (previous === message || messageTime(message) !== undefined) continue;
+    const additional = {
+      ...message.additional_kwargs,
+      [MESSAGE_TIME_KEY]: (previous && messageTime(previous)) ?? now,
+    };
+    // lc_kwargs is what the checkpointer serializes
+    message.additional_kwargs = additional;
+    message.lc_kwargs.additional_kwargs = additional;
+  }
+  return merged;
+}
 
 /**
  * RAG Agent state schema.
  *
- * Extends MessagesAnnotation (which provides `messages` with the LangGraph
- * message reducer) with agent-specific fields for observability and loop control.
+ * A `messages` channel with the LangGraph message reducer, plus a
+ * creation time on each message, and agent-specific fields for
+ * observability and loop control.
  */
 export const AgentStateAnnotation = Annotation.Root({
-  // Inherit the messages channel with the built-in reducer
-  ...MessagesAnnotation.spec,
+  messages: Annotation<BaseMessage[], Messages>({
+    reducer: timestampedMessages,
+    default: () => [],
+  }),
 
   /** Current processing step for observability. */
   currentStep: Annotation<string>({
@@ -22,11 +75,95 @@ export const AgentStateAnnotation = Annotation.Root({
     default: () => null,
   }),
 
-  /** Number of agent iterations (loop protection). */
+  /** Number of agent iterations in the current turn (loop protection). */
   iterations: Annotation<number>({
     reducer: (_prev, next) => next,
     default: () => 0,
   }),
+
+  /** Effective run budget of the current turn; null falls back to `RUN_*` config. */
+  budget: Annotation<Required<RunBudget> | null>({
+    reducer: (_prev, next) => next,
+    default: () => null,
+  }),
+
+  /** Epoch milliseconds the current turn must finish by, if it has a timeout. */
+  deadline: Annotation<number | null>({
+    reducer: (_prev, next) => next,
+    default: () => null,
+  }),
+
+  /** LLM usage and cost of the current turn (reset each turn). */
+  usage: Annotation<UsageTotals>({
+    reducer: (_prev, next) => next,
+    default: () => EMPTY_USAGE,
+  }),
+
+  /** LLM usage and cost of the whole thread. */
+  threadUsage: Annotation<UsageTotals>({
+    reducer: (_prev, next) => next,
+    default: () => EMPTY_USAGE,
+  }),
+
+  /** The budget limit that cut the current turn short, if any. */
+  budgetExhausted: Annotation<BudgetLimit | null>({
+    reducer: (_prev, next) => next,
+    default: () => null,
+  }),
+
+  /** Running summary of earlier turns folded out of `messages`. */
+  summary: Annotation<string | null>({
+    reducer: (_prev, next) => next,
+    default: () => null,
+  }),
+
+  /** Prompt template of the thread (`name@version`), kept across turns. */
+  promptVersion: Annotation<string | null>({
+    reducer: (_prev, next) => next,
+    default: () => null,
+  }),
+
+  /** Answer style requested for the current turn; null uses the persona's. */
+  answerStyle: Annotation<AnswerStyle | null>({
+    reducer: (_prev, next) => next,
+    default: () => null,
+  }),
+
+  /** Agent mode of the current turn; null uses `AGENT_MODE`. */
+  mode: Annotation<AgentMode | null>({
+    reducer: (_prev, next) => next,
+    default: () => null,
+  }),
+
+  /** The cached answer the current turn was served from, if any. */
+  cachedAnswer: Annotation<CachedAnswerHit | null>({
+    reducer: (_prev, next) => next,
+    default: () => null,
+  }),
+
+  /** Figure verification of the latest answer (reset at the start of each turn). */
+  grounding: Annotation<GroundingReport | null>({
+    reducer: (_prev, next) => next,
+    default: () => null,
+  }),
+
+  /** Retrieval filters pinned to the thread; applied to every search. */
+  retrievalFilters: Annotation<RetrievalFilters | null>({
+    reducer: (_prev, next) => next,
+    default: () => null,
+  }),
+
+  /** Where the current turn pauses for human review. */
+  reviewMode: Annotation<ReviewMode>({
+    reducer: (_prev, next) => next,
+    default: () => "off",
+  }),
+
+  /** Review decisions made during the current turn (reset each turn). */
+  reviews: Annotation<ReviewRecord[]>({
+    reducer: (_prev, next) => next,
+    default: () => [],
+  }),
 });
 
 export type AgentState = typeof AgentStateAnnotation.State;
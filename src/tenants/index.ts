@@ -0,0 +1,14 @@
+export {
+  DEFAULT_TENANT_ID,
+  validateTenantConfig,
+  resetTenantRegistry,
+  isMultiTenant,
+  getTenant,
+  listTenants,
+  tenantKnowledgeBase,
+  resolveTenant,
+  tenantIdFromConfig,
+  defaultTenantId,
+  tenantThreadId,
+} from "./registry.js";
+export type { TenantResolution } from "./registry.js";
@@ -0,0 +1,261 @@
+import { readFileSync } from "fs";
+import { z } from "zod";
+import type { RunnableConfig } from "@langchain/core/runnables";
+import { ANSWER_STYLES, getConfig } from "../config/index.js";
+import type { Tenant, TenantPersona } from "../types/index.js";
+
+// ── Registry File ───────────────────────────────────────────────────
+
+/** Tenant used when no registry is configured (single-tenant mode). */
+export const DEFAULT_TENANT_ID = "default";
+
+const DEFAULT_EXAMPLES = [
+  "How much is the total budget?",
+  "What are the main priorities of this year's budget?",
+  "What are the primary sources of revenue for this year's budget?",
+  "Can you tell me about the file in the knowledge base? Summarize it",
+  "Summarize the budgets",
+  "What departments are included in this budget?",
+];
+
+const TenantEntrySchema = z.object({
+  id: z.string().regex(/^[\w.-]{1,64}$/, "id must be 1-64 of [A-Za-z0-9_.-]"),
+  name: z.string().min(1),
+  knowledgeBaseId: z.string().optional(),
+  region: z.string().optional(),
+  localIndexPath: z.string().optional(),
+  examples: z.array(z.string()).default([]),
+  persona: z
+    .object({
+      prompt: z.string().min(1).optional(),
+      aiPrompt: z.string().min(1).optional(),
+      organizationName: z.string().min(1).optional(),
+      fiscalYear: z.string().min(1).optional(),
+      answerStyle: z.enum(ANSWER_STYLES).optional(),
+    })
+    .default({}),
+});
+
+const RegistryFileSchema = z.object({
+  /** Tenant used when a request names none; omit to require one. */
+  defaultTenant: z.string().optional(),
+  tenants: z.array(TenantEntrySchema).min(1),
+});
+
+interface TenantRegistry {
+  defaultTenant?: string;
+  tenants: Map<string, Tenant>;
+}
+
+let _registry: TenantRegistry | null = null;
+
+/**
+ * A tenant's persona, filling unset fields from `PROMPT_TEMPLATE`,
+ * `AI_PROMPT_TEMPLATE`, `ORGANIZATION_NAME`, `FISCAL_YEAR` and
+ * `ANSWER_STYLE`.
+ */
+function resolvePersona(
+  persona: Partial<TenantPersona>,
+  organizationName?: string
+): TenantPersona {
+  const config = getConfig();
+  return {
+    prompt: persona.prompt ?? config.promptTemplate,
+    aiPrompt: persona.aiPrompt ?? config.aiPromptTemplate,
+    organizationName: persona.organizationName ?? organizationName,
+    fiscalYear: persona.fiscalYear ?? config.fiscalYear,
+    answerStyle: persona.answerStyle ?? config.answerStyle,
+  };
+}
+
+function loadRegistry(): TenantRegistry {
+  if (_registry) return _registry;
+  const config = getConfig();
+
+  if (!config.tenantsFile) {
+    const tenant: Tenant = {
+      id: DEFAULT_TENANT_ID,
+      name: "Default",
+      knowledgeBaseId: config.knowledgeBaseId,
+      region: config.awsRegion,
+      localIndexPath: config.localIndexPath,
+      examples: DEFAULT_EXAMPLES,
+      persona: resolvePersona({}, config.organizationName),
+    };
+    _registry = { tenants: new Map([[tenant.id, tenant]]) };
+    return _registry;
+  }
+
+  const file = config.tenantsFile;
+  const parsed = RegistryFileSchema.safeParse(
+    JSON.parse(readFileSync(file, "utf8"))
+  );
+  if (!parsed.success) {
+    const issue = parsed.error.issues[0];
+    throw new Error(
+      `Invalid tenants file ${file}: ${issue.path.join(".")}: ${issue.message}`
+    );
+  }
+
+  const tenants = new Map<string, Tenant>();
+  for (const entry of parsed.data.tenants) {
+    if (tenants.has(entry.id)) {
+      throw new Error(`Invalid tenants file ${file}: duplicate tenant "${entry.id}"`);
+    }
+    // Each tenant needs its own corpus; never fall back to a shared one
+    if (config.retrieverType === "bedrock" && !entry.knowledgeBaseId) {
+      throw new Error(
+        `Tenant "${entry.id}" needs a knowledgeBaseId when RETRIEVER_TYPE=bedrock`
+      );
+    }
+    if (config.retrieverType === "local" && !entry.localIndexPath) {
+      throw new Error(
+        `Tenant "${entry.id}" needs a localIndexPath when RETRIEVER_TYPE=local`
+      );
+    }
+    tenants.set(entry.id, {
+      ...entry,
+      region: entry.region ?? config.awsRegion,
+      examples: entry.examples.length > 0 ? entry.examples : DEFAULT_EXAMPLES,
+      persona: resolvePersona(entry.persona, entry.name),
+    });
+  }
+
+  const { defaultTenant } = parsed.data;
+  if (defaultTenant && !tenants.has(defaultTenant)) {
+    throw new Error(
+      `Invalid tenants file ${file}: defaultTenant "${defaultTenant}" is not defined`
+    );
+  }
+
+  _registry = { defaultTenant, tenants };
+  return _registry;
+}
+
+/** Load and validate the tenant registry (call at startup to fail fast). */
+export function validateTenantConfig(): void {
+  loadRegistry();
+}
+
+/** Forget the loaded registry (e.g. in tests or scripts). */
+export function resetTenantRegistry(): void {
+  _registry = null;
+}
+
+// ── Lookup ──────────────────────────────────────────────────────────
+
+/** Whether tenants come from `TENANTS_FILE` rather than the env config. */
+export function isMultiTenant(): boolean {
+  return Boolean(getConfig().tenantsFile);
+}
+
+export function getTenant(id: string): Tenant | undefined {
+  return loadRegistry().tenants.get(id);
+}
+
+export function listTenants(): Tenant[] {
+  return [...loadRegistry().tenants.values()];
+}
+
+/**
+ * The document collection a tenant searches: its Knowledge Base ID, or
+ * its local index path with `RETRIEVER_TYPE=local`.
+ */
+export function tenantKnowledgeBase(tenant: Tenant): string {
+  return (
+    (getConfig().retrieverType === "local"
+      ? tenant.localIndexPath
+      : tenant.knowledgeBaseId) ?? ""
+  );
+}
+
+export interface TenantResolution {
+  tenant?: Tenant;
+  /** HTTP status and message when the tenant can't be resolved. */
+  error?: { status: number; message: string };
+}
+
+/**
+ * Resolve the tenant of a request.
+ *
+ * - A credential bound to a tenant (`boundTenantId`) selects it; a
+ *   tenant header naming a different tenant is rejected.
+ * - With several tenants, an unbound credential is rejected unless it
+ *   may pick any tenant (`anyTenant`: admins, or no auth at all).
+ * - Otherwise the tenant header selects the tenant.
+ * - Otherwise the registry's `defaultTenant` is used, if any.
+ */
+export function resolveTenant(request: {
+  tenantId?: string;
+  boundTenantId?: string;
+  anyTenant?: boolean;
+}): TenantResolution {
+  const registry = loadRegistry();
+  const { tenantId, boundTenantId, anyTenant = true } = request;
+
+  if (boundTenantId) {
+    const tenant = registry.tenants.get(boundTenantId);
+    if (!tenant) {
+      return {
+        error: { status: 403, message: "Credential is bound to an unknown tenant" },
+      };
+    }
+    if (tenantId && tenantId !== tenant.id) {
+      return {
+        error: { status: 403, message: "Credential does not belong to this tenant" },
+      };
+    }
+    return { tenant };
+  }
+
+  if (isMultiTenant() && !anyTenant) {
+    return {
+      error: { status: 403, message: "Credential is not bound to a tenant" },
+    };
+  }
+
+  if (tenantId) {
+    const tenant = registry.tenants.get(tenantId);
+    if (!tenant) {
+      return { error: { status: 404, message: `Unknown tenant: ${tenantId}` } };
+    }
+    return { tenant };
+  }
+
+  if (!isMultiTenant()) return { tenant: registry.tenants.get(DEFAULT_TENANT_ID) };
+  if (registry.defaultTenant) {
+    return { tenant: registry.tenants.get(registry.defaultTenant) };
+  }
+  return { error: { status: 400, message: "No tenant specified" } };
+}
+
+// ── Request Context ─────────────────────────────────────────────────
+
+/**
+ * The tenant a graph run belongs to: `configurable.tenantId`, else the
+ * default tenant. Throws rather than guessing when neither is known.
+ */
+export function tenantIdFromConfig(config?: RunnableConfig): string {
+  const id = config?.configurable?.tenantId;
+  if (typeof id === "string" && id) return id;
+  return defaultTenantId();
+}
+
+/** The default tenant's id; throws when the registry has none. */
+export function defaultTenantId(): string {
+  if (!isMultiTenant()) return DEFAULT_TENANT_ID;
+  const { defaultTenant } = loadRegistry();
+  if (!defaultTenant) {
+    throw new Error("No tenant in the request and no defaultTenant configured");
+  }
+  return defaultTenant;
+}
+
+/**
+ * Checkpointer thread id for a tenant's conversation. Client thread ids
+ * can't contain "/", so one tenant can never address another's thread.
+ * Single-tenant mode keeps ids unchanged.
+ */
+export function tenantThreadId(tenantId: string, threadId: string): string {
+  return isMultiTenant() ? `${tenantId}/${threadId}` : threadId;
+}
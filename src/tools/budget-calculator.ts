@@ -0,0 +1,291 @@
+import { tool } from "@langchain/core/tools";
+import { z } from "zod";
+import { Decimal, logger } from "../utils/index.js";
+
+// ── Operations ──────────────────────────────────────────────────────
+
+export const CALCULATOR_OPERATIONS = [
+  "percent_change",
+  "share_of_total",
+  "cagr",
+  "sum",
+  "difference",
+  "per_capita",
+] as const;
+
+export type CalculatorOperation = (typeof CALCULATOR_OPERATIONS)[number];
+
+type Amount = string | number;
+
+export interface CalculatorRequest {
+  operation: CalculatorOperation;
+  from?: Amount;
+  to?: Amount;
+  periods?: number;
+  part?: Amount;
+  total?: Amount;
+  amount?: Amount;
+  population?: Amount;
+  values?: Amount[];
+  decimals?: number;
+}
+
+export interface CalculatorResult {
+  operation: CalculatorOperation;
+  /** Result as a plain decimal string, e.g. "4.55" or "25000". */
+  result: string;
+  /** Result formatted for an answer, e.g. "4.55%" or "$25,000". */
+  display: string;
+  /** The calculation with the actual inputs substituted. */
+  formula: string;
+  /** Whether `result` was rounded to `decimals` places. */
+  rounded: boolean;
+}
+
+const DEFAULT_DECIMALS = 2;
+
+/** Extra places carried through intermediate ratios before the final rounding. */
+const GUARD_DECIMALS = 10;
+
+/** Root degree grows the work of a cagr; no budget spans more years. */
+const MAX_PERIODS = 100;
+
+function required(
+  request: CalculatorRequest,
+  field: keyof CalculatorRequest
+): Decimal {
+  const value = request[field];
+  if (value === undefined || value === null || Array.isArray(value)) {
+    throw new Error(`${request.operation} requires "${field}"`);
+  }
+  try {
+    return Decimal.parse(value as Amount);
+  } catch {
+    throw new Error(`"${field}" is not a number: ${JSON.stringify(value)}`);
+  }
+}
+
+function isCurrency(...raw: Array<Amount | undefined>): boolean {
+  return raw.some((v) => typeof v === "string" && v.includes("$"));
+}
+
+/**
+ * Display string for an amount: currency to `decimals` places ("$0.30",
+ * not "$0.3"); other amounts keep every digit unless `decimals` is given.
+ */
+function money(value: Decimal, currency: boolean, decimals?: number): string {
+  const text =
+    decimals === undefined ? value.toGrouped() : value.toFixed(decimals, true);
+  if (!currency) return text;
+  return text.startsWith("-") ? `-$${text.slice(1)}` : `$${text}`;
+}
+
+/**
+ * Run one named calculation with exact decimal arithmetic. Sums and
+ * differences are exact (currency is displayed to `decimals` places);
+ * ratios are rounded half away from zero to `decimals` places (default
+ * 2). Percent changes are relative to the magnitude of `from`. Throws
+ * when inputs are missing or invalid.
+ */
+export function calculate(request: CalculatorRequest): CalculatorResult {
+  const decimals = request.decimals ?? DEFAULT_DECIMALS;
+  const { operation } = request;
+
+  switch (operation) {
+    case "percent_change": {
+      const from = required(request, "from");
+      const to = required(request, "to");
+      if (from.isZero()) {
+        throw new Error("percent_change is undefined when from is 0");
+      }
+      // Divide by |from| so the sign follows the direction of the change:
+      // -100 → 50 is +150%, not -150%
+      const exact = to.minus(from).times(100).div(from.abs(), GUARD_DECIMALS);
+      const result = exact.round(decimals);
+      const display = `${result.toFixed(decimals)}%`;
+      return {
+        operation,
+        result: result.toString(),
+        display,
+        formula: `(${to.toGrouped()} - ${from.toGrouped()}) / |${from.toGrouped()}| * 100 = ${display}`,
+        rounded: exact.toString() !== result.toString(),
+      };
+    }
+
+    case "share_of_total": {
+      const part = required(request, "part");
+      const total = required(request, "total");
+      if (total.isZero()) {
+        throw new Error("share_of_total is undefined when total is 0");
+      }
+      const exact = part.times(100).div(total, GUARD_DECIMALS);
+      const result = exact.round(decimals);
+      const display = `${result.toFixed(decimals)}%`;
+      return {
+        operation,
+        result: result.toString(),
+        display,
+        formula: `${part.toGrouped()} / ${total.toGrouped()} * 100 = ${display}`,
+        rounded: exact.toString() !== result.toString(),
+      };
+    }
+
+    case "cagr": {
+      const from = required(request, "from");
+      const to = required(request, "to");
+      const periods = request.periods;
+      if (
+        periods === undefined ||
+        !Number.isInteger(periods) ||
+        periods < 1 ||
+        periods > MAX_PERIODS
+      ) {
+        throw new Error(
+          `cagr requires "periods" as a whole number of years from 1 to ${MAX_PERIODS}`
+        );
+      }
+      if (from.isNegative() || from.isZero() || to.isNegative()) {
+        throw new Error(
+          "cagr requires a positive from value and a non-negative to value"
+        );
+      }
+      const ratio = to.div(from, GUARD_DECIMALS * periods);
+      const growth = ratio.root(periods, GUARD_DECIMALS).minus(1).times(100);
+      const result = growth.round(decimals);
+      const display = `${result.toFixed(decimals)}%`;
+      return {
+        operation,
+        result: result.toString(),
+        display,
+        formula: `((${to.toGrouped()} / ${from.toGrouped()}) ^ (1 / ${periods}) - 1) * 100 = ${display}`,
+        rounded: true,
+      };
+    }
+
+    case "sum": {
+      const raw = request.values ?? [];
+      if (raw.length === 0) {
+        throw new Error('sum requires a non-empty "values" list');
+      }
+      const values = raw.map((v, i) => {
+        try {
+          return Decimal.parse(v);
+        } catch {
+          throw new Error(`values[${i}] is not a number: ${JSON.stringify(v)}`);
+        }
+      });
+      const result = values.reduce((acc, v) => acc.plus(v), Decimal.ZERO);
+      const currency = isCurrency(...raw);
+      return {
+        operation,
+        result: result.toString(),
+        display: money(result, currency, currency ? decimals : undefined),
+        formula: `${values.map((v) => v.toGrouped()).join(" + ")} = ${result.toGrouped()}`,
+        rounded: false,
+      };
+    }
+
+    case "difference": {
+      const from = required(request, "from");
+      const to = required(request, "to");
+      const result = to.minus(from);
+      const currency = isCurrency(request.from, request.to);
+      return {
+        operation,
+        result: result.toString(),
+        display: money(result, currency, currency ? decimals : undefined),
+        formula: `${to.toGrouped()} - ${from.toGrouped()} = ${result.toGrouped()}`,
+        rounded: false,
+      };
+    }
+
+    case "per_capita": {
+      const amount = required(request, "amount");
+      const population = required(request, "population");
+      if (population.isZero()) {
+        throw new Error("per_capita is undefined when population is 0");
+      }
+      const exact = amount.div(population, GUARD_DECIMALS);
+      const result = exact.round(decimals);
+      return {
+        operation,
+        result: result.toString(),
+        display: money(result, isCurrency(request.amount), decimals),
+        formula: `${amount.toGrouped()} / ${population.toGrouped()} = ${result.toFixed(decimals, true)}`,
+        rounded: exact.toString() !== result.toString(),
+      };
+    }
+
+    default:
+      throw new Error(`Unknown operation: ${String(operation)}`);
+  }
+}
+
+// ── Tool ────────────────────────────────────────────────────────────
+
+const amountSchema = z.union([z.number(), z.string()]);
+
+/**
+ * Budget calculator tool.
+ *
+ * Derived figures (changes, shares, growth rates, per-capita amounts,
+ * totals) are computed here with exact decimal arithmetic instead of by
+ * the LLM. The result includes the formula with the inputs substituted,
+ * so the answer can show its working.
+ */
+export const budgetCalculatorTool = tool(
+  async (request: CalculatorRequest): Promise<string> => {
+    logger.info("Budget calculator called", { request });
+    try {
+      return JSON.stringify({ status: "success", ...calculate(request) });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      logger.warn(`Budget calculator error: ${message}`);
+      return JSON.stringify({
+        status: "error",
+        message,
+        operation: request.operation,
+      });
+    }
+  },
+  {
+    name: "budget_calculator",
+    description:
+      "Exact arithmetic for budget figures. Use it for every figure you derive " +
+      "instead of calculating yourself. Operations and their inputs: " +
+      "percent_change (from, to; relative to |from|); share_of_total (part, total); " +
+      "cagr (from, to, periods in years); sum (values); " +
+      "difference (from, to → to minus from); per_capita (amount, population). " +
+      "Returns the result, a display string and the formula used.",
+    schema: z.object({
+      operation: z
+        .enum(CALCULATOR_OPERATIONS)
+        .describe("The calculation to run."),
+      from: amountSchema
+        .optional()
+        .describe("Earlier or base value (percent_change, difference, cagr)."),
+      to: amountSchema
+        .optional()
+        .describe("Later or compared value (percent_change, difference, cagr)."),
+      periods: z
+        .number()
+        .int()
+        .positive()
+        .max(MAX_PERIODS)
+        .optional()
+        .describe("Number of years between from and to (cagr)."),
+      part: amountSchema.optional().describe("The portion (share_of_total)."),
+      total: amountSchema.optional().describe("The whole (share_of_total)."),
+      amount: amountSchema.optional().describe("The amount to divide (per_capita)."),
+      population: amountSchema.optional().describe("Population (per_capita)."),
+      values: z.array(amountSchema).optional().describe("Figures to add (sum)."),
+      decimals: z
+        .number()
+        .int()
+        .min(0)
+        .max(10)
+        .optional()
+        .describe("Decimal places for rounded results (default: 2)."),
+    }),
+  }
+);
@@ -1,2 +1,12 @@
 export { kbRetrievalTool } from "./kb-retrieval.js";
-export { ragTools, toolNames } from "./tool-registry.js";
+export {
+  budgetCalculatorTool,
+  calculate,
+  CALCULATOR_OPERATIONS,
+} from "./budget-calculator.js";
+export type {
+  CalculatorOperation,
+  CalculatorRequest,
+  CalculatorResult,
+} from "./budget-calculator.js";
+export { modeTools, ragTools, toolNames } from "./tool-registry.js";
@@ -1,67 +1,76 @@
 import { tool } from "@langchain/core/tools";
+import type { ToolRunnableConfig } from "@langchain/core/tools";
+import { getCurrentTaskInput } from "@langchain/langgraph";
 import { z } from "zod";
-import {
-  BedrockAgentRuntimeClient,
-  RetrieveCommand,
-} from "@aws-sdk/client-bedrock-agent-runtime";
 import { getConfig } from "../config/index.js";
+import {
+  getRetriever,
+  mergeFilters,
+  retrievalFiltersSchema,
+} from "../retrievers/index.js";
+import { tenantIdFromConfig } from "../tenants/index.js";
 import { logger } from "../utils/index.js";
+import type { AgentState } from "../state/index.js";
+import type { RetrievalFilters } from "../types/index.js";
 
-let _client: BedrockAgentRuntimeClient | null = null;
-
-function getKBClient(): BedrockAgentRuntimeClient {
-  if (_client) return _client;
-  const config = getConfig();
-  _client = new BedrockAgentRuntimeClient({ region: config.awsRegion });
-  logger.info(
-    `Bedrock Agent Runtime client initialized in region ${config.awsRegion}`
-  );
-  return _client;
+/** Filters pinned to the current thread, when running inside the graph. */
+function pinnedFilters(): RetrievalFilters | null {
+  try {
+    return getCurrentTaskInput<AgentState>().retrievalFilters ?? null;
+  } catch {
+    return null;
+  }
 }
 
 /**
- * Bedrock Knowledge Base retrieval tool.
+ * Knowledge base retrieval tool.
  *
  * Given a search query, this tool retrieves relevant document chunks
- * from the AWS Bedrock Knowledge Base. It replicates the retrieval
- * pattern from the original Python Strands agent.
+ * from the configured retriever (AWS Bedrock Knowledge Base or the
+ * offline local index). Every backend returns the same chunk shape.
+ * Filters chosen by the model are combined with any filters pinned to
+ * the thread, and pinned ones take precedence. Only the documents of
+ * the run's tenant (`configurable.tenantId`) are searched.
  */
 export const kbRetrievalTool = tool(
-  async ({
-    query,
-    topK,
-  }: {
-    query: string;
-    topK?: number;
-  }): Promise<string> => {
+  async (
+    {
+      query,
+      topK,
+      filters: requested,
+    }: {
+      query: string;
+      topK?: number;
+      filters?: RetrievalFilters;
+    },
+    runConfig?: ToolRunnableConfig
+  ): Promise<string> => {
     const config = getConfig();
     const numberOfResults = topK ?? config.retrievalTopK;
+    const filters = mergeFilters(requested, pinnedFilters());
 
-    logger.info(
-      `KB retrieval tool called: query="${query}", topK=${numberOfResults}`
-    );
+    logger.info("KB retrieval tool called", {
+      query,
+      topK: numberOfResults,
+      ...(filters && { filters }),
+    });
 
     try {
-      const client = getKBClient();
-      const command = new RetrieveCommand({
-        knowledgeBaseId: config.knowledgeBaseId,
-        retrievalQuery: { text: query },
-        retrievalConfiguration: {
-          vectorSearchConfiguration: { numberOfResults },
-        },
+      const retriever = getRetriever(tenantIdFromConfig(runConfig));
+      const results = await retriever.retrieve({
+        query,
+        topK: numberOfResults,
+        filters,
       });
 
-      const response = await client.send(command);
-      const results = (response.retrievalResults ?? [])
-        .map((r) => r.content?.text ?? "")
-        .filter((text) => text.length > 0);
-
       if (results.length === 0) {
         return JSON.stringify({
           status: "no_results",
-          message:
-            "No relevant results found in the knowledge base for this query. Try rephrasing.",
+          message: filters
+            ? "No results matched this query and filters. Try rephrasing or loosening the filters."
+            : "No relevant results found in the knowledge base for this query. Try rephrasing.",
           query,
+          filters,
         });
       }
 
@@ -69,10 +78,8 @@ export const kbRetrievalTool = tool(
         status: "success",
         totalResults: results.length,
         query,
-        chunks: results.map((text, index) => ({
-          rank: index + 1,
-          text,
-        })),
+        filters,
+        chunks: results,
       });
     } catch (error) {
       const message =
@@ -82,17 +89,21 @@ export const kbRetrievalTool = tool(
         status: "error",
         message: `Failed to retrieve documents: ${message}`,
         query,
+        filters,
       });
     }
   },
   {
     name: "knowledge_base_retrieval",
     description:
-      "Search the budget document knowledge base in AWS Bedrock. " +
-      "Given a natural language query, this tool performs semantic search " +
-      "against the Knowledge Base and returns relevant text passages. " +
+      "Search the budget document knowledge base. " +
+      "Given a natural language query, this tool searches the indexed budget " +
+      "documents and returns relevant text passages, each with " +
+      "a citation marker, source document, page number and relevance score. " +
       "Use this to find budget information, line items, allocations, " +
-      "departmental data, policy details, or any content from the budget documents.",
+      "departmental data, policy details, or any content from the budget documents. " +
+      "Set filters when the question names a fiscal year, jurisdiction, department, " +
+      "fund or document type, so passages from other budgets are excluded.",
     schema: z.object({
       query: z
         .string()
@@ -101,8 +112,16 @@ export const kbRetrievalTool = tool(
         ),
       topK: z
         .number()
+        .int()
+        .min(1)
+        .max(100)
         .optional()
         .describe("Number of top results to return (default: 5)."),
+      filters: retrievalFiltersSchema
+        .optional()
+        .describe(
+          "Optional metadata filters. Use fiscalYear for one year, or fiscalYearFrom/fiscalYearTo for a range."
+        ),
     }),
   }
 );
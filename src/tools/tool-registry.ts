@@ -1,9 +1,22 @@
+import { budgetCalculatorTool } from "./budget-calculator.js";
 import { kbRetrievalTool } from "./kb-retrieval.js";
+import type { AgentMode } from "../types/index.js";
 
 /**
  * All tools available to the RAG agent.
  */
-export const ragTools = [kbRetrievalTool] as const;
+export const ragTools = [kbRetrievalTool, budgetCalculatorTool] as const;
+
+/**
+ * Tools each agent mode may call; each mode's graph binds and runs only
+ * its own list. Both lists are the same today: internal mode is kept to
+ * the knowledge base by its prompt and the require_sources node, and AI
+ * mode adds general knowledge from the model itself rather than a tool.
+ */
+export const modeTools: Record<AgentMode, readonly (typeof ragTools)[number][]> = {
+  internal: [kbRetrievalTool, budgetCalculatorTool],
+  ai: [kbRetrievalTool, budgetCalculatorTool],
+};
 
 /**
  * Tool names for reference.
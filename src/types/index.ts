@@ -2,21 +2,101 @@ import type { RunnableConfig } from "@langchain/core/runnables";
 
 // ── LLM Provider Types ──────────────────────────────────────────────
 
-export type LLMProvider = "bedrock" | "openai" | "anthropic";
+export type LLMProvider = "bedrock" | "openai" | "anthropic" | "mock";
 
-export type CheckpointerType = "memory" | "postgres" | "redis";
+export type CheckpointerType = "memory" | "file" | "postgres" | "redis";
+
+export type RetrieverType = "bedrock" | "local";
 
 export type NodeEnvironment = "development" | "test" | "production";
 
 export type LogLevel = "debug" | "info" | "warn" | "error";
 
+// ── Tenant Types ────────────────────────────────────────────────────
+
+/**
+ * How the agent writes its answers:
+ * - concise: the direct answer and key figures only
+ * - detailed: answer, supporting figures and caveats
+ * - plain_language: for readers without a finance background
+ */
+export type AnswerStyle = "concise" | "detailed" | "plain_language";
+
+/** How the agent presents itself to a tenant's users. */
+export interface TenantPersona {
+  /**
+   * Prompt template: `name` (latest version), `name@version`, or a
+   * weighted A/B split like `budget-assistant@1:80,budget-assistant@2:20`.
+   */
+  prompt: string;
+  /** Prompt template of AI mode, in the same form as `prompt`. */
+  aiPrompt: string;
+  /** Organization the documents belong to, as the prompt names it. */
+  organizationName?: string;
+  /** Fiscal year questions are about unless they name one, e.g. `FY2025`. */
+  fiscalYear?: string;
+  answerStyle: AnswerStyle;
+}
+
+/** A government (or other customer) with its own document corpus. */
+export interface Tenant {
+  id: string;
+  /** Display name, e.g. "City of Springfield". */
+  name: string;
+  /** Bedrock Knowledge Base holding this tenant's documents. */
+  knowledgeBaseId?: string;
+  /** AWS region of the Knowledge Base. */
+  region: string;
+  /** Local index file holding this tenant's documents (RETRIEVER_TYPE=local). */
+  localIndexPath?: string;
+  /** Example questions for `/api/examples`. */
+  examples: string[];
+  persona: TenantPersona;
+}
+
 // ── Agent Types ─────────────────────────────────────────────────────
 
-export interface AgentConfig {
-  threadId?: string;
+/**
+ * How the agent answers. `internal` answers only from the knowledge
+ * base, with citations, and refuses otherwise; `ai` may add general
+ * public-finance knowledge, labelled as not from the documents.
+ */
+export type AgentMode = "internal" | "ai";
+
+/**
+ * Limits on a single agent run. `0` or omitted means no limit beyond
+ * the server's `RUN_*` defaults, which a request can only tighten.
+ */
+export interface RunBudget {
+  /** Agent (LLM) steps before the run must answer. */
   maxIterations?: number;
-  temperature?: number;
+  /** Total LLM tokens (prompt + completion) the agent may spend. */
   maxTokens?: number;
+  /** Tool calls the agent may make. */
+  maxToolCalls?: number;
+  /** Wall-clock time for the run, in milliseconds. */
+  timeoutMs?: number;
+}
+
+/** LLM token usage and its estimated cost. */
+export interface UsageTotals {
+  inputTokens: number;
+  outputTokens: number;
+  totalTokens: number;
+  /** Estimated from the price table (`LLM_PRICES_FILE`). */
+  costUsd: number;
+  llmCalls: number;
+}
+
+/** The budget limit a run hit. */
+export type BudgetLimit = "iterations" | "tokens" | "tool_calls" | "deadline";
+
+/** A run's effective budget and what it used. */
+export interface BudgetReport {
+  limits: Required<RunBudget>;
+  used: { iterations: number; tokens: number; toolCalls: number };
+  /** The limit that cut the run short, or null if it finished within budget. */
+  exhausted: BudgetLimit | null;
 }
 
 export interface ThreadConfig {
@@ -49,8 +129,246 @@ export interface StreamEvent {
   metadata?: Record<string, unknown>;
 }
 
+// ── Retrieval & Citation Types ──────────────────────────────────────
+
+/** Where a retrieved chunk came from. */
+export interface ChunkSource {
+  /** Document location (e.g. `s3://bucket/budget-2025.pdf`). */
+  uri?: string;
+  /** Location type reported by the retriever (e.g. `S3`, `WEB`). */
+  type?: string;
+  /** Human-readable document title. */
+  title?: string;
+  /** 1-based page number, when the document is paginated. */
+  page?: number;
+}
+
+/** A chunk as returned in the retrieval tool's JSON output. */
+export interface RetrievedChunk {
+  rank: number;
+  /** Stable citation key the LLM uses to reference this chunk, e.g. `c:1a2b3c4d`. */
+  citation: string;
+  text: string;
+  score?: number;
+  source: ChunkSource;
+  metadata?: Record<string, unknown>;
+}
+
+/**
+ * Structured metadata filters for a search. Fiscal years are ending
+ * years (FY 2024-25 → 2025); the range bounds are inclusive.
+ */
+export interface RetrievalFilters {
+  fiscalYear?: number;
+  fiscalYearFrom?: number;
+  fiscalYearTo?: number;
+  jurisdiction?: string;
+  department?: string;
+  fund?: string;
+  documentType?: string;
+}
+
+/** A search request passed to a Retriever. */
+export interface RetrievalRequest {
+  query: string;
+  topK: number;
+  /** Only return chunks whose metadata matches every filter. */
+  filters?: RetrievalFilters;
+}
+
+/**
+ * A retrieval backend behind the `knowledge_base_retrieval` tool.
+ * Implementations must return chunks in the same shape regardless of
+ * where they come from, ordered best first.
+ */
+export interface Retriever {
+  readonly name: string;
+  retrieve(request: RetrievalRequest): Promise<RetrievedChunk[]>;
+}
+
+/** A numbered source reference in a final answer. */
+export interface Citation {
+  /** Footnote number as it appears in the answer, e.g. `[1]`. */
+  index: number;
+  citation: string;
+  title?: string;
+  uri?: string;
+  page?: number;
+  score?: number;
+  excerpt: string;
+}
+
+/** A figure in the answer that no retrieved chunk supports. */
+export interface UnsupportedFigure {
+  text: string;
+  kind: "currency" | "percent" | "fiscal_year";
+}
+
+/**
+ * Result of checking the final answer's figures against the turn's
+ * tool results.
+ * - verified: every figure was found in the retrieved chunks
+ * - revising: unsupported figures found; the agent is rewriting the answer
+ * - revised: the rewritten answer passed verification
+ * - flagged: unsupported figures remain in the answer
+ */
+export interface GroundingReport {
+  status: "verified" | "revising" | "revised" | "flagged";
+  checkedFigures: number;
+  unsupported: UnsupportedFigure[];
+  /** The unsupported figures of the first draft, when it was revised. */
+  revisedFrom?: UnsupportedFigure[];
+}
+
+/** The cached answer a turn was served from. */
+export interface CachedAnswerHit {
+  /** The earlier question whose answer was reused. */
+  question: string;
+  /** Token overlap with the asked question (1 = same terms). */
+  similarity: number;
+}
+
+/** Which provider of the LLM chain produced a reply. */
+export interface LlmAttribution {
+  provider: LLMProvider;
+  model: string;
+  /** Calls made to the answering provider, retries included. */
+  attempts: number;
+  /** Providers skipped (open circuit) or given up on before it, in order. */
+  failedOver: LLMProvider[];
+}
+
+/**
+ * Where review mode pauses a run for a human decision:
+ * - off: never
+ * - tools: before each batch of tool calls
+ * - answer: before the final answer is returned
+ * - all: both
+ */
+export type ReviewMode = "off" | "tools" | "answer" | "all";
+
+/** A run paused for review, as shown to reviewers. */
+export interface PendingReview {
+  threadId: string;
+  /** What is awaiting approval. */
+  kind: "tool_calls" | "answer";
+  /** The user question of the paused turn. */
+  question: string;
+  /** Proposed tool calls (`tool_calls` reviews). */
+  toolCalls?: Array<{
+    id: string;
+    name: string;
+    args: Record<string, unknown>;
+  }>;
+  /** Draft answer with citation markers intact (`answer` reviews). */
+  draft?: string;
+  /** Figure verification of the draft (`answer` reviews). */
+  grounding?: GroundingReport | null;
+  /** When the run paused. */
+  pausedAt: string;
+}
+
+/** A reviewer's decision on a pending review. */
+export interface ReviewDecision {
+  action: "approve" | "reject";
+  /** Replacement arguments by tool call id (approving `tool_calls`). */
+  toolCalls?: Array<{ id: string; args: Record<string, unknown> }>;
+  /** Replacement answer text (approving an `answer`). */
+  answer?: string;
+  /** Why the reviewer rejected or edited. */
+  reason?: string;
+}
+
+/** A review decision recorded in the thread state. */
+export interface ReviewRecord {
+  kind: PendingReview["kind"];
+  outcome: "approved" | "edited" | "rejected";
+  reason?: string;
+  /** The reviewer's key name or token subject. */
+  reviewer?: string;
+  /** The reviewer's stable id, e.g. `key:key_1a2b3c4d` or `jwt:alice`. */
+  reviewerId?: string;
+  decidedAt: string;
+}
+
+/**
+ * Typed events emitted by `POST /api/chat/stream` (one per SSE frame).
+ */
+export type ChatStreamEvent =
+  | { type: "token"; content: string }
+  | { type: "tool_start"; runId: string; tool: string; query?: string }
+  | { type: "revision"; unsupported: UnsupportedFigure[] }
+  | { type: "budget_exhausted"; limit: BudgetLimit }
+  /** Internal mode refused the draft: it cited no retrieved chunks. */
+  | { type: "refused" }
+  | {
+      type: "tool_end";
+      runId: string;
+      tool: string;
+      query?: string;
+      status: string;
+      chunkCount: number;
+    }
+  | {
+      type: "final";
+      threadId: string;
+      response: string;
+      thinking: string[];
+      citations: Citation[];
+      grounding: GroundingReport | null;
+      /** Retrieval filters pinned to the thread. */
+      filters: RetrievalFilters | null;
+      /** Review decisions made during the turn. */
+      reviews: ReviewRecord[];
+      budget: BudgetReport;
+      /** LLM usage of the turn. */
+      usage: UsageTotals;
+      /** LLM usage of the thread so far, this turn included. */
+      threadUsage: UsageTotals;
+      /** Set when the answer came from the answer cache. */
+      cachedAnswer: CachedAnswerHit | null;
+      /** Provider that produced the answer; null for cached answers. */
+      llm: LlmAttribution | null;
+      /** Prompt template version of the thread, e.g. `budget-assistant@2`. */
+      promptVersion: string | null;
+      /** Agent mode the turn ran in. */
+      mode: AgentMode;
+      /** Id of the answer message, for `POST /api/feedback`. */
+      messageId: string | null;
+    }
+  | {
+      type: "review";
+      threadId: string;
+      review: PendingReview;
+      /** LLM usage of the turn until it paused. */
+      usage: UsageTotals;
+    }
+  | { type: "error"; message: string };
+
 export interface AgentInvokeOptions {
   query: string;
   threadId?: string;
   config?: RunnableConfig;
+  /** Aborts the graph run (e.g. when an HTTP client disconnects). */
+  signal?: AbortSignal;
+  /**
+   * Retrieval filters to pin to the thread for this and later turns;
+   * `null` clears them, omitted keeps the current ones.
+   */
+  filters?: RetrievalFilters | null;
+  /** Tenant whose documents and threads the run may use (default tenant if omitted). */
+  tenantId?: string;
+  /** Review points to add to `REVIEW_MODE`, which always applies. */
+  review?: ReviewMode;
+  /** Limits for this run, capped by the server's `RUN_*` settings. */
+  budget?: RunBudget;
+  /**
+   * Prompt template for the thread, in the same form as a persona's
+   * `prompt` (default: the tenant's persona). Kept for later turns.
+   */
+  prompt?: string;
+  /** Answer style for this turn (default: the tenant's persona). */
+  answerStyle?: AnswerStyle;
+  /** Agent mode for this turn (default: the thread's, else `AGENT_MODE`). */
+  mode?: AgentMode;
 }
@@ -0,0 +1,207 @@
+// ── Exact Decimal Arithmetic ────────────────────────────────────────
+
+const DECIMAL_PATTERN = /^([+-]?)(\d*)(?:\.(\d*))?(?:e([+-]?\d+))?$/i;
+
+/**
+ * Parse limits. Inputs come from model-written tool arguments, and a
+ * value like "1e1000000" would build a million-digit BigInt.
+ */
+const MAX_EXPONENT = 30;
+const MAX_DIGITS = 40;
+
+const SCALE_WORDS: Record<string, number> = {
+  thousand: 3,
+  k: 3,
+  million: 6,
+  mm: 6,
+  m: 6,
+  billion: 9,
+  bn: 9,
+  b: 9,
+};
+
+function pow10(exponent: number): bigint {
+  return 10n ** BigInt(exponent);
+}
+
+/** Integer division rounded half away from zero. */
+function divideRounded(numerator: bigint, denominator: bigint): bigint {
+  const negative = numerator < 0n !== denominator < 0n;
+  const n = numerator < 0n ? -numerator : numerator;
+  const d = denominator < 0n ? -denominator : denominator;
+  const quotient = (n * 2n + d) / (d * 2n);
+  return negative ? -quotient : quotient;
+}
+
+/** Largest integer r with r^n <= value (value >= 0). */
+function integerRoot(value: bigint, n: number): bigint {
+  if (value < 2n) return value;
+  const degree = BigInt(n);
+  // Newton's method from an overestimate decreases monotonically to the floor
+  let x = 1n << BigInt(Math.ceil(value.toString(2).length / n));
+  for (;;) {
+    const next = ((degree - 1n) * x + value / x ** (degree - 1n)) / degree;
+    if (next >= x) return x;
+    x = next;
+  }
+}
+
+/**
+ * Arbitrary-precision decimal backed by a BigInt: `units × 10^-scale`.
+ * Addition, subtraction and multiplication are exact; division and roots
+ * round half away from zero to the requested number of decimal places.
+ */
+export class Decimal {
+  private constructor(
+    private readonly units: bigint,
+    private readonly scale: number
+  ) {}
+
+  static readonly ZERO = new Decimal(0n, 0);
+
+  /**
+   * Parse a plain number ("1234.5", "-0.25", "1e6") or a JS number.
+   * Throws on anything else, and on more than 40 digits or an exponent
+   * beyond ±30.
+   */
+  static from(value: string | number | Decimal): Decimal {
+    if (value instanceof Decimal) return value;
+    if (typeof value === "number" && !Number.isFinite(value)) {
+      throw new Error(`Not a finite number: ${value}`);
+    }
+    const text = String(value).trim();
+    const match = DECIMAL_PATTERN.exec(text);
+    if (!match || (!match[2] && !match[3])) {
+      throw new Error(`Not a number: "${text}"`);
+    }
+    const [, sign, integer, fraction = "", exponent = "0"] = match;
+    if (Math.abs(Number(exponent)) > MAX_EXPONENT) {
+      throw new Error(`Exponent out of range (±${MAX_EXPONENT}): "${text}"`);
+    }
+    if (integer.length + fraction.length > MAX_DIGITS) {
+      throw new Error(`Too many digits (max ${MAX_DIGITS}): "${text.slice(0, 50)}…"`);
+    }
+    const digits = BigInt(`${integer}${fraction}` || "0");
+    const scale = fraction.length - Number(exponent);
+    const units = sign === "-" ? -digits : digits;
+    return scale >= 0
+      ? new Decimal(units, scale)
+      : new Decimal(units * pow10(-scale), 0);
+  }
+
+  /**
+   * Parse an amount as written in a budget document: "$1,250,000",
+   * "(4,500)" for a negative, "12.3 million", "$1.25M".
+   */
+  static parse(value: string | number): Decimal {
+    if (typeof value === "number") return Decimal.from(value);
+    let text = value.trim().replace(/^\((.*)\)$/, "-$1");
+    text = text.replace(/\$|,|\s+dollars$/gi, "").trim();
+    const scaled = /^(.*?)\s*(thousand|million|billion|bn|mm|[kmb])$/i.exec(text);
+    if (!scaled) return Decimal.from(text);
+    const exponent = SCALE_WORDS[scaled[2].toLowerCase()];
+    return Decimal.from(scaled[1]).times(new Decimal(pow10(exponent), 0));
+  }
+
+  private static aligned(a: Decimal, b: Decimal): [bigint, bigint, number] {
+    const scale = Math.max(a.scale, b.scale);
+    return [
+      a.units * pow10(scale - a.scale),
+      b.units * pow10(scale - b.scale),
+      scale,
+    ];
+  }
+
+  plus(other: Decimal | string | number): Decimal {
+    const [a, b, scale] = Decimal.aligned(this, Decimal.from(other));
+    return new Decimal(a + b, scale);
+  }
+
+  minus(other: Decimal | string | number): Decimal {
+    const [a, b, scale] = Decimal.aligned(this, Decimal.from(other));
+    return new Decimal(a - b, scale);
+  }
+
+  times(other: Decimal | string | number): Decimal {
+    const b = Decimal.from(other);
+    return new Decimal(this.units * b.units, this.scale + b.scale);
+  }
+
+  /** `this / other`, rounded to `decimals` places. */
+  div(other: Decimal | string | number, decimals: number): Decimal {
+    const b = Decimal.from(other);
+    if (b.units === 0n) throw new Error("Division by zero");
+    const numerator = this.units * pow10(b.scale + decimals);
+    const denominator = b.units * pow10(this.scale);
+    return new Decimal(divideRounded(numerator, denominator), decimals);
+  }
+
+  /** Principal n-th root, rounded to `decimals` places. */
+  root(n: number, decimals: number): Decimal {
+    if (!Number.isInteger(n) || n < 1) {
+      throw new Error(`Root degree must be a positive integer: ${n}`);
+    }
+    if (this.units < 0n) throw new Error("Root of a negative number");
+    // Truncate with one guard digit, then round: exact half-up rounding
+    let digits = decimals + 1;
+    while (digits * n < this.scale) digits++;
+    const radicand = this.units * pow10(digits * n - this.scale);
+    return new Decimal(integerRoot(radicand, n), digits).round(decimals);
+  }
+
+  /** Round half away from zero to `decimals` places. */
+  round(decimals: number): Decimal {
+    if (decimals >= this.scale) return this;
+    const divisor = pow10(this.scale - decimals);
+    return new Decimal(divideRounded(this.units, divisor), decimals);
+  }
+
+  abs(): Decimal {
+    return this.units < 0n ? new Decimal(-this.units, this.scale) : this;
+  }
+
+  isZero(): boolean {
+    return this.units === 0n;
+  }
+
+  isNegative(): boolean {
+    return this.units < 0n;
+  }
+
+  /** Exact digits, without trailing zeros after the point. */
+  toString(): string {
+    return this.format(false);
+  }
+
+  /** Exactly `decimals` places, rounded; optional thousands separators. */
+  toFixed(decimals: number, grouped = false): string {
+    const rounded = this.round(decimals);
+    const padded = new Decimal(
+      rounded.units * pow10(decimals - rounded.scale),
+      decimals
+    );
+    return padded.format(grouped, true);
+  }
+
+  /** `toString()` with thousands separators. */
+  toGrouped(): string {
+    return this.format(true);
+  }
+
+  toNumber(): number {
+    return Number(this.toString());
+  }
+
+  private format(grouped: boolean, keepZeros = false): string {
+    const negative = this.units < 0n;
+    const digits = (negative ? -this.units : this.units)
+      .toString()
+      .padStart(this.scale + 1, "0");
+    let integer = digits.slice(0, digits.length - this.scale);
+    let fraction = digits.slice(digits.length - this.scale);
+    if (!keepZeros) fraction = fraction.replace(/0+$/, "");
+    if (grouped) integer = integer.replace(/\B(?=(\d{3})+(?!\d))/g, ",");
+    const text = fraction ? `${integer}.${fraction}` : integer;
+    return negative && /[1-9]/.test(digits) ? `-${text}` : text;
+  }
+}
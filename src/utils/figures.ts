@@ -0,0 +1,128 @@
+// ── Numeric Figures ─────────────────────────────────────────────────
+
+export type FigureKind = "currency" | "percent" | "number";
+
+export interface Figure {
+  /** Source text of the figure, e.g. "$12.3 million". */
+  raw: string;
+  /** Absolute value with scale words applied (12.3 million → 12300000). */
+  value: number;
+  percent: boolean;
+  /**
+   * `currency` when written with `$`, "dollars" or a scale word,
+   * `percent` for percentages, otherwise `number`.
+   */
+  kind: FigureKind;
+  /** Value of one unit in the last stated digit (12.3 million → 100000). */
+  precision: number;
+}
+
+export interface FiscalYearMention {
+  raw: string;
+  /** Ending year of the fiscal year, e.g. "FY 2024-25" → 2025. */
+  year: number;
+}
+
+const FIGURE_PATTERN =
+  /(\$\s?)?(\d{1,3}(?:,\d{3})+|\d+)(\.\d+)?\s*(%|percent\b|thousand\b|million\b|billion\b|bn\b|mm\b|[kmb]\b)?(\s+dollars\b)?/gi;
+
+const SCALES: Record<string, number> = {
+  thousand: 1e3,
+  k: 1e3,
+  million: 1e6,
+  mm: 1e6,
+  m: 1e6,
+  billion: 1e9,
+  bn: 1e9,
+  b: 1e9,
+};
+
+/**
+ * Extract numeric figures from text. "$1,250,000", "1.25 million" and
+ * "$1.25M" all normalize to the same value; signs and accounting
+ * parentheses are ignored so only the magnitude is compared.
+ */
+export function extractFigures(text: string): Figure[] {
+  const figures: Figure[] = [];
+  for (const match of text.matchAll(FIGURE_PATTERN)) {
+    const [raw, dollar, integer, fraction = "", unit = "", dollars] = match;
+    const suffix = unit.toLowerCase();
+    const base = Number(`${integer.replace(/,/g, "")}${fraction}`);
+    if (!Number.isFinite(base)) continue;
+
+    const percent = suffix === "%" || suffix === "percent";
+    const scale = percent ? 1 : (SCALES[suffix] ?? 1);
+    const digits = Math.max(0, fraction.length - 1);
+    figures.push({
+      raw: raw.trim(),
+      value: base * scale,
+      percent,
+      kind: percent
+        ? "percent"
+        : dollar || dollars || SCALES[suffix]
+          ? "currency"
+          : "number",
+      precision: scale * 10 ** -digits,
+    });
+  }
+  return figures;
+}
+
+/** Parse a single expected figure such as "$412.5M"; null if it has no number. */
+export function parseFigure(text: string): Figure | null {
+  return extractFigures(text)[0] ?? null;
+}
+
+/** Exact equality of two figures after normalization. */
+export function sameFigure(a: Figure, b: Figure): boolean {
+  if (a.percent !== b.percent) return false;
+  return Math.abs(a.value - b.value) <= 1e-9 * Math.max(1, Math.abs(b.value));
+}
+
+/**
+ * Whether `source` supports `claimed` at the precision it was stated
+ * with: "$12.3 million" is supported by 12,312,000 but not 12,400,000,
+ * while "$1,250,000" needs an exact match.
+ */
+export function supportsFigure(source: Figure, claimed: Figure): boolean {
+  if (source.percent !== claimed.percent) return false;
+  const tolerance = claimed.precision / 2 + 1e-9 * Math.abs(claimed.value);
+  return Math.abs(source.value - claimed.value) <= tolerance;
+}
+
+// ── Fiscal Years ────────────────────────────────────────────────────
+
+const FISCAL_YEAR_PATTERN =
+  /\b(?:FY|Fiscal\s+Year)\s*-?\s*'?(\d{4}|\d{2})(?:\s*[-–/]\s*(\d{4}|\d{2}))?\b/gi;
+
+function fullYear(raw: string, start: string): number {
+  if (raw.length === 4) return Number(raw);
+  const century = start.length === 4 ? Number(start.slice(0, 2)) * 100 : 2000;
+  return century + Number(raw);
+}
+
+/** Find fiscal-year mentions such as "FY2025", "FY 2024-25" or "Fiscal Year 2025". */
+export function extractFiscalYears(text: string): FiscalYearMention[] {
+  const mentions: FiscalYearMention[] = [];
+  for (const match of text.matchAll(FISCAL_YEAR_PATTERN)) {
+    const [raw, start, end] = match;
+    mentions.push({ raw: raw.trim(), year: fullYear(end ?? start, start) });
+  }
+  return mentions;
+}
+
+/**
+ * Every year a text refers to: fiscal-year mentions (by ending year),
+ * bare four-digit years such as column headers, and both ends of
+ * ranges like "2024-25".
+ */
+export function yearsMentioned(text: string): Set<number> {
+  const years = new Set(extractFiscalYears(text).map((m) => m.year));
+  for (const match of text.matchAll(
+    /\b((?:19|20)\d{2})(?:\s*[-–/]\s*(\d{4}|\d{2}))?\b/g
+  )) {
+    years.add(Number(match[1]));
+    if (match[2]) years.add(fullYear(match[2], match[1]));
+  }
+  return years;
+}
@@ -6,39 +6,7 @@ import {
 } from "@langchain/core/messages";
 import type { BaseMessage } from "@langchain/core/messages";
 import { getConfig } from "../config/index.js";
-
-// ── Logger ──────────────────────────────────────────────────────────
-
-const LOG_LEVELS: Record<string, number> = {
-  debug: 0,
-  info: 1,
-  warn: 2,
-  error: 3,
-};
-
-function shouldLog(level: string): boolean {
-  const configLevel = getConfig().logLevel;
-  return (LOG_LEVELS[level] ?? 1) >= (LOG_LEVELS[configLevel] ?? 1);
-}
-
-function timestamp(): string {
-  return new Date().toISOString();
-}
-
-export const logger = {
-  debug: (message: string, ...args: unknown[]) => {
-    if (shouldLog("debug")) console.debug(`[${timestamp()}] DEBUG: ${message}`, ...args);
-  },
-  info: (message: string, ...args: unknown[]) => {
-    if (shouldLog("info")) console.log(`[${timestamp()}] INFO: ${message}`, ...args);
-  },
-  warn: (message: string, ...args: unknown[]) => {
-    if (shouldLog("warn")) console.warn(`[${timestamp()}] WARN: ${message}`, ...args);
-  },
-  error: (message: string, ...args: unknown[]) => {
-    if (shouldLog("error")) console.error(`[${timestamp()}] ERROR: ${message}`, ...args);
-  },
-};
+import { logger } from "./logger.js";
 
 // ── Message Helpers ─────────────────────────────────────────────────
 
@@ -74,6 +42,17 @@ export function getMessageText(message: BaseMessage): string {
   return "";
 }
 
+/**
+ * Messages belonging to the latest turn: the last human message and
+ * everything after it (tool calls, tool results, final answer).
+ */
+export function getCurrentTurn(messages: BaseMessage[]): BaseMessage[] {
+  for (let i = messages.length - 1; i >= 0; i--) {
+    if (messages[i]._getType() === "human") return messages.slice(i);
+  }
+  return messages;
+}
+
 export function formatMessages(messages: BaseMessage[]): string {
   return messages
     .map((m) => {
@@ -84,29 +63,143 @@ export function formatMessages(messages: BaseMessage[]): string {
     .join("\n");
 }
 
+// ── Thinking Tags ───────────────────────────────────────────────────
+
+/**
+ * Split `<thinking>` blocks out of a raw model response (same pattern as
+ * the original Python app.py). Returns the cleaned markdown and the
+ * extracted thoughts.
+ */
+export function splitThinking(raw: string): {
+  content: string;
+  thinking: string[];
+} {
+  const thinking: string[] = [];
+  const thinkingPattern = /<thinking>([\s\S]*?)<\/thinking>/g;
+  let match: RegExpExecArray | null;
+  while ((match = thinkingPattern.exec(raw)) !== null) {
+    thinking.push(match[1]);
+  }
+
+  const content = raw
+    .replace(/<thinking>[\s\S]*?<\/thinking>/g, "")
+    .replace(/\n\s*\n/g, "\n\n")
+    .trim();
+
+  return { content, thinking };
+}
+
 // ── Retry Helper ────────────────────────────────────────────────────
 
+export interface RetryOptions {
+  /** Retries after the first attempt. */
+  maxRetries?: number;
+  /** Backoff cap of the first retry; doubles on each retry. */
+  initialDelay?: number;
+  /** Upper bound of any single backoff. */
+  maxDelay?: number;
+  /** Whether an error is worth retrying (default: every error). */
+  retryable?: (error: unknown) => boolean;
+  /** Stop retrying once aborted. */
+  signal?: AbortSignal;
+  /** Names the operation in retry logs. */
+  label?: string;
+}
+
+/** The configured retry policy (`RETRY_*`) for calls to external services. */
+export function retryPolicy(): RetryOptions {
+  const config = getConfig();
+  return {
+    maxRetries: config.retryMaxRetries,
+    initialDelay: config.retryBaseDelayMs,
+    maxDelay: config.retryMaxDelayMs,
+    retryable: isRetryableError,
+  };
+}
+
+/**
+ * Run `fn`, retrying failures with exponential backoff and full
+ * jitter: retry n waits a random time up to
+ * `min(maxDelay, initialDelay * 2^n)`, so callers throttled together
+ * don't retry together.
+ */
 export async function withRetry<T>(
   fn: () => Promise<T>,
-  maxRetries: number = 3,
-  initialDelay: number = 1000
+  options: RetryOptions = {}
 ): Promise<T> {
-  let lastError: Error | undefined;
-  for (let attempt = 0; attempt <= maxRetries; attempt++) {
+  const {
+    maxRetries = 3,
+    initialDelay = 1000,
+    maxDelay = 30_000,
+    retryable = () => true,
+    signal,
+    label = "Attempt",
+  } = options;
+  for (let attempt = 0; ; attempt++) {
     try {
       return await fn();
     } catch (err) {
-      lastError = err instanceof Error ? err : new Error(String(err));
-      if (attempt < maxRetries) {
-        const delay = initialDelay * Math.pow(2, attempt);
-        logger.warn(
-          `Attempt ${attempt + 1} failed, retrying in ${delay}ms: ${lastError.message}`
-        );
-        await sleep(delay);
+      if (attempt >= maxRetries || signal?.aborted || !retryable(err)) {
+        throw err;
       }
+      const cap = Math.min(maxDelay, initialDelay * Math.pow(2, attempt));
+      const delay = Math.round(Math.random() * cap);
+      const message = err instanceof Error ? err.message : String(err);
+      logger.warn(
+        `${label} failed (attempt ${attempt + 1}), retrying in ${delay}ms: ${message}`
+      );
+      await sleep(delay);
     }
   }
-  throw lastError;
+}
+
+const RETRYABLE_STATUSES = new Set([408, 425, 429, 500, 502, 503, 504, 529]);
+const RETRYABLE_NAMES =
+  /throttl|too ?many ?requests|rate ?limit|overloaded|service ?unavailable|internal ?server|timeout|model ?not ?ready/i;
+const RETRYABLE_CODES = new Set([
+  "ECONNRESET",
+  "ECONNREFUSED",
+  "ETIMEDOUT",
+  "EAI_AGAIN",
+  "EPIPE",
+  "MODEL_RATE_LIMIT",
+]);
+
+/**
+ * Whether an error is transient: throttling (429, Bedrock
+ * `ThrottlingException`), overload (Anthropic 529), 5xx responses,
+ * timeouts and dropped connections. Aborts never are. Errors are
+ * checked through their `cause` chain.
+ */
+export function isRetryableError(error: unknown): boolean {
+  if (!error || typeof error !== "object") return false;
+  const e = error as {
+    name?: string;
+    code?: string;
+    status?: number;
+    statusCode?: number;
+    lc_error_code?: string;
+    $metadata?: { httpStatusCode?: number };
+    $retryable?: unknown;
+    error?: { type?: string };
+    cause?: unknown;
+  };
+  if (e.name === "AbortError") return false;
+
+  const status = e.status ?? e.statusCode ?? e.$metadata?.httpStatusCode;
+  if (
+    (status !== undefined && RETRYABLE_STATUSES.has(status)) ||
+    e.$retryable ||
+    RETRYABLE_CODES.has(e.code ?? "") ||
+    RETRYABLE_CODES.has(e.lc_error_code ?? "") ||
+    RETRYABLE_NAMES.test(e.name ?? "") ||
+    RETRYABLE_NAMES.test(e.error?.type ?? "")
+  ) {
+    return true;
+  }
+  return e.cause !== undefined && e.cause !== error
+    ? isRetryableError(e.cause)
+    : false;
 }
 
 // ── Utility Functions ───────────────────────────────────────────────
@@ -135,7 +228,35 @@ export function formatDuration(ms: number): string {
   return `${(ms / 60000).toFixed(1)}m`;
 }
 
+/**
+ * Rough token count (about four characters per token). Used where an
+ * exact tokenizer isn't worth a dependency: context-window thresholds,
+ * and usage from the offline mock model.
+ */
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
 export function truncateText(text: string, maxLength: number): string {
   if (text.length <= maxLength) return text;
   return text.substring(0, maxLength - 3) + "...";
 }
+
+export {
+  extractFigures,
+  extractFiscalYears,
+  parseFigure,
+  sameFigure,
+  supportsFigure,
+  yearsMentioned,
+} from "./figures.js";
+export type { Figure, FigureKind, FiscalYearMention } from "./figures.js";
+export { Decimal } from "./decimal.js";
+export {
+  getLogContext,
+  logConfigSummary,
+  logger,
+  runWithLogContext,
+  setLogContext,
+} from "./logger.js";
+export type { LogContext, LogFields, LogLevel } from "./logger.js";
@@ -0,0 +1,150 @@
+import { AsyncLocalStorage } from "async_hooks";
+import { isSpanContextValid, trace } from "@opentelemetry/api";
+import {
+  configSummary,
+  getConfig,
+  logUserContentMode,
+} from "../config/index.js";
+
+// ── Log Context ─────────────────────────────────────────────────────
+
+/** Correlation fields added to every log line written within a request. */
+export interface LogContext {
+  requestId?: string;
+  tenantId?: string;
+  threadId?: string;
+}
+
+const logContext = new AsyncLocalStorage<LogContext>();
+
+/**
+ * Run `fn` with a log context. Async work it starts (graph nodes, tools,
+ * retrievers) inherits the context, so their log lines carry it too.
+ * `setLogContext` updates this object in place.
+ */
+export function runWithLogContext<T>(context: LogContext, fn: () => T): T {
+  return logContext.run(context, fn);
+}
+
+/** Add fields to the current log context; a no-op outside of one. */
+export function setLogContext(fields: LogContext): void {
+  const current = logContext.getStore();
+  if (current) Object.assign(current, fields);
+}
+
+/** The current log context, empty outside of one. */
+export function getLogContext(): LogContext {
+  return { ...logContext.getStore() };
+}
+
+/** Trace id of the active OpenTelemetry span, when tracing is on. */
+function activeTraceId(): string | undefined {
+  const spanContext = trace.getActiveSpan()?.spanContext();
+  return spanContext && isSpanContextValid(spanContext)
+    ? spanContext.traceId
+    : undefined;
+}
+
+// ── User Content ────────────────────────────────────────────────────
+
+/**
+ * Fields that hold what users asked or were told. Log them as fields,
+ * never inside the message, so LOG_USER_CONTENT can truncate or redact
+ * them.
+ */
+const USER_CONTENT_FIELDS = new Set([
+  "query",
+  "queries",
+  "question",
+  "answer",
+  "comment",
+  "correctedAnswer",
+]);
+
+function userContent(value: unknown): unknown {
+  if (Array.isArray(value)) return value.map(userContent);
+  if (typeof value !== "string") return value;
+
+  const mode = logUserContentMode();
+  if (mode === "redact") return `[redacted ${value.length} chars]`;
+  const max = getConfig().logContentMaxChars;
+  if (mode === "truncate" && value.length > max) {
+    return `${value.slice(0, max)}… [${value.length - max} more chars]`;
+  }
+  return value;
+}
+
+// ── Logger ──────────────────────────────────────────────────────────
+
+export type LogLevel = "debug" | "info" | "warn" | "error";
+
+/** Structured fields of a log line. */
+export type LogFields = Record<string, unknown>;
+
+const LOG_LEVELS: Record<LogLevel, number> = {
+  debug: 0,
+  info: 1,
+  warn: 2,
+  error: 3,
+};
+
+const WRITERS: Record<LogLevel, (line: string) => void> = {
+  debug: (line) => console.debug(line),
+  info: (line) => console.log(line),
+  warn: (line) => console.warn(line),
+  error: (line) => console.error(line),
+};
+
+function shouldLog(level: LogLevel): boolean {
+  return LOG_LEVELS[level] >= LOG_LEVELS[getConfig().logLevel];
+}
+
+/** JSON.stringify replacer for values JSON can't represent. */
+function serializable(_key: string, value: unknown): unknown {
+  if (value instanceof Error) return { name: value.name, message: value.message };
+  if (typeof value === "bigint") return value.toString();
+  return value;
+}
+
+function write(level: LogLevel, message: string, fields: LogFields = {}): void {
+  if (!shouldLog(level)) return;
+
+  const context: LogFields = { ...getLogContext(), traceId: activeTraceId() };
+  const data: LogFields = {};
+  for (const [key, value] of Object.entries(fields)) {
+    data[key] = USER_CONTENT_FIELDS.has(key) ? userContent(value) : value;
+  }
+  const time = new Date().toISOString();
+
+  if (getConfig().logFormat === "json") {
+    WRITERS[level](
+      JSON.stringify({ time, level, msg: message, ...context, ...data }, serializable)
+    );
+    return;
+  }
+
+  const tags = Object.entries(context)
+    .filter(([, value]) => value !== undefined)
+    .map(([key, value]) => `${key}=${value}`);
+  WRITERS[level](
+    `[${time}] ${level.toUpperCase()}: ${message}` +
+      (Object.keys(data).length ? ` ${JSON.stringify(data, serializable)}` : "") +
+      (tags.length ? ` (${tags.join(" ")})` : "")
+  );
+}
+
+/**
+ * Writes one line per call: JSON (`LOG_FORMAT=json`) with the request's
+ * log context and trace id, or a readable line (`LOG_FORMAT=pretty`).
+ */
+export const logger = {
+  debug: (message: string, fields?: LogFields) => write("debug", message, fields),
+  info: (message: string, fields?: LogFields) => write("info", message, fields),
+  warn: (message: string, fields?: LogFields) => write("warn", message, fields),
+  error: (message: string, fields?: LogFields) => write("error", message, fields),
+};
+
+/** Log the startup configuration as one line, in the configured format. */
+export function logConfigSummary(): void {
+  logger.info("Configuration summary", configSummary());
+}
@@ -0,0 +1,74 @@
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import type { AIMessage, ToolMessage } from "@langchain/core/messages";
+import { runAgentTurn } from "../../src/agents/rag-agent.js";
+import { setRetriever } from "../../src/retrievers/index.js";
+import { getMessageText } from "../../src/utils/index.js";
+import { PARKS_DOCUMENT, stubRetriever } from "../helpers/retriever.js";
+import type { RetrievalRequest } from "../../src/types/index.js";
+
+let requests: RetrievalRequest[];
+
+beforeEach(() => {
+  const stub = stubRetriever();
+  requests = stub.requests;
+  setRetriever(stub.retriever);
+});
+
+afterEach(() => {
+  setRetriever(null);
+});
+
+describe("RAG agent graph", () => {
+  it("routes agent → tools → agent → end and answers from the tool result", async () => {
+    const turn = await runAgentTurn({ query: "What is the parks budget?" });
+
+    expect(turn.turnMessages.map((m) => m._getType())).toEqual([
+      "human",
+      "ai",
+      "tool",
+      "ai",
+    ]);
+    const [, call, result, answer] = turn.turnMessages;
+    expect((call as AIMessage).tool_calls?.[0].name).toBe(
+      "knowledge_base_retrieval"
+    );
+    expect((result as ToolMessage).tool_call_id).toBe(
+      (call as AIMessage).tool_calls?.[0].id
+    );
+    expect(getMessageText(answer)).toMatch(/^Parks is \$4,200 in FY2025 \[c:[0-9a-f]{8}\]\.$/);
+    expect(turn.state.iterations).toBe(2);
+    expect(turn.state.grounding?.status).toBe("verified");
+  });
+
+  it("passes the model's tool call arguments to the retriever", async () => {
+    const turn = await runAgentTurn({ query: "What is the parks budget?" });
+
+    expect(requests).toEqual([{ query: "parks budget", topK: 3 }]);
+    const result = JSON.parse(getMessageText(turn.turnMessages[2]));
+    expect(result).toMatchObject({ status: "success", query: "parks budget" });
+    expect(result.chunks[0].text).toBe(PARKS_DOCUMENT.text);
+  });
+
+  it("ends without tools when the model answers directly", async () => {
+    const turn = await runAgentTurn({ query: "hello", mode: "ai" });
+
+    expect(turn.turnMessages.map((m) => m._getType())).toEqual(["human", "ai"]);
+    expect(requests).toHaveLength(0);
+    expect(turn.response).toBe("Hello! Ask me about the budget.");
+  });
+
+  it("stops at the iteration limit and writes a partial answer", async () => {
+    const turn = await runAgentTurn({
+      query: "keep searching for parks",
+      budget: { maxIterations: 2 },
+    });
+
+    expect(turn.state.budgetExhausted).toBe("iterations");
+    expect(turn.state.iterations).toBe(2);
+    // The second search was cut off before it ran
+    expect(requests).toHaveLength(1);
+    const skipped = turn.turnMessages.filter((m) => m._getType() === "tool").at(-1)!;
+    expect(JSON.parse(getMessageText(skipped)).status).toBe("skipped");
+    expect(turn.response).toMatch(/^This answer may be incomplete\./);
+  });
+});
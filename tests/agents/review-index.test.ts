@@ -0,0 +1,50 @@
+import { mkdtempSync, rmSync } from "fs";
+import { tmpdir } from "os";
+import path from "path";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { indexedReviewThreads, markReviewPending } from "../../src/agents/review-index.js";
+import { closeCheckpointer, getCheckpointer } from "../../src/checkpointers/index.js";
+import { resetConfig } from "../../src/config/index.js";
+
+describe.each(["memory", "file"])("pending-review index on the %s checkpointer", (type) => {
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = mkdtempSync(path.join(tmpdir(), "review-index-"));
+    vi.stubEnv("CHECKPOINTER_TYPE", type);
+    vi.stubEnv("CHECKPOINTER_FILE_DIR", dir);
+    resetConfig();
+    await closeCheckpointer();
+  });
+
+  afterEach(async () => {
+    await closeCheckpointer();
+    vi.unstubAllEnvs();
+    resetConfig();
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it("lists paused threads until they are cleared", async () => {
+    await markReviewPending("default", "thread_a", true);
+    await markReviewPending("default", "thread_b", true);
+    await markReviewPending("default", "thread_a", false);
+    await markReviewPending("default", "thread_b", true);
+
+    expect(await indexedReviewThreads("default")).toEqual(["thread_b"]);
+  });
+
+  it("keeps one record per thread however often it pauses", async () => {
+    for (let i = 0; i < 3; i++) {
+      await markReviewPending("default", "thread_a", true);
+      await markReviewPending("default", "thread_a", false);
+    }
+
+    const records = [];
+    for await (const tuple of getCheckpointer().list({
+      configurable: { thread_id: "#pending-reviews" },
+    })) {
+      records.push(tuple);
+    }
+    expect(records).toHaveLength(1);
+  });
+});
@@ -0,0 +1,96 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import {
+  listPendingReviews,
+  resumeAgentTurn,
+  runAgentTurn,
+} from "../../src/agents/rag-agent.js";
+import { strictestReviewMode } from "../../src/agents/reviews.js";
+import { resetConfig } from "../../src/config/index.js";
+import { setRetriever } from "../../src/retrievers/index.js";
+import { stubRetriever } from "../helpers/retriever.js";
+
+describe("strictestReviewMode", () => {
+  it("pauses wherever either mode does", () => {
+    expect(strictestReviewMode("off", "off")).toBe("off");
+    expect(strictestReviewMode("tools", "off")).toBe("tools");
+    expect(strictestReviewMode("off", "answer")).toBe("answer");
+    expect(strictestReviewMode("tools", "answer")).toBe("all");
+    expect(strictestReviewMode("all", "tools")).toBe("all");
+  });
+});
+
+describe("review mode", () => {
+  beforeEach(() => {
+    setRetriever(stubRetriever().retriever);
+  });
+
+  afterEach(() => {
+    setRetriever(null);
+    vi.unstubAllEnvs();
+    resetConfig();
+  });
+
+  it("treats REVIEW_MODE as a minimum a request can't lower", async () => {
+    vi.stubEnv("REVIEW_MODE", "tools");
+    resetConfig();
+
+    const turn = await runAgentTurn({ query: "What is the parks budget?", review: "off" });
+
+    expect(turn.state.reviewMode).toBe("tools");
+    expect(turn.review).toMatchObject({
+      kind: "tool_calls",
+      toolCalls: [{ name: "knowledge_base_retrieval", args: { query: "parks budget" } }],
+    });
+    expect(turn.response).toBe("");
+  });
+
+  it("lets a request add review points", async () => {
+    const turn = await runAgentTurn({ query: "What is the parks budget?", review: "answer" });
+
+    expect(turn.state.reviewMode).toBe("answer");
+    expect(turn.review).toMatchObject({ kind: "answer" });
+  });
+});
+
+describe("review queue", () => {
+  beforeEach(() => {
+    setRetriever(stubRetriever().retriever);
+  });
+
+  afterEach(() => {
+    setRetriever(null);
+  });
+
+  it("lists paused threads from the checkpointer until they are resumed", async () => {
+    const first = await runAgentTurn({ query: "What is the parks budget?", review: "tools" });
+    const second = await runAgentTurn({ query: "What is the parks budget?", review: "answer" });
+    await runAgentTurn({ query: "hello" });
+
+    // Earlier tests in this file leave paused threads behind too
+    const ours = [first.threadId, second.threadId];
+    const listed = (await listPendingReviews()).filter((r) => ours.includes(r.threadId));
+    expect(listed.map((r) => [r.threadId, r.kind])).toEqual([
+      [first.threadId, "tool_calls"],
+      [second.threadId, "answer"],
+    ]);
+
+    const resumed = await resumeAgentTurn(
+      first.threadId,
+      { action: "approve" },
+      { reviewer: { id: "key:key_1a2b3c4d", name: "Budget office" } }
+    );
+    expect(resumed.review).toBeNull();
+    expect(resumed.response).toMatch(/^Parks is \$4,200/);
+    expect(resumed.state.reviews).toEqual([
+      expect.objectContaining({
+        kind: "tool_calls",
+        outcome: "approved",
+        reviewer: "Budget office",
+        reviewerId: "key:key_1a2b3c4d",
+      }),
+    ]);
+    const remaining = (await listPendingReviews()).map((r) => r.threadId);
+    expect(remaining).toContain(second.threadId);
+    expect(remaining).not.toContain(first.threadId);
+  });
+});
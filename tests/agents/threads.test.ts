@@ -0,0 +1,44 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { runAgentTurn } from "../../src/agents/rag-agent.js";
+import {
+  getThreadCheckpoints,
+  getThreadConversation,
+} from "../../src/agents/threads.js";
+import { setRetriever } from "../../src/retrievers/index.js";
+import { stubRetriever } from "../helpers/retriever.js";
+
+describe("thread serialization", () => {
+  beforeEach(() => {
+    setRetriever(stubRetriever().retriever);
+    vi.useFakeTimers({ toFake: ["Date"] });
+  });
+
+  afterEach(() => {
+    setRetriever(null);
+    vi.useRealTimers();
+  });
+
+  it("timestamps each message when it is added to the thread", async () => {
+    vi.setSystemTime(new Date("2026-01-01T12:00:00Z"));
+    const { threadId } = await runAgentTurn({ query: "What is the parks budget?" });
+    vi.setSystemTime(new Date("2026-01-01T12:05:00Z"));
+    await runAgentTurn({ query: "hello", threadId });
+
+    const thread = await getThreadConversation(threadId);
+    const times = thread!.messages.map((m) => [m.role, new Date(m.timestamp).toISOString()]);
+    expect(times).toEqual([
+      ["human", "2026-01-01T12:00:00.000Z"],
+      ["ai", "2026-01-01T12:00:00.000Z"],
+      ["tool", "2026-01-01T12:00:00.000Z"],
+      ["ai", "2026-01-01T12:00:00.000Z"],
+      ["human", "2026-01-01T12:05:00.000Z"],
+      ["ai", "2026-01-01T12:05:00.000Z"],
+    ]);
+
+    // A limited history reports the same times as the thread itself
+    const [latest] = await getThreadCheckpoints(threadId, 1);
+    expect(latest.messages.map((m) => m.timestamp)).toEqual(
+      thread!.messages.map((m) => m.timestamp)
+    );
+  });
+});
@@ -0,0 +1,65 @@
+import { describe, expect, it } from "vitest";
+import { signJwt, verifyJwt } from "../../src/auth/index.js";
+
+const SECRET = "test-secret";
+const now = () => Math.floor(Date.now() / 1000);
+
+describe("verifyJwt", () => {
+  it("returns the claims of a valid token", () => {
+    const token = signJwt(
+      { sub: "alice", tenant: "springfield", scope: "admin", exp: now() + 60 },
+      SECRET
+    );
+    expect(verifyJwt(token, { secret: SECRET })).toMatchObject({
+      sub: "alice",
+      tenant: "springfield",
+      scope: "admin",
+    });
+  });
+
+  it("rejects tokens without a numeric exp", () => {
+    expect(() => verifyJwt(signJwt({ sub: "alice" }, SECRET), { secret: SECRET })).toThrow(
+      "Token has no expiry"
+    );
+    const token = signJwt({ sub: "alice", exp: "never" as unknown as number }, SECRET);
+    expect(() => verifyJwt(token, { secret: SECRET })).toThrow("Token has no expiry");
+  });
+
+  it("rejects expired and not yet valid tokens, within the clock tolerance", () => {
+    const expired = signJwt({ sub: "alice", exp: now() - 60 }, SECRET);
+    expect(() => verifyJwt(expired, { secret: SECRET })).toThrow("Token expired");
+    expect(verifyJwt(expired, { secret: SECRET, clockToleranceSeconds: 120 }).sub).toBe(
+      "alice"
+    );
+
+    const early = signJwt({ sub: "alice", exp: now() + 600, nbf: now() + 300 }, SECRET);
+    expect(() => verifyJwt(early, { secret: SECRET })).toThrow("Token not yet valid");
+  });
+
+  it("rejects a wrong signature or algorithm", () => {
+    const token = signJwt({ sub: "alice", exp: now() + 60 }, SECRET);
+    expect(() => verifyJwt(token, { secret: "other" })).toThrow("Invalid token signature");
+
+    const [, payload] = token.split(".");
+    const none = Buffer.from(JSON.stringify({ alg: "none" })).toString("base64url");
+    expect(() => verifyJwt(`${none}.${payload}.`, { secret: SECRET })).toThrow(
+      "Unsupported token algorithm"
+    );
+    expect(() => verifyJwt("not-a-token", { secret: SECRET })).toThrow("Malformed token");
+  });
+
+  it("checks the issuer and audience when configured", () => {
+    const token = signJwt(
+      { sub: "alice", iss: "budget-portal", aud: ["api", "ui"], exp: now() + 60 },
+      SECRET
+    );
+    const options = { secret: SECRET, issuer: "budget-portal", audience: "api" };
+    expect(verifyJwt(token, options).sub).toBe("alice");
+    expect(() => verifyJwt(token, { ...options, issuer: "other" })).toThrow(
+      "Invalid token issuer"
+    );
+    expect(() => verifyJwt(token, { ...options, audience: "other" })).toThrow(
+      "Invalid token audience"
+    );
+  });
+});
@@ -0,0 +1,46 @@
+import type { Request, Response } from "express";
+import { describe, expect, it, vi } from "vitest";
+import { hasScope, requireScope } from "../../src/auth/index.js";
+import type { Principal } from "../../src/auth/index.js";
+
+function principal(scopes: Principal["scopes"]): Principal {
+  return {
+    id: "key:key_1a2b3c4d",
+    kind: "api_key",
+    name: "test",
+    scopes,
+    limits: { requestsPerMinute: 60, burst: 10, requestsPerDay: 0, tokensPerDay: 0 },
+  };
+}
+
+function response(caller?: Principal) {
+  const res = {
+    locals: { principal: caller },
+    set: vi.fn(),
+    status: vi.fn(),
+    json: vi.fn(),
+  };
+  res.status.mockReturnValue(res);
+  return res;
+}
+
+describe("requireScope", () => {
+  it("passes callers holding the scope", () => {
+    const next = vi.fn();
+    const res = response(principal(["admin"]));
+    requireScope("admin")({} as Request, res as unknown as Response, next);
+    expect(next).toHaveBeenCalledOnce();
+    expect(hasScope(principal([]), "admin")).toBe(false);
+  });
+
+  it("rejects other callers, and every caller without auth, with 403", () => {
+    for (const caller of [principal([]), undefined]) {
+      const next = vi.fn();
+      const res = response(caller);
+      requireScope("admin")({} as Request, res as unknown as Response, next);
+      expect(next).not.toHaveBeenCalled();
+      expect(res.status).toHaveBeenCalledWith(403);
+      expect(res.json).toHaveBeenCalledWith({ error: "Requires the admin scope" });
+    }
+  });
+});
@@ -0,0 +1,76 @@
+import { mkdtemp, rm } from "fs/promises";
+import os from "os";
+import path from "path";
+import { afterAll, beforeAll, describe, it } from "vitest";
+import { MemorySaver } from "@langchain/langgraph";
+import type { BaseCheckpointSaver } from "@langchain/langgraph";
+import { PostgresSaver } from "@langchain/langgraph-checkpoint-postgres";
+import {
+  CONFORMANCE_CASES,
+  FileCheckpointStore,
+  KeyValueCheckpointSaver,
+  RedisCheckpointStore,
+} from "../../src/checkpointers/index.js";
+
+interface Backend {
+  saver: BaseCheckpointSaver;
+  close?: () => Promise<void>;
+}
+
+/**
+ * Register every conformance case against a backend. Each case writes to
+ * its own threads under a per-run prefix, so shared servers stay usable.
+ */
+function conformance(open: () => Promise<Backend>): void {
+  let backend: Backend;
+  const prefix = `__vitest_${Date.now().toString(36)}`;
+  let threads = 0;
+  const newThread = () => `${prefix}_${threads++}`;
+
+  beforeAll(async () => {
+    backend = await open();
+  });
+  afterAll(async () => {
+    await backend?.close?.();
+  });
+
+  for (const [name, run] of Object.entries(CONFORMANCE_CASES)) {
+    it(name, () => run(backend.saver, newThread));
+  }
+}
+
+describe("MemorySaver conformance", () => {
+  conformance(async () => ({ saver: new MemorySaver() }));
+});
+
+describe("file checkpointer conformance", () => {
+  conformance(async () => {
+    const dir = await mkdtemp(path.join(os.tmpdir(), "checkpoints-"));
+    return {
+      saver: new KeyValueCheckpointSaver(new FileCheckpointStore(dir)),
+      close: () => rm(dir, { recursive: true, force: true }),
+    };
+  });
+});
+
+// Live backends run only when a server is given, e.g.
+//   TEST_REDIS_URL=redis://localhost:6379 npm test
+describe.skipIf(!process.env.TEST_REDIS_URL)("redis checkpointer conformance", () => {
+  conformance(async () => {
+    const store = new RedisCheckpointStore(
+      process.env.TEST_REDIS_URL!,
+      `vitest-${Date.now().toString(36)}`
+    );
+    const saver = new KeyValueCheckpointSaver(store);
+    await store.ping();
+    return { saver, close: () => store.close() };
+  });
+});
+
+describe.skipIf(!process.env.TEST_POSTGRES_URL)("postgres checkpointer conformance", () => {
+  conformance(async () => {
+    const saver = PostgresSaver.fromConnString(process.env.TEST_POSTGRES_URL!);
+    await saver.setup();
+    return { saver, close: () => saver.end() };
+  });
+});
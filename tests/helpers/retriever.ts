@@ -0,0 +1,41 @@
+import { citationKey, titleFromUri } from "../../src/retrievers/index.js";
+import type {
+  RetrievalRequest,
+  Retriever,
+} from "../../src/types/index.js";
+
+export interface StubDocument {
+  uri: string;
+  text: string;
+}
+
+/** The budget table the chat script fixture's answers quote. */
+export const PARKS_DOCUMENT: StubDocument = {
+  uri: "s3://budgets/fy2025-budget.pdf",
+  text: "Parks and Recreation | FY2025 | 4,200",
+};
+
+/**
+ * Retriever that returns `documents` as chunks for every search and
+ * records the requests it was given.
+ */
+export function stubRetriever(documents: StubDocument[] = [PARKS_DOCUMENT]): {
+  retriever: Retriever;
+  requests: RetrievalRequest[];
+} {
+  const requests: RetrievalRequest[] = [];
+  const retriever: Retriever = {
+    name: "stub",
+    async retrieve(request) {
+      requests.push(request);
+      return documents.slice(0, request.topK).map((doc, i) => ({
+        rank: i + 1,
+        citation: citationKey(doc.uri, undefined, doc.text),
+        text: doc.text,
+        score: 1,
+        source: { uri: doc.uri, title: titleFromUri(doc.uri) },
+      }));
+    },
+  };
+  return { retriever, requests };
+}
@@ -0,0 +1,64 @@
+import { mkdirSync, mkdtempSync, rmSync, unlinkSync, writeFileSync } from "fs";
+import { tmpdir } from "os";
+import path from "path";
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import { ingestPaths } from "../../src/ingest/index.js";
+
+describe("ingestPaths", () => {
+  let root: string;
+  let books: string;
+  let indexPath: string;
+
+  beforeAll(() => {
+    root = mkdtempSync(path.join(tmpdir(), "ingest-"));
+    books = path.join(root, "docs", "budget-books");
+    mkdirSync(books, { recursive: true });
+    writeFileSync(path.join(books, "parks.md"), "# Parks\n\nParks is $4,200 in FY2025.\n");
+    writeFileSync(path.join(books, "roads.md"), "# Roads\n\nRoads is $7,100 in FY2025.\n");
+    indexPath = path.join(root, "index", "local-index.json");
+  });
+
+  afterAll(() => {
+    rmSync(root, { recursive: true, force: true });
+  });
+
+  it("keys documents by their path under the ingest root", async () => {
+    const summary = await ingestPaths([path.join(books, "parks.md")], { indexPath, root });
+
+    expect(summary.added).toEqual(["docs/budget-books/parks.md"]);
+  });
+
+  it("recognises a file again when its parent directories are ingested", async () => {
+    const parent = await ingestPaths([books], { indexPath, root });
+    expect(parent.added).toEqual(["docs/budget-books/roads.md"]);
+    expect(parent.unchanged).toEqual(["docs/budget-books/parks.md"]);
+
+    const grandparent = await ingestPaths([path.join(root, "docs")], { indexPath, root });
+    expect(grandparent.added).toEqual([]);
+    expect(grandparent.chunkCount).toBe(parent.chunkCount);
+  });
+
+  it("finds the same documents however the paths are written", async () => {
+    const summary = await ingestPaths([path.relative(process.cwd(), books)], {
+      indexPath,
+      root: path.relative(process.cwd(), root),
+    });
+
+    expect(summary.added).toEqual([]);
+    expect(summary.unchanged).toHaveLength(2);
+  });
+
+  it("removes documents deleted from an ingested directory", async () => {
+    unlinkSync(path.join(books, "roads.md"));
+    const summary = await ingestPaths([books], { indexPath, root });
+
+    expect(summary.removed).toEqual(["docs/budget-books/roads.md"]);
+    expect(summary.unchanged).toEqual(["docs/budget-books/parks.md"]);
+  });
+
+  it("rejects files outside the root", async () => {
+    await expect(ingestPaths([books], { indexPath, root: path.join(root, "index") })).rejects.toThrow(
+      "outside the ingest root"
+    );
+  });
+});
@@ -0,0 +1,61 @@
+import { describe, expect, it } from "vitest";
+import { CircuitBreaker } from "../../src/llm/index.js";
+
+describe("CircuitBreaker", () => {
+  const openedAt = 1_000;
+  const cooledDown = openedAt + 500;
+
+  function openBreaker(): CircuitBreaker {
+    const breaker = new CircuitBreaker(2, 500);
+    breaker.recordFailure(openedAt);
+    breaker.recordFailure(openedAt);
+    return breaker;
+  }
+
+  it("opens after the threshold and refuses calls during the cooldown", () => {
+    const breaker = new CircuitBreaker(2, 500);
+    breaker.recordFailure(openedAt);
+    expect(breaker.tryAcquire(openedAt)).toBe(true);
+
+    breaker.recordFailure(openedAt);
+    expect(breaker.status(openedAt)).toBe("open");
+    expect(breaker.tryAcquire(openedAt + 499)).toBe(false);
+  });
+
+  it("lets a single probe through once the cooldown has passed", () => {
+    const breaker = openBreaker();
+
+    expect(breaker.status(cooledDown)).toBe("half_open");
+    expect(breaker.tryAcquire(cooledDown)).toBe(true);
+    expect(breaker.isAvailable(cooledDown)).toBe(false);
+    expect(breaker.tryAcquire(cooledDown)).toBe(false);
+  });
+
+  it("closes when the probe succeeds", () => {
+    const breaker = openBreaker();
+    breaker.tryAcquire(cooledDown);
+    breaker.recordSuccess();
+
+    expect(breaker.status(cooledDown)).toBe("closed");
+    expect(breaker.tryAcquire(cooledDown)).toBe(true);
+    expect(breaker.tryAcquire(cooledDown)).toBe(true);
+  });
+
+  it("opens again when the probe fails", () => {
+    const breaker = openBreaker();
+    breaker.tryAcquire(cooledDown);
+    breaker.recordFailure(cooledDown);
+
+    expect(breaker.status(cooledDown)).toBe("open");
+    expect(breaker.tryAcquire(cooledDown + 500)).toBe(true);
+  });
+
+  it("hands the probe to the next call when it is released", () => {
+    const breaker = openBreaker();
+    breaker.tryAcquire(cooledDown);
+    breaker.releaseProbe();
+
+    expect(breaker.status(cooledDown)).toBe("half_open");
+    expect(breaker.tryAcquire(cooledDown)).toBe(true);
+  });
+});
@@ -0,0 +1,74 @@
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { runAgentTurn } from "../../src/agents/rag-agent.js";
+import { resolveRunBudget } from "../../src/nodes/index.js";
+import { setRetriever } from "../../src/retrievers/index.js";
+import { getMessageText } from "../../src/utils/index.js";
+import { stubRetriever } from "../helpers/retriever.js";
+import type { RetrievalRequest } from "../../src/types/index.js";
+
+describe("resolveRunBudget", () => {
+  it("caps each requested limit at the server's", () => {
+    // RUN_MAX_ITERATIONS defaults to 10; the other limits to unlimited
+    expect(resolveRunBudget({ maxIterations: 50, maxToolCalls: 4 })).toEqual({
+      maxIterations: 10,
+      maxTokens: 0,
+      maxToolCalls: 4,
+      timeoutMs: 0,
+    });
+    expect(resolveRunBudget({ maxIterations: 3 }).maxIterations).toBe(3);
+    expect(resolveRunBudget().maxIterations).toBe(10);
+  });
+});
+
+describe("finalize node", () => {
+  let requests: RetrievalRequest[];
+
+  beforeEach(() => {
+    const stub = stubRetriever();
+    requests = stub.requests;
+    setRetriever(stub.retriever);
+  });
+
+  afterEach(() => {
+    setRetriever(null);
+  });
+
+  it("skips tool calls beyond the limit and writes a partial answer", async () => {
+    const turn = await runAgentTurn({
+      query: "keep searching for parks",
+      budget: { maxToolCalls: 1 },
+    });
+
+    expect(turn.state.budgetExhausted).toBe("tool_calls");
+    expect(requests).toHaveLength(1);
+    const tools = turn.turnMessages.filter((m) => m._getType() === "tool");
+    expect(tools.map((m) => JSON.parse(getMessageText(m)).status)).toEqual([
+      "success",
+      "skipped",
+    ]);
+    expect(turn.response).toMatch(/^This answer may be incomplete\./);
+  });
+
+  it("answers with a fixed notice, without another model call, when tokens run out", async () => {
+    const turn = await runAgentTurn({
+      query: "keep searching for parks",
+      budget: { maxTokens: 1 },
+    });
+
+    expect(turn.state.budgetExhausted).toBe("tokens");
+    expect(requests).toHaveLength(0);
+    expect(turn.state.iterations).toBe(1);
+    expect(turn.response).toMatch(/^I ran out of token budget/);
+  });
+
+  it("does not send a partial answer back for revision", async () => {
+    const turn = await runAgentTurn({
+      query: "keep searching for parks",
+      budget: { maxIterations: 1 },
+    });
+
+    expect(turn.state.budgetExhausted).toBe("iterations");
+    expect(turn.state.grounding?.status).not.toBe("revising");
+    expect(turn.state.iterations).toBe(1);
+  });
+});
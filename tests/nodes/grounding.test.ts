@@ -0,0 +1,81 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { HumanMessage, ToolMessage } from "@langchain/core/messages";
+import { runAgentTurn } from "../../src/agents/rag-agent.js";
+import { resetConfig } from "../../src/config/index.js";
+import { checkGrounding } from "../../src/nodes/index.js";
+import { setRetriever } from "../../src/retrievers/index.js";
+import { stubRetriever } from "../helpers/retriever.js";
+
+function toolResult(...texts: string[]): ToolMessage {
+  return new ToolMessage({
+    tool_call_id: "call_1",
+    content: JSON.stringify({ status: "success", chunks: texts.map((text) => ({ text })) }),
+  });
+}
+
+describe("checkGrounding", () => {
+  const turn = [
+    new HumanMessage("What is the police budget?"),
+    toolResult("Police | FY2025 | 12,312,000 | 4.5% of the General Fund"),
+  ];
+
+  it("accepts figures found in the retrieved chunks, at lower precision too", () => {
+    const result = checkGrounding(
+      "Police gets $12.3 million in FY2025 [c:1a2b3c4d], 4.5% of the fund.",
+      turn
+    );
+    expect(result.unsupported).toEqual([]);
+    expect(result.checkedFigures).toBe(3);
+  });
+
+  it("reports figures and fiscal years the chunks don't contain, once each", () => {
+    const result = checkGrounding(
+      "Police gets $13 million in FY2026, up from $13 million.",
+      turn
+    );
+    expect(result.unsupported).toEqual([
+      { text: "$13 million", kind: "currency" },
+      { text: "FY2026", kind: "fiscal_year" },
+    ]);
+  });
+});
+
+describe("verify node", () => {
+  beforeEach(() => {
+    setRetriever(stubRetriever().retriever);
+  });
+
+  afterEach(() => {
+    setRetriever(null);
+    vi.unstubAllEnvs();
+    resetConfig();
+  });
+
+  it("sends an unsupported figure back for one revision pass", async () => {
+    const turn = await runAgentTurn({ query: "misquote the parks budget" });
+
+    expect(turn.state.grounding).toMatchObject({
+      status: "revised",
+      unsupported: [],
+      revisedFrom: [{ text: "$9,999", kind: "currency" }],
+    });
+    expect(turn.response).toContain("$4,200");
+    expect(turn.response).not.toContain("$9,999");
+    // The draft is replaced, not kept alongside the revision
+    expect(turn.turnMessages.filter((m) => m._getType() === "ai")).toHaveLength(2);
+  });
+
+  it("only flags the figure with GROUNDING_MODE=flag", async () => {
+    vi.stubEnv("GROUNDING_MODE", "flag");
+    resetConfig();
+
+    const turn = await runAgentTurn({ query: "misquote the parks budget" });
+
+    expect(turn.state.grounding).toMatchObject({
+      status: "flagged",
+      unsupported: [{ text: "$9,999", kind: "currency" }],
+    });
+    expect(turn.response).toContain("$9,999");
+    expect(turn.state.iterations).toBe(2);
+  });
+});
@@ -0,0 +1,77 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { AIMessage, HumanMessage, ToolMessage } from "@langchain/core/messages";
+import { resetConfig } from "../../src/config/index.js";
+import { memoryNode } from "../../src/nodes/index.js";
+import type { AgentState } from "../../src/state/schemas.js";
+import { getMessageText } from "../../src/utils/index.js";
+
+const CHUNK_TEXT =
+  "Parks and Recreation | FY2025 | 4,200. " +
+  "The department maintains 40 parks, 12 pools and 85 miles of trails. ".repeat(5);
+
+function thread(): AgentState {
+  return {
+    messages: [
+      new HumanMessage({ id: "h1", content: "What is the parks budget?" }),
+      new AIMessage({
+        id: "a1",
+        content: "",
+        tool_calls: [{ id: "call_1", name: "knowledge_base_retrieval", args: { query: "parks" } }],
+      }),
+      new ToolMessage({
+        id: "t1",
+        tool_call_id: "call_1",
+        name: "knowledge_base_retrieval",
+        content: JSON.stringify({
+          status: "success",
+          query: "parks",
+          chunks: [{ rank: 1, citation: "c:1a2b3c4d", text: CHUNK_TEXT }],
+        }),
+      }),
+      new AIMessage({ id: "a2", content: "Parks is $4,200 in FY2025 [c:1a2b3c4d]." }),
+      new HumanMessage({ id: "h2", content: "And how many pools?" }),
+    ],
+  } as unknown as AgentState;
+}
+
+describe("memory node", () => {
+  afterEach(() => {
+    vi.unstubAllEnvs();
+    resetConfig();
+  });
+
+  it("leaves history within MEMORY_MAX_TOKENS untouched", async () => {
+    vi.stubEnv("MEMORY_MODE", "compact");
+    resetConfig();
+
+    expect(await memoryNode(thread())).toEqual({ currentStep: "memory" });
+  });
+
+  it("compacts earlier retrieval results once the history is over the limit", async () => {
+    vi.stubEnv("MEMORY_MODE", "compact");
+    vi.stubEnv("MEMORY_MAX_TOKENS", "50");
+    resetConfig();
+
+    const { messages } = await memoryNode(thread());
+
+    expect(messages).toHaveLength(1);
+    const compacted = messages![0] as ToolMessage;
+    expect(compacted.id).toBe("t1");
+    const payload = JSON.parse(getMessageText(compacted));
+    expect(payload.status).toBe("compacted");
+    expect(payload.chunks[0].citation).toBe("c:1a2b3c4d");
+    expect(payload.chunks[0].text.length).toBeLessThan(CHUNK_TEXT.length);
+  });
+
+  it("drops older turns with MEMORY_MODE=trim", async () => {
+    vi.stubEnv("MEMORY_MODE", "trim");
+    vi.stubEnv("MEMORY_MAX_TOKENS", "10");
+    vi.stubEnv("MEMORY_KEEP_TURNS", "0");
+    resetConfig();
+
+    const { messages } = await memoryNode(thread());
+
+    const removed = messages!.filter((m) => m._getType() === "remove").map((m) => m.id);
+    expect(removed).toEqual(["h1", "a1", "t1", "a2"]);
+  });
+});
@@ -0,0 +1,42 @@
+import { describe, expect, it } from "vitest";
+import { MemoryCacheStore, TtlCache } from "../../src/cache/index.js";
+import { CachingRetriever } from "../../src/retrievers/caching.js";
+import type { RetrievedChunk } from "../../src/types/index.js";
+import { stubRetriever } from "../helpers/retriever.js";
+
+function cachedRetrievers() {
+  const stub = stubRetriever();
+  const cache = new TtlCache<RetrievedChunk[]>("retrieval", new MemoryCacheStore(), 60_000, 100);
+  const forTenant = (tenantId: string) =>
+    new CachingRetriever(stub.retriever, cache, { tenantId, knowledgeBaseId: "KB1" });
+  return { requests: stub.requests, cache, forTenant };
+}
+
+describe("CachingRetriever", () => {
+  it("serves a repeated search, ignoring case and whitespace", async () => {
+    const { requests, forTenant } = cachedRetrievers();
+    const retriever = forTenant("springfield");
+
+    const first = await retriever.retrieve({ query: "Parks budget", topK: 3 });
+    const second = await retriever.retrieve({ query: "  parks   BUDGET ", topK: 3 });
+
+    expect(second).toEqual(first);
+    expect(requests).toHaveLength(1);
+    await retriever.retrieve({ query: "parks budget", topK: 5 });
+    expect(requests).toHaveLength(2);
+  });
+
+  it("keeps tenants sharing a Knowledge Base apart", async () => {
+    const { requests, cache, forTenant } = cachedRetrievers();
+
+    await forTenant("springfield").retrieve({ query: "parks budget" });
+    await forTenant("shelbyville").retrieve({ query: "parks budget" });
+    expect(requests).toHaveLength(2);
+
+    // Dropping one tenant's entries leaves the other's cached
+    await cache.invalidate({ tenantId: "springfield" });
+    await forTenant("shelbyville").retrieve({ query: "parks budget" });
+    await forTenant("springfield").retrieve({ query: "parks budget" });
+    expect(requests).toHaveLength(3);
+  });
+});
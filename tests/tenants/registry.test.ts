@@ -0,0 +1,60 @@
+import { mkdtempSync, rmSync, writeFileSync } from "fs";
+import { tmpdir } from "os";
+import path from "path";
+import { afterAll, beforeAll, describe, expect, it, vi } from "vitest";
+import { resetConfig } from "../../src/config/index.js";
+import { resetTenantRegistry, resolveTenant } from "../../src/tenants/index.js";
+
+describe("resolveTenant with several tenants", () => {
+  let dir: string;
+
+  beforeAll(() => {
+    dir = mkdtempSync(path.join(tmpdir(), "tenants-"));
+    const file = path.join(dir, "tenants.json");
+    writeFileSync(
+      file,
+      JSON.stringify({
+        defaultTenant: "springfield",
+        tenants: [
+          { id: "springfield", name: "Springfield", localIndexPath: "./springfield" },
+          { id: "shelbyville", name: "Shelbyville", localIndexPath: "./shelbyville" },
+        ],
+      })
+    );
+    vi.stubEnv("TENANTS_FILE", file);
+    resetConfig();
+    resetTenantRegistry();
+  });
+
+  afterAll(() => {
+    vi.unstubAllEnvs();
+    resetConfig();
+    resetTenantRegistry();
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it("uses the tenant a credential is bound to", () => {
+    expect(resolveTenant({ boundTenantId: "shelbyville", anyTenant: false }).tenant?.id).toBe(
+      "shelbyville"
+    );
+    expect(
+      resolveTenant({ tenantId: "springfield", boundTenantId: "shelbyville" }).error
+    ).toEqual({ status: 403, message: "Credential does not belong to this tenant" });
+  });
+
+  it("rejects an unbound credential that may not pick a tenant", () => {
+    expect(resolveTenant({ tenantId: "shelbyville", anyTenant: false }).error).toEqual({
+      status: 403,
+      message: "Credential is not bound to a tenant",
+    });
+    expect(resolveTenant({ anyTenant: false }).error?.status).toBe(403);
+  });
+
+  it("lets other callers pick a tenant, or use the default", () => {
+    expect(resolveTenant({ tenantId: "shelbyville", anyTenant: true }).tenant?.id).toBe(
+      "shelbyville"
+    );
+    expect(resolveTenant({ anyTenant: true }).tenant?.id).toBe("springfield");
+    expect(resolveTenant({ tenantId: "ogdenville" }).error?.status).toBe(404);
+  });
+});
@@ -0,0 +1,72 @@
+import { describe, expect, it } from "vitest";
+import {
+  budgetCalculatorTool,
+  calculate,
+} from "../../src/tools/budget-calculator.js";
+
+describe("calculate", () => {
+  it("computes percent changes relative to the size of the base", () => {
+    expect(calculate({ operation: "percent_change", from: 200, to: 250 })).toMatchObject({
+      result: "25",
+      display: "25.00%",
+      rounded: false,
+    });
+    // A negative base keeps the sign of the change
+    expect(calculate({ operation: "percent_change", from: -100, to: 50 }).display).toBe(
+      "150.00%"
+    );
+    expect(calculate({ operation: "percent_change", from: -100, to: -150 }).display).toBe(
+      "-50.00%"
+    );
+    expect(() => calculate({ operation: "percent_change", from: 0, to: 5 })).toThrow(
+      "undefined when from is 0"
+    );
+  });
+
+  it("shows currency sums and differences to cents", () => {
+    expect(calculate({ operation: "sum", values: ["$0.10", "$0.20"] })).toMatchObject({
+      result: "0.3",
+      display: "$0.30",
+    });
+    expect(
+      calculate({ operation: "difference", from: "$1,250,000", to: "$1,000,000" }).display
+    ).toBe("-$250,000.00");
+    expect(calculate({ operation: "sum", values: [0.1, 0.2] }).display).toBe("0.3");
+  });
+
+  it("rounds ratios to the requested places", () => {
+    expect(calculate({ operation: "share_of_total", part: 1, total: 3 })).toMatchObject({
+      result: "33.33",
+      rounded: true,
+    });
+    expect(
+      calculate({ operation: "per_capita", amount: "$1,051,300", population: 10000 }).display
+    ).toBe("$105.13");
+    expect(calculate({ operation: "cagr", from: 100, to: 121, periods: 2 }).display).toBe(
+      "10.00%"
+    );
+  });
+
+  it("names missing or invalid inputs", () => {
+    expect(() => calculate({ operation: "difference", from: 1 })).toThrow('requires "to"');
+    expect(() => calculate({ operation: "sum", values: [1, "lots"] })).toThrow(
+      "values[1] is not a number"
+    );
+  });
+
+  it("returns an error for inputs too large to compute quickly", async () => {
+    for (const request of [
+      { operation: "difference", from: "1e1000000", to: 1 },
+      { operation: "sum", values: [1, "9".repeat(1000)] },
+    ]) {
+      const result = JSON.parse(await budgetCalculatorTool.invoke(request));
+      expect(result.status).toBe("error");
+    }
+    await expect(
+      budgetCalculatorTool.invoke({ operation: "cagr", from: 100, to: 121, periods: 101 })
+    ).rejects.toThrow(/did not match expected schema/);
+    expect(() => calculate({ operation: "cagr", from: 100, to: 121, periods: 100_000 })).toThrow(
+      "from 1 to 100"
+    );
+  });
+});
@@ -0,0 +1,35 @@
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { setRetriever } from "../../src/retrievers/index.js";
+import { kbRetrievalTool } from "../../src/tools/kb-retrieval.js";
+import type { RetrievalRequest } from "../../src/types/index.js";
+import { stubRetriever } from "../helpers/retriever.js";
+
+describe("knowledge_base_retrieval", () => {
+  let requests: RetrievalRequest[];
+
+  beforeEach(() => {
+    const stub = stubRetriever();
+    requests = stub.requests;
+    setRetriever(stub.retriever);
+  });
+
+  afterEach(() => {
+    setRetriever(null);
+  });
+
+  it("passes topK through to the retriever", async () => {
+    const result = JSON.parse(await kbRetrievalTool.invoke({ query: "parks", topK: 3 }));
+
+    expect(result.status).toBe("success");
+    expect(requests).toEqual([{ query: "parks", topK: 3 }]);
+  });
+
+  it("rejects a topK outside 1-100 before searching", async () => {
+    for (const topK of [0, 101, 2.5]) {
+      await expect(kbRetrievalTool.invoke({ query: "parks", topK })).rejects.toThrow(
+        /did not match expected schema/
+      );
+    }
+    expect(requests).toHaveLength(0);
+  });
+});
@@ -0,0 +1,41 @@
+import { describe, expect, it } from "vitest";
+import { Decimal } from "../../src/utils/index.js";
+
+describe("Decimal", () => {
+  it("adds without floating point error", () => {
+    expect(Decimal.from("0.1").plus("0.2").toString()).toBe("0.3");
+    expect(Decimal.from(0.1).plus(0.2).toFixed(2)).toBe("0.30");
+  });
+
+  it("parses amounts as written in budget documents", () => {
+    expect(Decimal.parse("$1,250,000").toString()).toBe("1250000");
+    expect(Decimal.parse("(4,500)").toString()).toBe("-4500");
+    expect(Decimal.parse("12.3 million").toString()).toBe("12300000");
+    expect(Decimal.parse("$1.25M").toString()).toBe("1250000");
+    expect(() => Decimal.parse("n/a")).toThrow("Not a number");
+  });
+
+  it("rounds half away from zero", () => {
+    expect(Decimal.from("2.345").round(2).toString()).toBe("2.35");
+    expect(Decimal.from("-2.345").round(2).toString()).toBe("-2.35");
+    expect(Decimal.from(2).div(3, 4).toString()).toBe("0.6667");
+  });
+
+  it("formats with fixed places and grouping", () => {
+    expect(Decimal.from("1234567.5").toFixed(2, true)).toBe("1,234,567.50");
+    expect(Decimal.from("-1234.5").toGrouped()).toBe("-1,234.5");
+    expect(Decimal.from("-3.5").abs().toString()).toBe("3.5");
+  });
+
+  it("takes exact integer roots", () => {
+    expect(Decimal.from(8).root(3, 4).toString()).toBe("2");
+    expect(() => Decimal.from(-8).root(3, 2)).toThrow("negative");
+  });
+
+  it("rejects huge exponents and digit counts", () => {
+    expect(Decimal.from("1e30").toString()).toBe(`1${"0".repeat(30)}`);
+    expect(() => Decimal.from("1e1000000")).toThrow("Exponent out of range");
+    expect(() => Decimal.from("1e-31")).toThrow("Exponent out of range");
+    expect(() => Decimal.from("9".repeat(41))).toThrow("Too many digits");
+  });
+});
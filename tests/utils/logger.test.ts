@@ -0,0 +1,34 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { resetConfig } from "../../src/config/index.js";
+import { logConfigSummary } from "../../src/utils/index.js";
+
+describe("logConfigSummary", () => {
+  beforeEach(() => {
+    vi.stubEnv("LOG_LEVEL", "info");
+    vi.stubEnv("LOG_FORMAT", "json");
+    resetConfig();
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+    vi.unstubAllEnvs();
+    resetConfig();
+  });
+
+  it("writes one JSON line with the settings as fields", () => {
+    const log = vi.spyOn(console, "log").mockImplementation(() => {});
+
+    logConfigSummary();
+
+    expect(log).toHaveBeenCalledTimes(1);
+    const line = JSON.parse(log.mock.calls[0][0]);
+    expect(line).toMatchObject({
+      level: "info",
+      msg: "Configuration summary",
+      retriever: "local",
+      llmProvider: "mock",
+      checkpointer: "memory",
+      logging: { level: "info", format: "json" },
+    });
+  });
+});
@@ -0,0 +1,17 @@
+import { defineConfig } from "vitest/config";
+
+export default defineConfig({
+  test: {
+    include: ["tests/**/*.test.ts"],
+    // Offline by default: the scripted LLM and in-memory checkpoints
+    env: {
+      NODE_ENV: "test",
+      LLM_PROVIDER: "mock",
+      MOCK_LLM_SCRIPT: "tests/fixtures/chat-script.json",
+      RETRIEVER_TYPE: "local",
+      CHECKPOINTER_TYPE: "memory",
+      AUTH_MODE: "none",
+      LOG_LEVEL: "error",
+    },
+  },
+});